@@ -0,0 +1,90 @@
+import { randomUUID } from 'node:crypto'
+import type { IncomingMessage } from 'node:http'
+import { logger as rootLogger, type Logger } from './logger'
+import type { RateLimiter } from './middleware/rate-limit'
+
+export interface Context {
+  requestId: string
+  connectionId: string // Fresh per HTTP request or WebSocket connection
+  remoteAddress: string
+  rateLimiter: RateLimiter | null // null disables rate limiting
+  log: Logger // Bound to the request ID
+}
+
+// Accept IDs from an upstream proxy only if they are safe to echo and log
+const REQUEST_ID_PATTERN = /^[\w.:-]{1,128}$/
+
+/**
+ * The caller's `x-request-id`, or a fresh UUID when it is missing or unusable
+ */
+export function resolveRequestId(header: string | string[] | undefined): string {
+  const value = Array.isArray(header) ? header[0] : header
+  return value && REQUEST_ID_PATTERN.test(value) ? value : randomUUID()
+}
+
+/**
+ * Response header carrying the request ID back to the client
+ */
+export function requestIdHeaders(ctx: Context | undefined): Record<string, string> {
+  return ctx ? { 'x-request-id': ctx.requestId } : {}
+}
+
+/**
+ * Proxies (e.g. the load balancer) whose `x-forwarded-for` is believed, from
+ * TRUSTED_PROXIES: comma-separated addresses, none by default
+ */
+export function trustedProxiesFromEnv(env: NodeJS.ProcessEnv = process.env): Set<string> {
+  const entries = (env.TRUSTED_PROXIES ?? '').split(',').map((entry) => normalizeAddress(entry.trim()))
+  return new Set(entries.filter(Boolean))
+}
+
+/**
+ * The client's address: the socket peer, or, while that hop is a trusted
+ * proxy, the address it forwarded for (read from the right of
+ * `x-forwarded-for`, since clients can put anything on the left)
+ */
+export function resolveRemoteAddress(
+  socketAddress: string | undefined,
+  forwardedFor: string | string[] | undefined,
+  trustedProxies: ReadonlySet<string>
+): string {
+  const hops = (Array.isArray(forwardedFor) ? forwardedFor.join(',') : forwardedFor ?? '')
+    .split(',')
+    .map((hop) => normalizeAddress(hop.trim()))
+    .filter(Boolean)
+  let address = normalizeAddress(socketAddress ?? '')
+  while (trustedProxies.has(address) && hops.length > 0) {
+    address = hops.pop() as string
+  }
+  return address || 'unknown'
+}
+
+// Dual-stack sockets report IPv4 peers as ::ffff:a.b.c.d
+function normalizeAddress(address: string): string {
+  return address.startsWith('::ffff:') && address.includes('.') ? address.slice(7) : address
+}
+
+/**
+ * Context factory shared by the HTTP and WebSocket adapters. Over WebSocket
+ * the context, and so the request ID, belongs to the connection.
+ */
+export function createContextFactory(
+  rateLimiter: RateLimiter | null,
+  logger: Logger = rootLogger,
+  trustedProxies: ReadonlySet<string> = new Set()
+) {
+  return ({ req }: { req: IncomingMessage }): Context => {
+    const requestId = resolveRequestId(req.headers['x-request-id'])
+    return {
+      requestId,
+      connectionId: randomUUID(),
+      remoteAddress: resolveRemoteAddress(
+        req.socket.remoteAddress,
+        req.headers['x-forwarded-for'],
+        trustedProxies
+      ),
+      rateLimiter,
+      log: logger.child({ requestId }),
+    }
+  }
+}
@@ -0,0 +1,70 @@
+/**
+ * Structured Logging
+ * One JSON object per line: `{ time, level, msg, ...fields }`
+ */
+
+export type LogLevel = 'debug' | 'info' | 'warn' | 'error'
+
+export type LogFields = Record<string, unknown>
+
+export interface Logger {
+  debug(msg: string, fields?: LogFields): void
+  info(msg: string, fields?: LogFields): void
+  warn(msg: string, fields?: LogFields): void
+  error(msg: string, fields?: LogFields): void
+  /** Logger that adds `fields` to every line */
+  child(fields: LogFields): Logger
+}
+
+export interface LoggerOptions {
+  level?: LogLevel // Lines below this level are dropped, 'info' by default
+  write?: (line: string) => void // Defaults to stdout
+}
+
+const LEVELS: Record<LogLevel, number> = { debug: 10, info: 20, warn: 30, error: 40 }
+
+export function isLogLevel(value: string): value is LogLevel {
+  return value in LEVELS
+}
+
+export function createLogger(
+  { level = 'info', write = (line) => process.stdout.write(line) }: LoggerOptions = {},
+  bindings: LogFields = {}
+): Logger {
+  const log = (lineLevel: LogLevel) => (msg: string, fields: LogFields = {}) => {
+    if (LEVELS[lineLevel] < LEVELS[level]) return
+    const entry = { time: new Date().toISOString(), level: lineLevel, msg, ...bindings, ...fields }
+    write(`${JSON.stringify(entry, (_key, value) => (value instanceof Error ? serializeError(value) : value))}\n`)
+  }
+
+  return {
+    debug: log('debug'),
+    info: log('info'),
+    warn: log('warn'),
+    error: log('error'),
+    child: (fields) => createLogger({ level, write }, { ...bindings, ...fields }),
+  }
+}
+
+/**
+ * Errors as plain objects, following `cause` so the original failure behind a
+ * TRPCError (or an "Inference failed" wrapper) is kept
+ */
+export function serializeError(error: unknown): LogFields {
+  if (!(error instanceof Error)) return { message: String(error) }
+  const { name, message, stack, cause, ...extra } = error as Error & LogFields
+  return {
+    name,
+    message,
+    ...extra, // e.g. `reason` of a PngValidationError
+    stack,
+    ...(cause === undefined ? {} : { cause: serializeError(cause) }),
+  }
+}
+
+/**
+ * Process-wide logger, at LOG_LEVEL (default 'info')
+ */
+export const logger = createLogger({
+  level: isLogLevel(process.env.LOG_LEVEL ?? '') ? (process.env.LOG_LEVEL as LogLevel) : 'info',
+})
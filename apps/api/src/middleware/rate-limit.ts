@@ -0,0 +1,200 @@
+/**
+ * Rate Limiting
+ * Token buckets keyed by session and by remote address, with a pluggable
+ * state store
+ */
+
+/**
+ * Bucket size and refill speed
+ */
+export interface BucketConfig {
+  capacity: number; // Burst size, in requests
+  refillPerSecond: number; // Sustained rate
+}
+
+export interface RateLimitConfig {
+  session: BucketConfig;
+  ip: BucketConfig;
+}
+
+/**
+ * Bucket state as kept by a store
+ */
+export interface BucketState {
+  tokens: number;
+  updatedAt: number; // Epoch milliseconds
+}
+
+/**
+ * Where bucket state lives. The in-memory store suits a single process; a
+ * shared store (e.g. Redis) can implement the same two methods.
+ */
+export interface RateLimitStore {
+  get(key: string): Promise<BucketState | undefined> | BucketState | undefined;
+  set(key: string, state: BucketState): Promise<void> | void;
+}
+
+export type RateLimitScope = 'session' | 'ip';
+
+export interface RateLimitRequest {
+  sessionId?: string;
+  remoteAddress: string;
+  cost?: number; // Tokens to take, 1 by default
+}
+
+export interface RateLimiter {
+  /** Take tokens from both buckets; throws `RateLimitError` when either is empty */
+  consume(request: RateLimitRequest, now?: number): Promise<void>;
+}
+
+export class RateLimitError extends Error {
+  constructor(
+    readonly scope: RateLimitScope,
+    readonly retryAfterMs: number
+  ) {
+    super(
+      `Rate limit exceeded for this ${scope === 'ip' ? 'address' : 'session'}, ` +
+        `retry in ${Math.ceil(retryAfterMs / 1000)}s`
+    );
+    this.name = 'RateLimitError';
+  }
+}
+
+export const DEFAULT_RATE_LIMITS: RateLimitConfig = {
+  session: { capacity: 20, refillPerSecond: 2 },
+  ip: { capacity: 60, refillPerSecond: 10 },
+};
+
+/**
+ * Limits from RATE_LIMIT_{SESSION,IP}_{CAPACITY,REFILL_PER_SEC}, falling back
+ * to the defaults
+ */
+export function rateLimitConfigFromEnv(env: NodeJS.ProcessEnv = process.env): RateLimitConfig {
+  const read = (name: string, fallback: number): number => {
+    const value = env[name];
+    if (value === undefined) return fallback;
+    const parsed = Number(value);
+    if (!Number.isFinite(parsed) || parsed <= 0) {
+      throw new Error(`${name} must be a positive number, received "${value}"`);
+    }
+    return parsed;
+  };
+
+  return {
+    session: {
+      capacity: read('RATE_LIMIT_SESSION_CAPACITY', DEFAULT_RATE_LIMITS.session.capacity),
+      refillPerSecond: read('RATE_LIMIT_SESSION_REFILL_PER_SEC', DEFAULT_RATE_LIMITS.session.refillPerSecond),
+    },
+    ip: {
+      capacity: read('RATE_LIMIT_IP_CAPACITY', DEFAULT_RATE_LIMITS.ip.capacity),
+      refillPerSecond: read('RATE_LIMIT_IP_REFILL_PER_SEC', DEFAULT_RATE_LIMITS.ip.refillPerSecond),
+    },
+  };
+}
+
+/**
+ * Single-process store. Holds at most `maxKeys` buckets, evicting the least
+ * recently used (an evicted bucket simply starts full again).
+ */
+export function createMemoryStore(maxKeys = 10_000): RateLimitStore {
+  const buckets = new Map<string, BucketState>();
+  return {
+    get: (key) => buckets.get(key),
+    set(key, state) {
+      buckets.delete(key);
+      buckets.set(key, state);
+      if (buckets.size > maxKeys) {
+        buckets.delete(buckets.keys().next().value as string);
+      }
+    },
+  };
+}
+
+/**
+ * Refill a bucket up to `now`, then try to take `cost` tokens.
+ * A cost above the capacity takes the whole (full) bucket rather than never
+ * succeeding.
+ */
+export function takeTokens(
+  state: BucketState | undefined,
+  config: BucketConfig,
+  cost: number,
+  now: number
+): { state: BucketState; allowed: boolean; retryAfterMs: number } {
+  const elapsed = state ? Math.max(0, now - state.updatedAt) / 1000 : Infinity;
+  const tokens = Math.min(config.capacity, (state?.tokens ?? 0) + elapsed * config.refillPerSecond);
+  const needed = Math.min(cost, config.capacity);
+
+  if (tokens >= needed) {
+    return { state: { tokens: tokens - needed, updatedAt: now }, allowed: true, retryAfterMs: 0 };
+  }
+  return {
+    state: { tokens, updatedAt: now },
+    allowed: false,
+    retryAfterMs: Math.ceil(((needed - tokens) / config.refillPerSecond) * 1000),
+  };
+}
+
+/**
+ * Limiter over two buckets: one per remote address, one per session.
+ * The address is checked first, so a client rotating session IDs is still
+ * held to the address limit. Tokens are only taken when both buckets allow
+ * the request, so a throttled session doesn't drain its address's quota.
+ * Calls that share a bucket run one at a time, so concurrent requests can't
+ * all read the same full bucket before any of them writes it back; calls for
+ * other buckets don't wait. This only holds within one process: a store
+ * shared between instances has to make its own read-then-write atomic.
+ */
+export function createRateLimiter(
+  config: RateLimitConfig = DEFAULT_RATE_LIMITS,
+  store: RateLimitStore = createMemoryStore()
+): RateLimiter {
+  // Last pending call per bucket key, removed once it settles
+  const pending = new Map<string, Promise<void>>();
+
+  async function consume(buckets: [RateLimitScope, string][], cost: number, now: number): Promise<void> {
+    const granted: { key: string; state: BucketState }[] = [];
+    for (const [scope, key] of buckets) {
+      const result = takeTokens(await store.get(key), config[scope], cost, now);
+      if (!result.allowed) {
+        throw new RateLimitError(scope, result.retryAfterMs);
+      }
+      granted.push({ key, state: result.state });
+    }
+    for (const { key, state } of granted) {
+      await store.set(key, state);
+    }
+  }
+
+  return {
+    consume({ sessionId, remoteAddress, cost = 1 }, now = Date.now()) {
+      const buckets: [RateLimitScope, string][] = [['ip', `ip:${remoteAddress}`]];
+      if (sessionId) buckets.push(['session', `session:${sessionId}`]);
+      const keys = buckets.map(([, key]) => key);
+
+      const result = Promise.all(keys.map((key) => pending.get(key))).then(() => consume(buckets, cost, now));
+      const settled = result.catch(() => undefined);
+      for (const key of keys) pending.set(key, settled);
+      void settled.then(() => {
+        for (const key of keys) {
+          if (pending.get(key) === settled) pending.delete(key);
+        }
+      });
+      return result;
+    },
+  };
+}
+
+/**
+ * `Retry-After` header (whole seconds) for a tRPC response whose errors carry
+ * `retryAfterMs` in their data (see the router's error formatter)
+ */
+export function retryAfterHeaders(
+  responses: ({ result: unknown } | { error: { data?: { retryAfterMs?: number | null } } })[]
+): Record<string, string> {
+  const retryAfterMs = Math.max(
+    0,
+    ...responses.map((response) => ('error' in response && response.error.data?.retryAfterMs) || 0)
+  );
+  return retryAfterMs > 0 ? { 'retry-after': String(Math.ceil(retryAfterMs / 1000)) } : {};
+}
@@ -0,0 +1,39 @@
+import type { IncomingMessage, ServerResponse } from 'node:http'
+import { getModelInfo } from './services/inference.service'
+import { renderMetrics } from './services/metrics.service'
+
+/**
+ * Plain HTTP endpoints for orchestrators and scrapers, outside tRPC:
+ * `/healthz` (the process is up), `/readyz` (a model is loaded) and
+ * `/metrics` (Prometheus text format).
+ * Returns false for any other request, leaving it to the tRPC handler.
+ */
+export function handleOpsRequest(req: IncomingMessage, res: ServerResponse): boolean {
+  if (req.method !== 'GET' && req.method !== 'HEAD') return false
+  const path = new URL(req.url ?? '/', 'http://localhost').pathname
+
+  switch (path) {
+    case '/healthz':
+      send(res, 200, 'application/json', JSON.stringify({ status: 'ok' }))
+      return true
+    case '/readyz': {
+      const model = getModelInfo()
+      if (model) {
+        send(res, 200, 'application/json', JSON.stringify({ status: 'ready', model }))
+      } else {
+        send(res, 503, 'application/json', JSON.stringify({ status: 'loading' }))
+      }
+      return true
+    }
+    case '/metrics':
+      send(res, 200, 'text/plain; version=0.0.4; charset=utf-8', renderMetrics())
+      return true
+    default:
+      return false
+  }
+}
+
+function send(res: ServerResponse, status: number, contentType: string, body: string): void {
+  res.writeHead(status, { 'content-type': contentType, 'cache-control': 'no-store' })
+  res.end(res.req.method === 'HEAD' ? undefined : body)
+}
@@ -1,30 +1,368 @@
 import { TRPCError, initTRPC } from '@trpc/server'
-import { PredictInputSchema } from '@repo/shared'
-import { inferDigit } from '../services/inference.service'
+import { getHTTPStatusCodeFromError } from '@trpc/server/http'
+import { observable } from '@trpc/server/observable'
+import {
+  ImageDataSchema,
+  PredictBatchInputSchema,
+  PredictInputSchema,
+  PredictionStreamInputSchema,
+  SubmitFeedbackInputSchema,
+} from '@repo/shared'
+import type { Context } from '../context'
+import { RateLimitError } from '../middleware/rate-limit'
+import { openFeedbackStore } from '../services/feedback.service'
+import { InferencePoolError } from '../services/inference-pool.service'
+import {
+  inferDigit,
+  inferDigitBatch,
+  inferNumber,
+  type NumberPredictionResult,
+  type PredictionResult,
+} from '../services/inference.service'
+import {
+  inferenceDuration,
+  predictedDigitsTotal,
+  predictionRequestDuration,
+  rejectedPredictionsTotal,
+  requestsTotal,
+} from '../services/metrics.service'
+import { PngValidationError, validatePng, type PngValidationReason } from '../services/png.service'
+import {
+  canOpenPredictionStream,
+  openPredictionStream,
+  pushFrame,
+  type StreamEvent,
+} from '../services/stream.service'
 
-const t = initTRPC.create()
+/**
+ * Per-image failure inside a batch, shaped like the error data of `predict`
+ */
+export interface BatchItemError {
+  code: 'BAD_REQUEST'
+  message: string
+  reason: PngValidationReason | 'INVALID_INPUT'
+}
+
+export type BatchItemResult =
+  | { index: number; ok: true; prediction: PredictionResult }
+  | { index: number; ok: false; error: BatchItemError }
+
+const t = initTRPC.context<Context>().create({
+  // Expose why an image was rejected, or when to retry after hitting a rate
+  // limit, so clients can tell the failures apart, and the request ID to quote
+  // in bug reports
+  errorFormatter({ shape, error, ctx }) {
+    return {
+      ...shape,
+      data: {
+        ...shape.data,
+        requestId: ctx?.requestId ?? null,
+        reason: error.cause instanceof PngValidationError ? error.cause.reason : null,
+        retryAfterMs: error.cause instanceof RateLimitError ? error.cause.retryAfterMs : null,
+      },
+    }
+  },
+})
+
+// One log line per call: 4xx as warnings, 5xx as errors with their cause
+const logged = t.middleware(async ({ ctx, path, type, rawInput, next }) => {
+  const startTime = process.hrtime.bigint()
+  const result = await next()
+
+  const sessionId = (rawInput as { sessionId?: unknown } | undefined)?.sessionId
+  const fields = {
+    procedure: path,
+    type,
+    sessionId: typeof sessionId === 'string' ? sessionId : undefined,
+    durationMs: Math.round(Number(process.hrtime.bigint() - startTime) / 1e4) / 100,
+  }
+  if (result.ok) {
+    ctx.log.info('call succeeded', { ...fields, outcome: 'ok', status: 200 })
+  } else {
+    const status = getHTTPStatusCodeFromError(result.error)
+    ctx.log[status >= 500 ? 'error' : 'warn']('call failed', {
+      ...fields,
+      outcome: 'error',
+      status,
+      code: result.error.code,
+      message: result.error.message,
+      cause: result.error.cause,
+    })
+  }
+  return result
+})
+
+/**
+ * Inference time a prediction procedure reported, once per call, or null
+ * when it didn't run the model (a cache hit, or a number without digits)
+ */
+function reportedInferenceTimeMs(path: string, data: unknown): number | null {
+  if (path === 'predict') {
+    const prediction = data as PredictionResult
+    return prediction.cached ? null : prediction.inferenceTimeMs
+  }
+  if (path === 'predictBatch') {
+    // Items share one forward pass and its time
+    const item = (data as BatchItemResult[]).find((item) => item.ok)
+    return item?.ok ? item.prediction.inferenceTimeMs : null
+  }
+  if (path === 'predictNumber') {
+    const number = data as NumberPredictionResult
+    return number.digits.length > 0 ? number.inferenceTimeMs : null
+  }
+  return null
+}
+
+// Request counts by status, latency of the prediction procedures and of the
+// model, and the digits they return (or why they returned none), for /metrics
+const metered = t.middleware(async ({ path, next }) => {
+  const startTime = process.hrtime.bigint()
+  const result = await next()
+
+  const status = result.ok ? 200 : getHTTPStatusCodeFromError(result.error)
+  requestsTotal.inc({ procedure: path, status: String(status) })
+
+  if (path === 'predict' || path === 'predictBatch' || path === 'predictNumber') {
+    predictionRequestDuration.observe({ procedure: path }, Number(process.hrtime.bigint() - startTime) / 1e9)
+  }
+  if (result.ok) {
+    const predictions =
+      path === 'predict'
+        ? [result.data as PredictionResult]
+        : path === 'predictBatch'
+          ? (result.data as BatchItemResult[]).flatMap((item) => (item.ok ? [item.prediction] : []))
+          : path === 'predictNumber'
+            ? (result.data as NumberPredictionResult).digits
+            : []
+    predictions.forEach(({ predictedDigit, rejected }) =>
+      rejected
+        ? rejectedPredictionsTotal.inc({ reason: rejected })
+        : predictedDigitsTotal.inc({ digit: String(predictedDigit) })
+    )
+    // A number with no digits to read at all
+    const numberRejected = path === 'predictNumber' && (result.data as NumberPredictionResult).rejected
+    if (numberRejected) rejectedPredictionsTotal.inc({ reason: numberRejected })
+
+    const inferenceTimeMs = reportedInferenceTimeMs(path, result.data)
+    if (inferenceTimeMs !== null) inferenceDuration.observe({ procedure: path }, inferenceTimeMs / 1000)
+  }
+  return result
+})
+
+// Every procedure is logged and metered
+const baseProcedure = t.procedure.use(logged).use(metered)
+
+// Token buckets per remote address and session; a batch costs one token per image
+const rateLimited = t.middleware(async ({ ctx, rawInput, next }) => {
+  if (ctx.rateLimiter) {
+    const input = rawInput as { sessionId?: unknown; images?: unknown } | undefined
+    try {
+      await ctx.rateLimiter.consume({
+        remoteAddress: ctx.remoteAddress,
+        sessionId: typeof input?.sessionId === 'string' ? input.sessionId : undefined,
+        cost: Array.isArray(input?.images) ? input.images.length : 1,
+      })
+    } catch (error) {
+      if (!(error instanceof RateLimitError)) throw error
+      throw new TRPCError({
+        code: 'TOO_MANY_REQUESTS',
+        message: error.message,
+        cause: error,
+      })
+    }
+  }
+  return next()
+})
+
+const limitedProcedure = baseProcedure.use(rateLimited)
+
+// Test-time augmentation is only offered by `predict`
+const DrawingInputSchema = PredictInputSchema.omit({ mode: true })
+
+function toBuffer(imageData: string): Buffer {
+  return Buffer.from(imageData.split(',')[1], 'base64')
+}
+
+function itemError(error: PngValidationError): BatchItemError {
+  return { code: 'BAD_REQUEST', message: error.message, reason: error.reason }
+}
+
+function invalidImage(error: PngValidationError): TRPCError {
+  return new TRPCError({
+    code: 'BAD_REQUEST',
+    message: error.message,
+    cause: error,
+  })
+}
+
+/**
+ * A failed inference: saturated workers are reported as such (retryable),
+ * anything else as a generic server error
+ */
+function inferenceFailed(error: unknown): TRPCError {
+  if (error instanceof InferencePoolError && error.reason !== 'CLOSED') {
+    return new TRPCError({
+      code: error.reason === 'QUEUE_FULL' ? 'TOO_MANY_REQUESTS' : 'TIMEOUT',
+      message: error.message,
+      cause: error,
+    })
+  }
+  return new TRPCError({
+    code: 'INTERNAL_SERVER_ERROR',
+    message: 'Failed to process image data',
+    cause: error,
+  })
+}
+
+/**
+ * Second gate: the payload must be a well-formed PNG within the size limits
+ */
+function checkImage(imageBuffer: Buffer): void {
+  try {
+    validatePng(imageBuffer)
+  } catch (error) {
+    if (error instanceof PngValidationError) throw invalidImage(error)
+    throw error
+  }
+}
 
 export const mlRouter = t.router({
-  predict: t.procedure
+  predict: limitedProcedure
     .input(PredictInputSchema)
     .mutation(async ({ input }) => {
-      try {
-        const base64Data = input.imageData.split(',')[1]
-        const imageBuffer = Buffer.from(base64Data, 'base64')
+      const imageBuffer = toBuffer(input.imageData)
+      checkImage(imageBuffer)
 
+      try {
         // Run inference using the ML service
-        const result = await inferDigit(imageBuffer)
+        const result = await inferDigit(imageBuffer, { mode: input.mode })
 
         return {
           predictedDigit: result.predictedDigit,
           confidence: result.confidence,
           allProbabilities: result.allProbabilities,
           inferenceTimeMs: result.inferenceTimeMs,
+          cached: result.cached,
+          ...(result.rejected && { rejected: result.rejected }),
+          ...(result.disagreement !== undefined && { disagreement: result.disagreement }),
+        }
+      } catch (error) {
+        // Problems only found while decoding the pixel data (e.g. decompression bombs)
+        if (error instanceof PngValidationError) throw invalidImage(error)
+        throw inferenceFailed(error)
+      }
+    }),
+
+  predictBatch: limitedProcedure
+    .input(PredictBatchInputSchema)
+    .mutation(async ({ input }): Promise<BatchItemResult[]> => {
+      // Each image goes through the same two gates as `predict`, on its own
+      const checked = input.images.map((imageData): Buffer | BatchItemError => {
+        const parsed = ImageDataSchema.safeParse(imageData)
+        if (!parsed.success) {
+          return { code: 'BAD_REQUEST', message: parsed.error.issues[0].message, reason: 'INVALID_INPUT' }
         }
+        const imageBuffer = toBuffer(imageData)
+        try {
+          validatePng(imageBuffer)
+          return imageBuffer
+        } catch (error) {
+          if (error instanceof PngValidationError) return itemError(error)
+          throw error
+        }
+      })
+
+      let outcomes
+      try {
+        // Everything that passed runs as one batched tensor
+        outcomes = await inferDigitBatch(checked.filter((item): item is Buffer => Buffer.isBuffer(item)))
+      } catch (error) {
+        throw inferenceFailed(error)
+      }
+
+      let next = 0
+      return checked.map((item, index): BatchItemResult => {
+        if (!Buffer.isBuffer(item)) return { index, ok: false, error: item }
+        const outcome = outcomes[next++]
+        return outcome.ok
+          ? { index, ok: true, prediction: outcome.prediction }
+          : { index, ok: false, error: itemError(outcome.error) }
+      })
+    }),
+
+  // A whole number (e.g. "2048") on one canvas, segmented into digits
+  predictNumber: limitedProcedure
+    .input(DrawingInputSchema)
+    .mutation(async ({ input }): Promise<NumberPredictionResult> => {
+      const imageBuffer = toBuffer(input.imageData)
+      checkImage(imageBuffer)
+
+      try {
+        return await inferNumber(imageBuffer)
+      } catch (error) {
+        if (error instanceof PngValidationError) throw invalidImage(error)
+        throw inferenceFailed(error)
+      }
+    }),
+
+  // Live predictions while drawing (WebSocket only): subscribe once, then
+  // push snapshots with `streamFrame`. Frames that arrive while the model is
+  // busy are coalesced, so each event is for the newest frame so far.
+  // The stream belongs to the connection that opened it.
+  predictionStream: limitedProcedure
+    .input(PredictionStreamInputSchema)
+    .subscription(({ input, ctx }) => {
+      if (!canOpenPredictionStream(input.sessionId, ctx.connectionId)) {
+        throw new TRPCError({
+          code: 'CONFLICT',
+          message: 'Another connection has a prediction stream open for this session',
+        })
+      }
+      return observable<StreamEvent>((emit) =>
+        openPredictionStream(
+          input.sessionId,
+          ctx.connectionId,
+          (event) => emit.next(event),
+          () => emit.complete()
+        )
+      )
+    }),
+
+  // Every frame may run the model, so each costs a token like a prediction
+  streamFrame: limitedProcedure
+    .input(DrawingInputSchema)
+    .mutation(({ input, ctx }) => {
+      const imageBuffer = toBuffer(input.imageData)
+      checkImage(imageBuffer)
+
+      const frame = pushFrame(input.sessionId, ctx.connectionId, imageBuffer)
+      if (frame === null) {
+        throw new TRPCError({
+          code: 'PRECONDITION_FAILED',
+          message: 'No prediction stream is open for this session on this connection',
+        })
+      }
+      return { frame }
+    }),
+
+  // Corrections from users, stored for retraining
+  submitFeedback: limitedProcedure
+    .input(SubmitFeedbackInputSchema)
+    .mutation(async ({ input }) => {
+      const imageBuffer = toBuffer(input.imageData)
+      checkImage(imageBuffer)
+
+      try {
+        return await openFeedbackStore().submit({
+          sessionId: input.sessionId,
+          imageBuffer,
+          predictedDigit: input.predictedDigit,
+          trueLabel: input.trueLabel,
+        })
       } catch (error) {
         throw new TRPCError({
-          code: 'BAD_REQUEST',
-          message: 'Failed to process image data',
+          code: 'INTERNAL_SERVER_ERROR',
+          message: 'Failed to store feedback',
           cause: error,
         })
       }
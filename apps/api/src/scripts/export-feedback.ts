@@ -0,0 +1,38 @@
+/**
+ * Feedback export entry point
+ * Turns stored user corrections into a training dataset
+ *
+ * Usage: pnpm export-feedback -- [--input ./data/feedback.jsonl]
+ *                                [--output ./data/feedback-dataset] [--format idx|jsonl]
+ *
+ * The IDX output can be passed straight to `pnpm train --data` in ml-core.
+ */
+import { createFeedbackStore, exportFeedback, type FeedbackExportFormat } from '../services/feedback.service'
+
+function readFlag(name: string): string | undefined {
+  const index = process.argv.indexOf(`--${name}`)
+  return index >= 0 ? process.argv[index + 1] : undefined
+}
+
+async function main() {
+  const inputPath = readFlag('input') ?? process.env.FEEDBACK_PATH ?? './data/feedback.jsonl'
+  const outputDir = readFlag('output') ?? './data/feedback-dataset'
+  const format = readFlag('format') ?? 'idx'
+  if (format !== 'idx' && format !== 'jsonl') {
+    throw new Error(`Unknown format "${format}", expected idx or jsonl`)
+  }
+
+  const records = await createFeedbackStore(inputPath).readAll()
+  console.log(`📂 Read ${records.length} corrections from ${inputPath}`)
+  if (records.length === 0) {
+    throw new Error('No feedback to export')
+  }
+
+  const files = await exportFeedback(records, outputDir, format as FeedbackExportFormat)
+  files.forEach((file) => console.log(`💾 Wrote ${file}`))
+}
+
+main().catch((error) => {
+  console.error('❌ Export failed:', error instanceof Error ? error.message : error)
+  process.exit(1)
+})
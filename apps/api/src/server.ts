@@ -1,15 +1,50 @@
-import { createHTTPServer } from '@trpc/server/adapters/standalone'
+import { createServer } from 'node:http'
+import { createHTTPHandler } from '@trpc/server/adapters/standalone'
+import { applyWSSHandler } from '@trpc/server/adapters/ws'
+import { WebSocketServer } from 'ws'
+import { createContextFactory, requestIdHeaders, trustedProxiesFromEnv } from './context'
+import { logger } from './logger'
+import {
+  createMemoryStore,
+  createRateLimiter,
+  rateLimitConfigFromEnv,
+  retryAfterHeaders,
+} from './middleware/rate-limit'
+import { handleOpsRequest } from './ops'
 import { mlRouter } from './routers/ml.router'
+import { loadInferenceModel } from './services/inference.service'
 
-const server = createHTTPServer({
+// Swap the store for a shared one when running more than one instance
+const rateLimiter = createRateLimiter(rateLimitConfigFromEnv(), createMemoryStore())
+const createContext = createContextFactory(rateLimiter, logger, trustedProxiesFromEnv())
+
+const trpcHandler = createHTTPHandler({
   router: mlRouter,
-  createContext: () => ({}),
+  createContext,
+  responseMeta: ({ ctx, data }) => ({ headers: { ...requestIdHeaders(ctx), ...retryAfterHeaders(data) } }),
+})
+
+// Health, readiness and metrics first; everything else is tRPC
+const server = createServer((req, res) => {
+  if (!handleOpsRequest(req, res)) void trpcHandler(req, res)
+})
+
+// tRPC over WebSocket on the same port, for `wsLink` clients (live predictions)
+const wss = new WebSocketServer({ server })
+applyWSSHandler({
+  wss,
+  router: mlRouter,
+  createContext,
 })
 
 const PORT = parseInt(process.env.PORT || '3001', 10)
 
-// Start server
-console.log(`🚀 MNIST API Server running on http://localhost:${PORT}`)
-console.log(`📊 Ready for predictions on /ml/predict`)
+// Load the model up front so the first prediction doesn't pay for it
+loadInferenceModel()
+  .then((model) => logger.info('model loaded', { model }))
+  .catch((error) => logger.error('model failed to load', { error }))
+
+// Start server (HTTP and WebSocket tRPC, plus /healthz, /readyz and /metrics)
+server.listen(PORT, () => logger.info('server listening', { port: PORT }))
 
 export default server
@@ -0,0 +1,175 @@
+/**
+ * Feedback Store
+ * Append-only JSONL log of user corrections, deduplicated by image hash, and
+ * its export as a training dataset
+ */
+import { createHash } from 'node:crypto';
+import { appendFile, mkdir, readFile, writeFile } from 'node:fs/promises';
+import { dirname, join, resolve } from 'node:path';
+import { writeIdxFile, type GrayscaleImage } from '@repo/ml-core';
+import { preprocessDrawing } from './inference.service';
+import { decodePng } from './png.service';
+
+/**
+ * One line of the store
+ */
+export interface FeedbackRecord {
+  imageHash: string; // SHA-256 of the PNG bytes
+  sessionId: string;
+  predictedDigit: number;
+  trueLabel: number;
+  imageData: string; // Base64 PNG
+  createdAt: string; // ISO timestamp
+}
+
+export interface FeedbackSubmission {
+  sessionId: string;
+  imageBuffer: Buffer;
+  predictedDigit: number;
+  trueLabel: number;
+}
+
+export interface FeedbackStore {
+  /** Append a correction unless the same image was already stored */
+  submit(feedback: FeedbackSubmission): Promise<{ imageHash: string; duplicate: boolean }>;
+  readAll(): Promise<FeedbackRecord[]>;
+}
+
+export type FeedbackExportFormat = 'idx' | 'jsonl';
+
+const DEFAULT_FEEDBACK_PATH = './data/feedback.jsonl';
+
+/**
+ * Store backed by one JSONL file (created on first write). Appends are
+ * serialised, so concurrent submissions of the same image store it once.
+ */
+export function createFeedbackStore(filePath: string): FeedbackStore {
+  let hashes: Promise<Set<string>> | null = null;
+  let writes: Promise<unknown> = Promise.resolve();
+
+  async function readAll(): Promise<FeedbackRecord[]> {
+    let contents: string;
+    try {
+      contents = await readFile(filePath, 'utf8');
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') return [];
+      throw error;
+    }
+    return contents.split('\n').flatMap((line) => {
+      if (!line.trim()) return [];
+      try {
+        return [JSON.parse(line) as FeedbackRecord];
+      } catch {
+        return []; // Torn write from a crash mid-append
+      }
+    });
+  }
+
+  function knownHashes(): Promise<Set<string>> {
+    if (!hashes) {
+      hashes = readAll().then((records) => new Set(records.map((record) => record.imageHash)));
+      hashes.catch(() => {
+        hashes = null;
+      });
+    }
+    return hashes;
+  }
+
+  return {
+    submit(feedback) {
+      const imageHash = createHash('sha256').update(feedback.imageBuffer).digest('hex');
+      const result = writes.then(async () => {
+        const known = await knownHashes();
+        if (known.has(imageHash)) {
+          return { imageHash, duplicate: true };
+        }
+
+        const record: FeedbackRecord = {
+          imageHash,
+          sessionId: feedback.sessionId,
+          predictedDigit: feedback.predictedDigit,
+          trueLabel: feedback.trueLabel,
+          imageData: feedback.imageBuffer.toString('base64'),
+          createdAt: new Date().toISOString(),
+        };
+        await mkdir(dirname(filePath), { recursive: true });
+        await appendFile(filePath, `${JSON.stringify(record)}\n`);
+        known.add(imageHash);
+        return { imageHash, duplicate: false };
+      });
+      writes = result.catch(() => {});
+      return result;
+    },
+    readAll,
+  };
+}
+
+let feedbackStore: FeedbackStore | null = null;
+
+/**
+ * Shared store (FEEDBACK_PATH, or ./data/feedback.jsonl). The path only
+ * applies to the first call; `closeFeedbackStore` resets it.
+ */
+export function openFeedbackStore(
+  filePath = process.env.FEEDBACK_PATH ?? DEFAULT_FEEDBACK_PATH
+): FeedbackStore {
+  feedbackStore ??= createFeedbackStore(resolve(filePath));
+  return feedbackStore;
+}
+
+export function closeFeedbackStore(): void {
+  feedbackStore = null;
+}
+
+/**
+ * Run stored drawings through the same preprocessing as inference
+ */
+export function toTrainingSamples(
+  records: FeedbackRecord[]
+): { imageHash: string; label: number; image: GrayscaleImage }[] {
+  return records.map((record) => ({
+    imageHash: record.imageHash,
+    label: record.trueLabel,
+    image: preprocessDrawing(decodePng(Buffer.from(record.imageData, 'base64'))),
+  }));
+}
+
+/**
+ * Write corrections as a dataset of preprocessed 28×28 digits labelled with
+ * the user's answer.
+ *
+ * 'idx' writes `train-images-idx3-ubyte` / `train-labels-idx1-ubyte` into
+ * `outputDir`, ready for `pnpm train --data <outputDir>`; 'jsonl' writes
+ * `feedback.jsonl` with one `{ imageHash, label, pixels }` line per digit
+ * (pixels 0-255, row-major). Returns the files written.
+ */
+export async function exportFeedback(
+  records: FeedbackRecord[],
+  outputDir: string,
+  format: FeedbackExportFormat
+): Promise<string[]> {
+  const samples = toTrainingSamples(records);
+  const toBytes = (image: GrayscaleImage) => Uint8Array.from(image.data, (value) => Math.round(value * 255));
+  await mkdir(outputDir, { recursive: true });
+
+  if (format === 'jsonl') {
+    const path = join(outputDir, 'feedback.jsonl');
+    const lines = samples.map(({ imageHash, label, image }) =>
+      JSON.stringify({ imageHash, label, pixels: Array.from(toBytes(image)) })
+    );
+    await writeFile(path, lines.map((line) => `${line}\n`).join(''));
+    return [path];
+  }
+
+  const imagesPath = join(outputDir, 'train-images-idx3-ubyte');
+  const labelsPath = join(outputDir, 'train-labels-idx1-ubyte');
+  const pixels = new Uint8Array(samples.length * 28 * 28);
+  samples.forEach(({ image }, i) => pixels.set(toBytes(image), i * 28 * 28));
+  await writeIdxFile(imagesPath, { dtype: 'uint8', shape: [samples.length, 28, 28], data: pixels });
+  await writeIdxFile(labelsPath, {
+    dtype: 'uint8',
+    shape: [samples.length],
+    data: Uint8Array.from(samples, ({ label }) => label),
+  });
+  return [imagesPath, labelsPath];
+}
@@ -0,0 +1,351 @@
+/**
+ * Inference Pool
+ * Runs the model in `worker_threads` so forward passes don't block the event
+ * loop. Requests that arrive within a short window are micro-batched into one
+ * forward pass; the queue is bounded in size and in waiting time, and a batch
+ * a worker doesn't answer in time fails and gets the worker replaced.
+ */
+import { extname } from 'node:path';
+import { fileURLToPath, pathToFileURL } from 'node:url';
+import { Worker } from 'node:worker_threads';
+import type { DigitPrediction, EnsembleOptions, GrayscaleImage } from '@repo/ml-core';
+
+export interface InferencePoolConfig {
+  workers: number; // Threads, each with its own copy of the model; 0 keeps inference on the main thread
+  maxQueuedImages: number; // Images waiting for a worker before new work is refused
+  batchWindowMs: number; // How long to wait for more requests before dispatching a batch
+  maxBatchSize: number; // Images per forward pass
+  queueTimeoutMs: number; // Longest an image may wait for a worker
+  batchTimeoutMs: number; // Longest a worker may take over a batch before it is replaced
+}
+
+export interface InferencePoolStats {
+  workers: number;
+  busyWorkers: number;
+  queuedImages: number;
+  batches: number; // Forward passes dispatched so far
+}
+
+export interface InferencePool {
+  predict(images: GrayscaleImage[]): Promise<DigitPrediction[]>;
+  stats(): InferencePoolStats;
+  /** Terminate the workers; queued and in-flight work is rejected */
+  close(): Promise<void>;
+}
+
+export type InferencePoolErrorReason = 'QUEUE_FULL' | 'QUEUE_TIMEOUT' | 'TIMEOUT' | 'CLOSED';
+
+export class InferencePoolError extends Error {
+  constructor(
+    readonly reason: InferencePoolErrorReason,
+    message: string
+  ) {
+    super(message);
+    this.name = 'InferencePoolError';
+  }
+}
+
+/**
+ * What a worker loads: one saved model, or several combined as an ensemble
+ */
+export interface WorkerModel {
+  modelPaths: string[];
+  ensemble: EnsembleOptions;
+}
+
+/**
+ * Messages between the pool and `workers/inference.worker.ts`
+ */
+export interface WorkerRequest {
+  id: number;
+  images: GrayscaleImage[];
+}
+
+export type WorkerResponse =
+  | { type: 'ready' }
+  | { type: 'failed'; message: string } // The model could not be loaded
+  | { type: 'result'; id: number; predictions: DigitPrediction[] }
+  | { type: 'error'; id: number; message: string };
+
+export const DEFAULT_INFERENCE_POOL: InferencePoolConfig = {
+  workers: 2,
+  maxQueuedImages: 256,
+  batchWindowMs: 2,
+  maxBatchSize: 64,
+  queueTimeoutMs: 5000,
+  batchTimeoutMs: 30_000,
+};
+
+/**
+ * Settings from INFERENCE_WORKERS, INFERENCE_MAX_QUEUED_IMAGES,
+ * INFERENCE_BATCH_WINDOW_MS, INFERENCE_MAX_BATCH_SIZE,
+ * INFERENCE_QUEUE_TIMEOUT_MS and INFERENCE_BATCH_TIMEOUT_MS, falling back to
+ * the defaults
+ */
+export function inferencePoolConfigFromEnv(env: NodeJS.ProcessEnv = process.env): InferencePoolConfig {
+  const read = (name: string, fallback: number, min: number): number => {
+    const value = env[name];
+    if (value === undefined) return fallback;
+    const parsed = Number(value);
+    if (!Number.isInteger(parsed) || parsed < min) {
+      throw new Error(`${name} must be an integer of at least ${min}, received "${value}"`);
+    }
+    return parsed;
+  };
+
+  return {
+    workers: read('INFERENCE_WORKERS', DEFAULT_INFERENCE_POOL.workers, 0),
+    maxQueuedImages: read('INFERENCE_MAX_QUEUED_IMAGES', DEFAULT_INFERENCE_POOL.maxQueuedImages, 1),
+    batchWindowMs: read('INFERENCE_BATCH_WINDOW_MS', DEFAULT_INFERENCE_POOL.batchWindowMs, 0),
+    maxBatchSize: read('INFERENCE_MAX_BATCH_SIZE', DEFAULT_INFERENCE_POOL.maxBatchSize, 1),
+    queueTimeoutMs: read('INFERENCE_QUEUE_TIMEOUT_MS', DEFAULT_INFERENCE_POOL.queueTimeoutMs, 1),
+    batchTimeoutMs: read('INFERENCE_BATCH_TIMEOUT_MS', DEFAULT_INFERENCE_POOL.batchTimeoutMs, 1),
+  };
+}
+
+interface Job {
+  images: GrayscaleImage[];
+  resolve: (predictions: DigitPrediction[]) => void;
+  reject: (error: Error) => void;
+  timer: NodeJS.Timeout;
+}
+
+interface Slot {
+  worker: Worker;
+  batch: { id: number; jobs: Job[]; timer: NodeJS.Timeout } | null; // In flight
+}
+
+// Next to this file: the .ts source under tsx / vitest, the .js build otherwise
+const WORKER_PATH = fileURLToPath(
+  new URL(`../workers/inference.worker${extname(fileURLToPath(import.meta.url))}`, import.meta.url)
+);
+
+/**
+ * Start a worker. TypeScript sources need tsx's loader, which worker threads
+ * don't inherit, so they are bootstrapped through it.
+ */
+function spawnWorker(workerData: WorkerModel): Worker {
+  if (WORKER_PATH.endsWith('.ts')) {
+    const url = JSON.stringify(pathToFileURL(WORKER_PATH).href);
+    const source = `import('tsx/esm/api').then(({ register }) => { register(); return import(${url}) })`;
+    return new Worker(source, { eval: true, workerData });
+  }
+  return new Worker(WORKER_PATH, { workerData });
+}
+
+/**
+ * Wait for a new worker to load its model
+ */
+function whenReady(worker: Worker): Promise<void> {
+  return new Promise((resolve, reject) => {
+    const fail = (error: Error) => {
+      worker.off('message', onMessage);
+      worker.off('exit', onExit);
+      reject(error);
+    };
+    const onMessage = (message: WorkerResponse) => {
+      if (message.type === 'ready') {
+        worker.off('error', fail);
+        worker.off('exit', onExit);
+        worker.off('message', onMessage);
+        resolve();
+      } else if (message.type === 'failed') {
+        fail(new Error(message.message));
+      }
+    };
+    const onExit = (code: number) => fail(new Error(`Inference worker exited during startup (code ${code})`));
+    worker.on('message', onMessage);
+    worker.once('error', fail);
+    worker.once('exit', onExit);
+  });
+}
+
+/**
+ * Start `config.workers` workers on the model at `modelPath` (several paths
+ * make an ensemble). Resolves once all of them have loaded it; if any fails,
+ * the others are stopped and the load error is thrown.
+ */
+export async function createInferencePool(
+  modelPath: string | string[],
+  config: InferencePoolConfig,
+  ensemble: EnsembleOptions = {}
+): Promise<InferencePool> {
+  const model: WorkerModel = { modelPaths: ([] as string[]).concat(modelPath), ensemble };
+  const workers = Array.from({ length: Math.max(1, config.workers) }, () => spawnWorker(model));
+  try {
+    await Promise.all(workers.map(whenReady));
+  } catch (error) {
+    await Promise.all(workers.map((worker) => worker.terminate()));
+    throw error;
+  }
+
+  const slots: Slot[] = [];
+  const queue: Job[] = [];
+  let queuedImages = 0;
+  let batches = 0;
+  let nextId = 0;
+  let dispatchTimer: NodeJS.Timeout | null = null;
+  let closed = false;
+
+  function attach(worker: Worker): void {
+    const slot: Slot = { worker, batch: null };
+    slots.push(slot);
+
+    worker.on('message', (message: WorkerResponse) => {
+      const batch = slot.batch;
+      if (!batch || !('id' in message) || message.id !== batch.id) return;
+      clearTimeout(batch.timer);
+      slot.batch = null;
+
+      if (message.type === 'result') {
+        let offset = 0;
+        for (const job of batch.jobs) {
+          job.resolve(message.predictions.slice(offset, offset + job.images.length));
+          offset += job.images.length;
+        }
+      } else {
+        batch.jobs.forEach((job) => job.reject(new Error(message.message)));
+      }
+      schedule();
+    });
+
+    // A crashed worker fails its batch and is replaced (a hung one was
+    // already taken out of the pool by `expire`)
+    worker.once('exit', (code) => {
+      const index = slots.indexOf(slot);
+      if (index >= 0) slots.splice(index, 1);
+      if (slot.batch) clearTimeout(slot.batch.timer);
+      slot.batch?.jobs.forEach((job) =>
+        job.reject(new Error(`Inference worker exited unexpectedly (code ${code})`))
+      );
+      if (closed) return;
+      const replacement = spawnWorker(model);
+      whenReady(replacement).then(
+        () => {
+          if (closed) {
+            void replacement.terminate();
+            return;
+          }
+          attach(replacement);
+          schedule();
+        },
+        () => void replacement.terminate()
+      );
+    });
+    worker.on('error', () => {
+      // Reported through 'exit'
+    });
+  }
+
+  /**
+   * A worker that hasn't answered within the deadline may be stuck: fail its
+   * batch, take it out of the pool and terminate it, which respawns it
+   */
+  function expire(slot: Slot): void {
+    const batch = slot.batch;
+    if (!batch) return;
+    slot.batch = null;
+    slots.splice(slots.indexOf(slot), 1);
+    const error = new InferencePoolError(
+      'TIMEOUT',
+      `Inference worker did not finish a batch within ${config.batchTimeoutMs}ms`
+    );
+    batch.jobs.forEach((job) => job.reject(error));
+    void slot.worker.terminate();
+  }
+
+  function schedule(): void {
+    if (dispatchTimer || queue.length === 0 || !slots.some((slot) => !slot.batch)) return;
+    if (queuedImages >= config.maxBatchSize) {
+      dispatch();
+    } else {
+      dispatchTimer = setTimeout(dispatch, config.batchWindowMs);
+    }
+  }
+
+  function dispatch(): void {
+    dispatchTimer = null;
+    for (const slot of slots) {
+      if (slot.batch || queue.length === 0) continue;
+
+      // Whole jobs, up to the batch size (a single larger job goes alone)
+      const jobs: Job[] = [];
+      let size = 0;
+      while (queue.length > 0 && (jobs.length === 0 || size + queue[0].images.length <= config.maxBatchSize)) {
+        const job = queue.shift() as Job;
+        clearTimeout(job.timer);
+        jobs.push(job);
+        size += job.images.length;
+      }
+      queuedImages -= size;
+
+      const id = nextId++;
+      slot.batch = { id, jobs, timer: setTimeout(() => expire(slot), config.batchTimeoutMs) };
+      batches++;
+      const request: WorkerRequest = { id, images: jobs.flatMap((job) => job.images) };
+      slot.worker.postMessage(request);
+    }
+  }
+
+  workers.forEach(attach);
+
+  return {
+    predict(images) {
+      if (closed) {
+        return Promise.reject(new InferencePoolError('CLOSED', 'Inference pool is closed'));
+      }
+      if (images.length === 0) return Promise.resolve([]);
+      if (queuedImages + images.length > config.maxQueuedImages) {
+        return Promise.reject(
+          new InferencePoolError(
+            'QUEUE_FULL',
+            `Inference queue is full (${queuedImages} images waiting), try again shortly`
+          )
+        );
+      }
+
+      return new Promise((resolve, reject) => {
+        const job: Job = {
+          images,
+          resolve,
+          reject,
+          timer: setTimeout(() => {
+            queue.splice(queue.indexOf(job), 1);
+            queuedImages -= images.length;
+            reject(
+              new InferencePoolError(
+                'QUEUE_TIMEOUT',
+                `Inference workers are saturated: no worker was free within ${config.queueTimeoutMs}ms`
+              )
+            );
+          }, config.queueTimeoutMs),
+        };
+        queue.push(job);
+        queuedImages += images.length;
+        schedule();
+      });
+    },
+    stats: () => ({
+      workers: slots.length,
+      busyWorkers: slots.filter((slot) => slot.batch).length,
+      queuedImages,
+      batches,
+    }),
+    async close() {
+      closed = true;
+      if (dispatchTimer) clearTimeout(dispatchTimer);
+      const error = new InferencePoolError('CLOSED', 'Inference pool is closed');
+      for (const job of queue.splice(0)) {
+        clearTimeout(job.timer);
+        job.reject(error);
+      }
+      queuedImages = 0;
+      for (const slot of slots) {
+        if (slot.batch) clearTimeout(slot.batch.timer);
+        slot.batch?.jobs.forEach((job) => job.reject(error));
+        slot.batch = null;
+      }
+      await Promise.all(slots.map((slot) => slot.worker.terminate()));
+    },
+  };
+}
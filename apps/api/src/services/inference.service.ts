@@ -1,46 +1,425 @@
 /**
  * Inference Service
- * Handles MNIST digit prediction with mock probabilities for demonstration
+ * Decodes the PNG, applies the shared MNIST preprocessing and runs the loaded
+ * ml-core model, on the worker pool or the main thread. Confidences are
+ * temperature-scaled, and drawings that are blank or unlike any digit come
+ * back with a `rejected` reason.
  */
+import { createHash } from 'node:crypto';
+import { resolve } from 'node:path';
+import {
+  abstainReason,
+  aggregateTTA,
+  DEFAULT_ABSTAIN_THRESHOLDS,
+  fromImageData,
+  loadEnsemble,
+  loadModel,
+  predictBatch,
+  preprocessDigit,
+  readModelMetadata,
+  scalePrediction,
+  segmentDigits,
+  ttaImages,
+  type AbstainThresholds,
+  type BoundingBox,
+  type DigitPrediction,
+  type EnsembleOptions,
+  type GrayscaleImage,
+  type LoadModelOptions,
+  type ModelMetadata,
+  type RejectionReason,
+} from '@repo/ml-core';
+import type { PredictionMode } from '@repo/shared';
+import {
+  createInferencePool,
+  inferencePoolConfigFromEnv,
+  InferencePoolError,
+  type InferencePool,
+  type InferencePoolConfig,
+  type InferencePoolStats,
+} from './inference-pool.service';
+import { decodePng, PngValidationError, type DecodedImage } from './png.service';
+import {
+  createPredictionCache,
+  predictionCacheConfigFromEnv,
+  predictionCacheKey,
+  type PredictionCacheStats,
+} from './prediction-cache.service';
 
-interface PredictionResult {
+export interface PredictionResult {
   predictedDigit: number;
   confidence: number;
   allProbabilities: number[];
   inferenceTimeMs: number;
+  cached: boolean; // Served from the prediction cache
+  rejected?: RejectionReason; // Set when the drawing holds no recognisable digit
+  disagreement?: number; // Ensembles only: share of members voting for another digit
 }
 
-export async function inferDigit(imageBuffer: Buffer): Promise<PredictionResult> {
+/**
+ * A digit of a multi-digit number, with its box on the canvas
+ */
+export interface NumberDigit {
+  predictedDigit: number;
+  confidence: number;
+  box: BoundingBox;
+  rejected?: RejectionReason;
+}
+
+export interface NumberPredictionResult {
+  number: string; // Digits left to right, '?' where one was rejected
+  digits: NumberDigit[];
+  inferenceTimeMs: number;
+  rejected?: RejectionReason; // EMPTY without ink, NOT_A_DIGIT for more pieces than MAX_NUMBER_DIGITS
+}
+
+export interface InferDigitOptions {
+  mode?: PredictionMode; // Default 'single'
+}
+
+/**
+ * One entry of a batch: a prediction, or why that image was rejected
+ */
+export type BatchInferenceOutcome =
+  | { ok: true; prediction: PredictionResult }
+  | { ok: false; error: PngValidationError };
+
+/**
+ * What is being served, for readiness checks and metrics
+ */
+export interface ModelInfo {
+  path: string; // Comma-separated for an ensemble
+  version: string; // First 12 hex digits of the weights' SHA-256 (for an ensemble, of its members and settings)
+  createdAt: string; // Of the newest member for an ensemble
+}
+
+/**
+ * Where forward passes run
+ */
+interface InferenceBackend {
+  predict(images: GrayscaleImage[]): Promise<DigitPrediction[]>;
+  pool: InferencePool | null; // null on the main thread
+  dispose(): Promise<void>;
+}
+
+// Longest number read from one drawing; more pieces than this is a scribble
+export const MAX_NUMBER_DIGITS = 16;
+
+// Trained by `pnpm --filter @repo/ml-core train`
+const DEFAULT_MODEL_PATH = '../../packages/ml-core/trained-models/mnist-cnn';
+
+const EXPECTED_MODEL: LoadModelOptions = { inputShape: [28, 28, 1], numClasses: 10 };
+
+let modelLoading: Promise<ModelInfo> | null = null;
+let loadedModel: ModelInfo | null = null;
+let backend: InferenceBackend | null = null;
+// Calibrated by `pnpm --filter @repo/ml-core calibrate:temperature` and `calibrate:abstain`
+let temperature = 1;
+let abstainThresholds: AbstainThresholds = DEFAULT_ABSTAIN_THRESHOLDS;
+
+// Shared by `inferDigit` callers (predict and live streams). Holds raw model
+// outputs; the temperature is applied on the way out.
+const predictionCache = createPredictionCache<DigitPrediction>(predictionCacheConfigFromEnv());
+
+/**
+ * How the models of an ensemble (several comma-separated MODEL_PATH entries)
+ * are combined: ENSEMBLE_WEIGHTS, one comma-separated weight per model
+ * (default equal), and ENSEMBLE_AGGREGATION, 'mean' (default) or 'vote'
+ */
+export function ensembleConfigFromEnv(env: NodeJS.ProcessEnv = process.env): EnsembleOptions {
+  const { ENSEMBLE_WEIGHTS: weights, ENSEMBLE_AGGREGATION: aggregation } = env;
+  if (aggregation !== undefined && aggregation !== 'mean' && aggregation !== 'vote') {
+    throw new Error(`ENSEMBLE_AGGREGATION must be "mean" or "vote", received "${aggregation}"`);
+  }
+  const parsed = weights?.split(',').map(Number);
+  if (parsed?.some((weight) => !Number.isFinite(weight) || weight < 0)) {
+    throw new Error(`ENSEMBLE_WEIGHTS must be comma-separated non-negative numbers, received "${weights}"`);
+  }
+  return { ...(parsed && { weights: parsed }), ...(aggregation && { aggregation }) };
+}
+
+/**
+ * Load the model once (MODEL_PATH, or the ml-core training output) into a
+ * pool of worker threads, or on the main thread when `pool.workers` is 0.
+ * Several paths are served as one ensemble, combined as `ensemble` says.
+ * Later calls share the same load; a failed load can be retried.
+ *
+ * An ensemble applies its members' temperatures before combining them, and
+ * rejects drawings with the default abstention thresholds, as those
+ * calibrated for a single model do not fit the combined output.
+ */
+export function loadInferenceModel(
+  modelPath: string | string[] = (process.env.MODEL_PATH ?? DEFAULT_MODEL_PATH).split(','),
+  pool: InferencePoolConfig = inferencePoolConfigFromEnv(),
+  ensemble: EnsembleOptions = ensembleConfigFromEnv()
+): Promise<ModelInfo> {
+  if (!modelLoading) {
+    const basePaths = ([] as string[]).concat(modelPath).map((path) => resolve(path.trim()));
+    const loading = Promise.all(basePaths.map(readModelMetadata)).then(async (members) => {
+      const started = await startBackend(basePaths, pool, ensemble);
+      const single = members.length === 1 ? members[0] : null;
+      const info: ModelInfo = {
+        path: basePaths.join(','),
+        version: single ? single.weightsSha256.slice(0, 12) : ensembleVersion(members, ensemble),
+        createdAt: members.reduce((newest, { createdAt }) => (createdAt > newest ? createdAt : newest), ''),
+      };
+      if (modelLoading === loading) {
+        backend = started;
+        loadedModel = info;
+        temperature = single?.temperature ?? 1;
+        abstainThresholds = single?.abstain ?? DEFAULT_ABSTAIN_THRESHOLDS;
+      } else {
+        await started.dispose(); // Unloaded while loading
+      }
+      return info;
+    });
+    modelLoading = loading;
+    modelLoading.catch(() => {
+      if (modelLoading === loading) modelLoading = null;
+    });
+  }
+  return modelLoading;
+}
+
+/**
+ * The model being served, or null until a load has finished
+ */
+export function getModelInfo(): ModelInfo | null {
+  return loadedModel;
+}
+
+/**
+ * Cache and metrics version of an ensemble: changes with any member's weights
+ * or with how they are combined
+ */
+function ensembleVersion(members: ModelMetadata[], ensemble: EnsembleOptions): string {
+  const key = JSON.stringify([members.map((metadata) => metadata.weightsSha256), ensemble]);
+  return createHash('sha256').update(key).digest('hex').slice(0, 12);
+}
+
+async function startBackend(
+  basePaths: string[],
+  pool: InferencePoolConfig,
+  ensemble: EnsembleOptions
+): Promise<InferenceBackend> {
+  if (pool.workers > 0) {
+    const workers = await createInferencePool(basePaths, pool, ensemble);
+    return { predict: workers.predict, pool: workers, dispose: workers.close };
+  }
+  const model =
+    basePaths.length > 1
+      ? await loadEnsemble(basePaths, { ...ensemble, expected: EXPECTED_MODEL })
+      : await loadModel(basePaths[0], EXPECTED_MODEL);
+  return {
+    predict: (images) => predictBatch(model, images),
+    pool: null,
+    dispose: async () => {
+      model.dispose();
+    },
+  };
+}
+
+/**
+ * Dispose the loaded model (stopping any workers) so the next call to
+ * `loadInferenceModel` reloads it
+ */
+export async function unloadInferenceModel(): Promise<void> {
+  const loaded = backend;
+  modelLoading = null;
+  loadedModel = null;
+  backend = null;
+  temperature = 1;
+  abstainThresholds = DEFAULT_ABSTAIN_THRESHOLDS;
+  await loaded?.dispose();
+}
+
+/**
+ * Queue and worker usage, or null when inference runs on the main thread
+ */
+export function getInferencePoolStats(): InferencePoolStats | null {
+  return backend?.pool?.stats() ?? null;
+}
+
+function runModel(images: GrayscaleImage[]): Promise<DigitPrediction[]> {
+  if (!backend) {
+    throw new Error('Model was unloaded');
+  }
+  return backend.predict(images);
+}
+
+export function getPredictionCacheStats(): PredictionCacheStats {
+  return predictionCache.stats();
+}
+
+export function clearPredictionCache(): void {
+  predictionCache.clear();
+}
+
+/**
+ * Classify a PNG drawing, reusing the cached prediction when the same digit
+ * was seen by the same model. The rejection check runs on every call, as it
+ * also depends on the drawing before preprocessing. Throws `PngValidationError` for images that fail
+ * to decode and `InferencePoolError` when the workers are saturated; anything
+ * else that goes wrong is reported as an inference failure.
+ *
+ * `mode: 'tta'` averages over the ml-core test-time augmentation variants,
+ * all in one forward pass, and is cached apart from single predictions.
+ */
+export async function inferDigit(
+  imageBuffer: Buffer,
+  options: InferDigitOptions = {}
+): Promise<PredictionResult> {
+  const startTime = Date.now();
+  const { version } = await loadInferenceModel();
+  const image = decodePng(imageBuffer);
+  const tta = options.mode === 'tta';
+
+  try {
+    const drawing = prepareDrawing(image);
+    const key = predictionCacheKey(drawing.digit, tta ? `${version}:tta` : version);
+
+    const cached = predictionCache.get(key);
+    if (cached) {
+      return { ...toResult(cached, drawing, Date.now() - startTime), cached: true };
+    }
+
+    const prediction = tta
+      ? aggregateTTA(await runModel(ttaImages(drawing.digit)))
+      : (await runModel([drawing.digit]))[0];
+    predictionCache.set(key, prediction);
+    return toResult(prediction, drawing, Date.now() - startTime);
+  } catch (error) {
+    if (error instanceof InferencePoolError) throw error;
+    throw new Error(`Inference failed: ${error instanceof Error ? error.message : 'Unknown error'}`);
+  }
+}
+
+/**
+ * Classify several PNG drawings in one forward pass. Images that fail to
+ * decode come back as per-item errors instead of failing the batch; a
+ * saturated pool fails it with `InferencePoolError`.
+ */
+export async function inferDigitBatch(imageBuffers: Buffer[]): Promise<BatchInferenceOutcome[]> {
+  const startTime = Date.now();
+  await loadInferenceModel();
+  const decoded = imageBuffers.map((buffer) => {
+    try {
+      return decodePng(buffer);
+    } catch (error) {
+      if (error instanceof PngValidationError) return error;
+      throw error;
+    }
+  });
+
+  let drawings: PreparedDrawing[];
+  let predictions: DigitPrediction[];
+  try {
+    const images = decoded.filter((item): item is DecodedImage => !(item instanceof PngValidationError));
+    drawings = images.map(prepareDrawing);
+    predictions = await runModel(drawings.map(({ digit }) => digit));
+  } catch (error) {
+    if (error instanceof InferencePoolError) throw error;
+    throw new Error(`Inference failed: ${error instanceof Error ? error.message : 'Unknown error'}`);
+  }
+
+  const elapsed = Date.now() - startTime;
+  let next = 0;
+  return decoded.map((item) => {
+    if (item instanceof PngValidationError) return { ok: false, error: item };
+    const index = next++;
+    return { ok: true, prediction: toResult(predictions[index], drawings[index], elapsed) };
+  });
+}
+
+/**
+ * Read a multi-digit number: the drawing is segmented into digits, which run
+ * through the model in one forward pass, bypassing the cache. Errors are
+ * reported as by `inferDigit`.
+ */
+export async function inferNumber(imageBuffer: Buffer): Promise<NumberPredictionResult> {
   const startTime = Date.now();
-  
+  await loadInferenceModel();
+  const image = decodePng(imageBuffer);
+
   try {
-    // TODO: Integrate with actual ML model (TensorFlow.js or Python backend)
-    // For now, we'll return realistic mock predictions
-    
-    // Simulate processing time (30-40ms range)
-    const simulatedDelay = Math.random() * 10 + 30;
-    await new Promise(resolve => setTimeout(resolve, simulatedDelay));
-    
-    // Generate realistic probability distribution
-    const probabilities = new Array(10).fill(0).map(() => Math.random() * 0.15);
-    const predictedDigit = Math.floor(Math.random() * 10);
-    
-    // Boost the predicted digit's probability
-    probabilities[predictedDigit] = 0.7 + Math.random() * 0.25;
-    
-    // Normalize probabilities to sum to 1
-    const sum = probabilities.reduce((a, b) => a + b, 0);
-    const normalized = probabilities.map(p => p / sum);
-    
-    const inferenceTimeMs = Math.round(Date.now() - startTime);
-    
+    const segments = segmentDigits(fromImageData(flattenAlpha(image)));
+    if (segments.length === 0 || segments.length > MAX_NUMBER_DIGITS) {
+      return {
+        number: '',
+        digits: [],
+        inferenceTimeMs: Date.now() - startTime,
+        rejected: segments.length === 0 ? 'EMPTY' : 'NOT_A_DIGIT',
+      };
+    }
+
+    const digits = segments.map((segment) => preprocessDigit(segment.image));
+    const predictions = (await runModel(digits)).map((raw) => scalePrediction(raw, temperature));
+    const read = predictions.map((prediction, i): NumberDigit => {
+      const rejected = abstainReason(prediction, digits[i], null, abstainThresholds);
+      return {
+        predictedDigit: prediction.digit,
+        confidence: prediction.confidence,
+        box: segments[i].box,
+        ...(rejected && { rejected }),
+      };
+    });
+
     return {
-      predictedDigit,
-      confidence: normalized[predictedDigit],
-      allProbabilities: normalized,
-      inferenceTimeMs,
+      number: read.map((digit) => (digit.rejected ? '?' : String(digit.predictedDigit))).join(''),
+      digits: read,
+      inferenceTimeMs: Date.now() - startTime,
     };
   } catch (error) {
+    if (error instanceof InferencePoolError) throw error;
     throw new Error(`Inference failed: ${error instanceof Error ? error.message : 'Unknown error'}`);
   }
 }
+
+/**
+ * A drawing as drawn (grayscale, canvas-sized) and as the model sees it
+ */
+interface PreparedDrawing {
+  source: GrayscaleImage;
+  digit: GrayscaleImage;
+}
+
+function prepareDrawing(image: DecodedImage): PreparedDrawing {
+  const source = fromImageData(flattenAlpha(image));
+  return { source, digit: preprocessDigit(source) };
+}
+
+/**
+ * Decoded canvas PNG → MNIST-style 28×28 digit, as the model sees it
+ */
+export function preprocessDrawing(image: DecodedImage): GrayscaleImage {
+  return prepareDrawing(image).digit;
+}
+
+function toResult(raw: DigitPrediction, drawing: PreparedDrawing, elapsedMs: number): PredictionResult {
+  const prediction = scalePrediction(raw, temperature);
+  const rejected = abstainReason(prediction, drawing.digit, drawing.source, abstainThresholds);
+  return {
+    predictedDigit: prediction.digit,
+    confidence: prediction.confidence,
+    allProbabilities: prediction.probabilities,
+    inferenceTimeMs: Math.round(elapsedMs),
+    cached: false,
+    ...(rejected && { rejected }),
+    ...(prediction.disagreement !== undefined && { disagreement: prediction.disagreement }),
+  };
+}
+
+/**
+ * Composite over the canvas's black background so transparent pixels carry no ink
+ */
+function flattenAlpha(image: DecodedImage): DecodedImage {
+  const data = new Uint8Array(image.data.length);
+  for (let i = 0; i < data.length; i += 4) {
+    const alpha = image.data[i + 3] / 255;
+    data[i] = image.data[i] * alpha;
+    data[i + 1] = image.data[i + 1] * alpha;
+    data[i + 2] = image.data[i + 2] * alpha;
+    data[i + 3] = 255;
+  }
+  return { ...image, data };
+}
@@ -0,0 +1,223 @@
+/**
+ * Metrics
+ * Minimal Prometheus text-format counters, gauges and histograms, and the
+ * API's own metrics
+ */
+import { getInferencePoolStats, getModelInfo, getPredictionCacheStats } from './inference.service';
+
+type Labels = Record<string, string>;
+
+interface Metric {
+  render(): string;
+  reset(): void;
+}
+
+export interface Counter extends Metric {
+  inc(labels?: Labels, value?: number): void;
+}
+
+export interface Gauge extends Metric {
+  set(labels: Labels, value: number): void;
+}
+
+export interface Histogram extends Metric {
+  observe(labels: Labels, value: number): void;
+}
+
+/**
+ * Label set → sample value, keyed by the rendered `{a="1",b="2"}` string
+ */
+function createSeries<T>(initial: () => T) {
+  const series = new Map<string, T>();
+  return {
+    get(labels: Labels): T {
+      const key = formatLabels(labels);
+      let value = series.get(key);
+      if (value === undefined) {
+        value = initial();
+        series.set(key, value);
+      }
+      return value;
+    },
+    set(labels: Labels, value: T) {
+      series.set(formatLabels(labels), value);
+    },
+    entries: () => series.entries(),
+    clear: () => series.clear(),
+  };
+}
+
+function header(name: string, help: string, type: string): string {
+  return `# HELP ${name} ${help}\n# TYPE ${name} ${type}\n`;
+}
+
+/**
+ * Counter, optionally read at scrape time from totals kept elsewhere by
+ * `collect`
+ */
+export function createCounter(
+  name: string,
+  help: string,
+  collect?: (set: (labels: Labels, value: number) => void) => void
+): Counter {
+  const series = createSeries(() => 0);
+  return {
+    inc(labels = {}, value = 1) {
+      series.set(labels, series.get(labels) + value);
+    },
+    render() {
+      collect?.(series.set);
+      let text = header(name, help, 'counter');
+      for (const [labels, value] of series.entries()) text += `${name}${labels} ${value}\n`;
+      return text;
+    },
+    reset: series.clear,
+  };
+}
+
+/**
+ * Gauge whose samples can also be filled in at scrape time by `collect`
+ */
+export function createGauge(name: string, help: string, collect?: (gauge: Gauge) => void): Gauge {
+  const series = createSeries(() => 0);
+  const gauge: Gauge = {
+    set: (labels, value) => series.set(labels, value),
+    render() {
+      collect?.(gauge);
+      let text = header(name, help, 'gauge');
+      for (const [labels, value] of series.entries()) text += `${name}${labels} ${value}\n`;
+      return text;
+    },
+    reset: series.clear,
+  };
+  return gauge;
+}
+
+export function createHistogram(name: string, help: string, buckets: number[]): Histogram {
+  const series = createSeries(() => ({ counts: buckets.map(() => 0), sum: 0, count: 0 }));
+  return {
+    observe(labels, value) {
+      const sample = series.get(labels);
+      buckets.forEach((bound, i) => {
+        if (value <= bound) sample.counts[i]++;
+      });
+      sample.sum += value;
+      sample.count++;
+    },
+    render() {
+      let text = header(name, help, 'histogram');
+      for (const [labels, { counts, sum, count }] of series.entries()) {
+        const withLe = (le: string) => (labels ? `${labels.slice(0, -1)},le="${le}"}` : `{le="${le}"}`);
+        buckets.forEach((bound, i) => (text += `${name}_bucket${withLe(String(bound))} ${counts[i]}\n`));
+        text += `${name}_bucket${withLe('+Inf')} ${count}\n`;
+        text += `${name}_sum${labels} ${sum}\n`;
+        text += `${name}_count${labels} ${count}\n`;
+      }
+      return text;
+    },
+    reset: series.clear,
+  };
+}
+
+function formatLabels(labels: Labels): string {
+  const pairs = Object.entries(labels).map(
+    ([key, value]) => `${key}="${value.replace(/\\/g, '\\\\').replace(/\n/g, '\\n').replace(/"/g, '\\"')}"`
+  );
+  return pairs.length ? `{${pairs.join(',')}}` : '';
+}
+
+export const requestsTotal = createCounter(
+  'mnist_api_requests_total',
+  'tRPC calls by procedure and HTTP status'
+);
+
+export const inferenceDuration = createHistogram(
+  'mnist_api_inference_duration_seconds',
+  'Inference time reported by predictions that ran the model (cache hits excluded)',
+  [0.005, 0.01, 0.025, 0.05, 0.1, 0.25, 0.5, 1, 2.5]
+);
+
+export const predictionRequestDuration = createHistogram(
+  'mnist_api_prediction_request_duration_seconds',
+  'Time to answer prediction procedures, including decoding, queueing and the model',
+  [0.005, 0.01, 0.025, 0.05, 0.1, 0.25, 0.5, 1, 2.5]
+);
+
+export const predictedDigitsTotal = createCounter(
+  'mnist_api_predicted_digits_total',
+  'Predictions returned, by predicted digit'
+);
+
+export const rejectedPredictionsTotal = createCounter(
+  'mnist_api_rejected_predictions_total',
+  'Predictions withheld because the drawing held no recognisable digit, by reason'
+);
+
+export const modelInfo = createGauge(
+  'mnist_api_model_info',
+  'Loaded model (always 1), labelled with its version',
+  (gauge) => {
+    gauge.reset();
+    const info = getModelInfo();
+    if (info) gauge.set({ version: info.version, created_at: info.createdAt }, 1);
+  }
+);
+
+export const predictionCacheLookups = createCounter(
+  'mnist_api_prediction_cache_lookups_total',
+  'Prediction cache lookups by result',
+  (set) => {
+    const { hits, misses } = getPredictionCacheStats();
+    set({ result: 'hit' }, hits);
+    set({ result: 'miss' }, misses);
+  }
+);
+
+export const predictionCacheEntries = createGauge(
+  'mnist_api_prediction_cache_entries',
+  'Predictions currently cached',
+  (gauge) => gauge.set({}, getPredictionCacheStats().entries)
+);
+
+export const inferenceQueue = createGauge(
+  'mnist_api_inference_queued_images',
+  'Images waiting for an inference worker',
+  (gauge) => gauge.set({}, getInferencePoolStats()?.queuedImages ?? 0)
+);
+
+export const inferenceWorkers = createGauge(
+  'mnist_api_inference_workers',
+  'Inference worker threads by state',
+  (gauge) => {
+    gauge.reset();
+    const stats = getInferencePoolStats();
+    if (stats) {
+      gauge.set({ state: 'busy' }, stats.busyWorkers);
+      gauge.set({ state: 'idle' }, stats.workers - stats.busyWorkers);
+    }
+  }
+);
+
+const metrics: Metric[] = [
+  requestsTotal,
+  inferenceDuration,
+  predictionRequestDuration,
+  predictedDigitsTotal,
+  rejectedPredictionsTotal,
+  modelInfo,
+  predictionCacheLookups,
+  predictionCacheEntries,
+  inferenceQueue,
+  inferenceWorkers,
+];
+
+/**
+ * Everything in Prometheus text exposition format (version 0.0.4)
+ */
+export function renderMetrics(): string {
+  return metrics.map((metric) => metric.render()).join('\n');
+}
+
+export function resetMetrics(): void {
+  metrics.forEach((metric) => metric.reset());
+}
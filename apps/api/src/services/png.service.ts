@@ -0,0 +1,419 @@
+/**
+ * PNG Decoding
+ * Pure TypeScript PNG reader (zlib from Node) producing 8-bit RGBA pixels
+ */
+import { inflateSync } from 'node:zlib';
+
+export interface DecodedImage {
+  width: number;
+  height: number;
+  data: Uint8Array; // RGBA, 4 bytes per pixel, row-major
+}
+
+/**
+ * Image properties checked before any pixel data is inflated
+ */
+export interface PngInfo {
+  width: number;
+  height: number;
+  bitDepth: number;
+  colorType: number;
+  decompressedBytes: number; // Size of the filtered scanlines
+}
+
+/**
+ * Upper bounds on what a client can make the server allocate
+ */
+export interface PngLimits {
+  maxDimension: number; // Pixels per side
+  maxDecompressedBytes: number;
+}
+
+// A 280×280 canvas needs ~314KB; the limits leave plenty of headroom
+export const DEFAULT_PNG_LIMITS: PngLimits = {
+  maxDimension: 1024,
+  maxDecompressedBytes: 8 * 1024 * 1024,
+};
+
+/**
+ * Why a PNG was rejected
+ */
+export type PngValidationReason =
+  | 'NOT_PNG' // Missing PNG signature
+  | 'TRUNCATED' // File ends mid-chunk or before IEND
+  | 'CORRUPT_CHUNK' // Chunk CRC mismatch
+  | 'MALFORMED' // Chunks or image data don't follow the spec
+  | 'INVALID_DIMENSIONS' // Zero-sized or above `maxDimension`
+  | 'UNSUPPORTED_FORMAT' // Colour type, bit depth or interlacing
+  | 'DECOMPRESSION_LIMIT'; // Image data inflates past the limit
+
+export class PngValidationError extends Error {
+  constructor(
+    readonly reason: PngValidationReason,
+    message: string
+  ) {
+    super(message);
+    this.name = 'PngValidationError';
+  }
+}
+
+interface Header {
+  width: number;
+  height: number;
+  bitDepth: number;
+  colorType: number;
+  interlace: number;
+}
+
+interface Chunks {
+  header: Header;
+  palette: Uint8Array | null;
+  transparency: Uint8Array | null;
+  compressed: Uint8Array[];
+  rowBytes: number;
+  decompressedBytes: number;
+}
+
+const PNG_SIGNATURE = [0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a];
+
+// Samples per pixel for each colour type
+const CHANNELS: Record<number, number> = {
+  0: 1, // Grayscale
+  2: 3, // RGB
+  3: 1, // Palette index
+  4: 2, // Grayscale + alpha
+  6: 4, // RGBA
+};
+
+const CRC_TABLE = Array.from({ length: 256 }, (_, n) => {
+  let c = n;
+  for (let k = 0; k < 8; k++) {
+    c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+  }
+  return c >>> 0;
+});
+
+/**
+ * Check the signature, chunk structure, IHDR and decompressed size without
+ * inflating any image data. Throws `PngValidationError`.
+ */
+export function validatePng(buffer: Uint8Array, limits: PngLimits = DEFAULT_PNG_LIMITS): PngInfo {
+  const { header, decompressedBytes } = readChunks(buffer, limits);
+  return {
+    width: header.width,
+    height: header.height,
+    bitDepth: header.bitDepth,
+    colorType: header.colorType,
+    decompressedBytes,
+  };
+}
+
+/**
+ * Decode a non-interlaced PNG of any standard colour type and bit depth.
+ * Runs the same checks as `validatePng`, and never inflates more than the
+ * header says the image needs. Throws `PngValidationError`.
+ */
+export function decodePng(buffer: Uint8Array, limits: PngLimits = DEFAULT_PNG_LIMITS): DecodedImage {
+  const { header, palette, transparency, compressed, rowBytes, decompressedBytes } = readChunks(
+    buffer,
+    limits
+  );
+
+  let raw: Uint8Array;
+  try {
+    raw = inflateSync(concat(compressed), { maxOutputLength: decompressedBytes });
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === 'ERR_BUFFER_TOO_LARGE') {
+      throw new PngValidationError(
+        'DECOMPRESSION_LIMIT',
+        `Image data inflates past the ${decompressedBytes} bytes a ${header.width}×${header.height} image needs`
+      );
+    }
+    throw new PngValidationError('MALFORMED', 'Invalid PNG: image data is not valid zlib');
+  }
+  if (raw.length !== decompressedBytes) {
+    throw new PngValidationError(
+      'MALFORMED',
+      `Invalid PNG: image data is ${raw.length} bytes, expected ${decompressedBytes}`
+    );
+  }
+
+  const channels = CHANNELS[header.colorType];
+  const pixels = unfilter(raw, rowBytes, header.height, Math.max(1, (channels * header.bitDepth) / 8));
+  return {
+    width: header.width,
+    height: header.height,
+    data: toRgba(pixels, header, rowBytes, palette, transparency),
+  };
+}
+
+/**
+ * Walk the chunks, checking CRCs, and collect what decoding needs
+ */
+function readChunks(buffer: Uint8Array, limits: PngLimits): Chunks {
+  if (buffer.length < 8 || PNG_SIGNATURE.some((byte, i) => buffer[i] !== byte)) {
+    throw new PngValidationError('NOT_PNG', 'Not a PNG: missing signature');
+  }
+
+  const view = new DataView(buffer.buffer, buffer.byteOffset, buffer.byteLength);
+  let header: Header | null = null;
+  let palette: Uint8Array | null = null;
+  let transparency: Uint8Array | null = null;
+  const compressed: Uint8Array[] = [];
+  let offset = 8;
+  let ended = false;
+
+  while (!ended) {
+    if (offset + 12 > buffer.length) {
+      throw new PngValidationError('TRUNCATED', 'Truncated PNG: missing IEND chunk');
+    }
+    const length = view.getUint32(offset);
+    const type = String.fromCharCode(...buffer.subarray(offset + 4, offset + 8));
+    const dataStart = offset + 8;
+    const dataEnd = dataStart + length;
+    if (dataEnd + 4 > buffer.length) {
+      throw new PngValidationError(
+        'TRUNCATED',
+        `Truncated PNG: ${type} chunk runs past the end of the file`
+      );
+    }
+    if (crc32(buffer.subarray(offset + 4, dataEnd)) !== view.getUint32(dataEnd)) {
+      throw new PngValidationError('CORRUPT_CHUNK', `Corrupt PNG: CRC mismatch in ${type} chunk`);
+    }
+    const data = buffer.subarray(dataStart, dataEnd);
+
+    if (!header && type !== 'IHDR') {
+      throw new PngValidationError('MALFORMED', 'Invalid PNG: first chunk must be IHDR');
+    }
+
+    switch (type) {
+      case 'IHDR':
+        header = readHeader(data, limits);
+        break;
+      case 'PLTE':
+        palette = data;
+        break;
+      case 'tRNS':
+        transparency = data;
+        break;
+      case 'IDAT':
+        compressed.push(data);
+        break;
+      case 'IEND':
+        ended = true;
+        break;
+      // Ancillary chunks (gAMA, pHYs, tEXt, ...) are ignored
+    }
+    offset = dataEnd + 4;
+  }
+
+  if (!header) {
+    throw new PngValidationError('MALFORMED', 'Invalid PNG: missing IHDR chunk');
+  }
+  if (compressed.length === 0) {
+    throw new PngValidationError('MALFORMED', 'Invalid PNG: missing IDAT chunk');
+  }
+  if (header.colorType === 3 && !palette) {
+    throw new PngValidationError('MALFORMED', 'Invalid PNG: palette image without PLTE chunk');
+  }
+
+  // One filter byte per scanline on top of the packed samples
+  const rowBytes = Math.ceil((header.width * CHANNELS[header.colorType] * header.bitDepth) / 8);
+  const decompressedBytes = (rowBytes + 1) * header.height;
+  if (decompressedBytes > limits.maxDecompressedBytes) {
+    throw new PngValidationError(
+      'DECOMPRESSION_LIMIT',
+      `Image data would inflate to ${decompressedBytes} bytes, limit is ${limits.maxDecompressedBytes}`
+    );
+  }
+
+  return { header, palette, transparency, compressed, rowBytes, decompressedBytes };
+}
+
+function readHeader(data: Uint8Array, limits: PngLimits): Header {
+  if (data.length !== 13) {
+    throw new PngValidationError('MALFORMED', `Invalid PNG: IHDR is ${data.length} bytes, expected 13`);
+  }
+  const view = new DataView(data.buffer, data.byteOffset, data.byteLength);
+  const header = {
+    width: view.getUint32(0),
+    height: view.getUint32(4),
+    bitDepth: data[8],
+    colorType: data[9],
+    interlace: data[12],
+  };
+
+  if (header.width === 0 || header.height === 0) {
+    throw new PngValidationError('INVALID_DIMENSIONS', `Invalid PNG: ${header.width}×${header.height} image`);
+  }
+  if (header.width > limits.maxDimension || header.height > limits.maxDimension) {
+    throw new PngValidationError(
+      'INVALID_DIMENSIONS',
+      `Image is ${header.width}×${header.height}, limit is ${limits.maxDimension}×${limits.maxDimension}`
+    );
+  }
+  if (!(header.colorType in CHANNELS)) {
+    throw new PngValidationError('UNSUPPORTED_FORMAT', `Invalid PNG: unknown colour type ${header.colorType}`);
+  }
+  const allowedDepths = header.colorType === 0 ? [1, 2, 4, 8, 16] : header.colorType === 3 ? [1, 2, 4, 8] : [8, 16];
+  if (!allowedDepths.includes(header.bitDepth)) {
+    throw new PngValidationError(
+      'UNSUPPORTED_FORMAT',
+      `Invalid PNG: bit depth ${header.bitDepth} is not allowed for colour type ${header.colorType}`
+    );
+  }
+  if (data[10] !== 0 || data[11] !== 0) {
+    throw new PngValidationError('MALFORMED', 'Invalid PNG: unknown compression or filter method');
+  }
+  if (header.interlace !== 0) {
+    throw new PngValidationError('UNSUPPORTED_FORMAT', 'Interlaced PNGs are not supported');
+  }
+  return header;
+}
+
+/**
+ * Reverse the per-scanline filters (None, Sub, Up, Average, Paeth)
+ */
+function unfilter(raw: Uint8Array, rowBytes: number, height: number, bytesPerPixel: number): Uint8Array {
+  const output = new Uint8Array(rowBytes * height);
+
+  for (let y = 0; y < height; y++) {
+    const filter = raw[y * (rowBytes + 1)];
+    const source = raw.subarray(y * (rowBytes + 1) + 1, (y + 1) * (rowBytes + 1));
+    const row = y * rowBytes;
+    const previous = row - rowBytes;
+
+    for (let x = 0; x < rowBytes; x++) {
+      const left = x >= bytesPerPixel ? output[row + x - bytesPerPixel] : 0;
+      const up = y > 0 ? output[previous + x] : 0;
+      const upLeft = y > 0 && x >= bytesPerPixel ? output[previous + x - bytesPerPixel] : 0;
+
+      let predictor: number;
+      switch (filter) {
+        case 0:
+          predictor = 0;
+          break;
+        case 1:
+          predictor = left;
+          break;
+        case 2:
+          predictor = up;
+          break;
+        case 3:
+          predictor = (left + up) >> 1;
+          break;
+        case 4:
+          predictor = paeth(left, up, upLeft);
+          break;
+        default:
+          throw new PngValidationError('MALFORMED', `Invalid PNG: unknown filter type ${filter} on row ${y}`);
+      }
+      output[row + x] = (source[x] + predictor) & 0xff;
+    }
+  }
+
+  return output;
+}
+
+function paeth(left: number, up: number, upLeft: number): number {
+  const estimate = left + up - upLeft;
+  const toLeft = Math.abs(estimate - left);
+  const toUp = Math.abs(estimate - up);
+  const toUpLeft = Math.abs(estimate - upLeft);
+  if (toLeft <= toUp && toLeft <= toUpLeft) return left;
+  return toUp <= toUpLeft ? up : upLeft;
+}
+
+/**
+ * Expand any colour type / bit depth to 8-bit RGBA
+ */
+function toRgba(
+  pixels: Uint8Array,
+  header: Header,
+  rowBytes: number,
+  palette: Uint8Array | null,
+  transparency: Uint8Array | null
+): Uint8Array {
+  const { width, height, bitDepth, colorType } = header;
+  if (colorType === 6 && bitDepth === 8) {
+    return pixels; // Already RGBA (what canvas.toDataURL produces)
+  }
+
+  const channels = CHANNELS[colorType];
+  const maxSample = (1 << bitDepth) - 1;
+  const output = new Uint8Array(width * height * 4);
+
+  // Raw sample (palette index or value at the native bit depth)
+  const sample = (y: number, index: number): number => {
+    if (bitDepth === 16) {
+      const at = y * rowBytes + index * 2;
+      return (pixels[at] << 8) | pixels[at + 1];
+    }
+    if (bitDepth === 8) {
+      return pixels[y * rowBytes + index];
+    }
+    const bit = index * bitDepth;
+    const byte = pixels[y * rowBytes + (bit >> 3)];
+    return (byte >> (8 - bitDepth - (bit & 7))) & maxSample;
+  };
+  const scale = (value: number) => Math.round((value * 255) / maxSample);
+  const transparentKey =
+    transparency && (colorType === 0 || colorType === 2)
+      ? Array.from({ length: transparency.length / 2 }, (_, i) => (transparency[i * 2] << 8) | transparency[i * 2 + 1])
+      : null;
+
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      const target = (y * width + x) * 4;
+      const values = Array.from({ length: channels }, (_, c) => sample(y, x * channels + c));
+
+      switch (colorType) {
+        case 0: {
+          const gray = scale(values[0]);
+          output.set([gray, gray, gray, transparentKey?.[0] === values[0] ? 0 : 255], target);
+          break;
+        }
+        case 2: {
+          const opaque = !transparentKey || transparentKey.some((key, i) => key !== values[i]);
+          output.set([scale(values[0]), scale(values[1]), scale(values[2]), opaque ? 255 : 0], target);
+          break;
+        }
+        case 3: {
+          const index = values[0];
+          if ((index + 1) * 3 > palette!.length) {
+            throw new PngValidationError('MALFORMED', `Invalid PNG: palette index ${index} out of range`);
+          }
+          const alpha = transparency && index < transparency.length ? transparency[index] : 255;
+          output.set([palette![index * 3], palette![index * 3 + 1], palette![index * 3 + 2], alpha], target);
+          break;
+        }
+        case 4:
+          output.set([scale(values[0]), scale(values[0]), scale(values[0]), scale(values[1])], target);
+          break;
+        case 6:
+          output.set(values.map(scale), target);
+          break;
+      }
+    }
+  }
+
+  return output;
+}
+
+function concat(chunks: Uint8Array[]): Uint8Array {
+  const output = new Uint8Array(chunks.reduce((sum, chunk) => sum + chunk.length, 0));
+  let offset = 0;
+  for (const chunk of chunks) {
+    output.set(chunk, offset);
+    offset += chunk.length;
+  }
+  return output;
+}
+
+function crc32(bytes: Uint8Array): number {
+  let crc = 0xffffffff;
+  for (const byte of bytes) {
+    crc = CRC_TABLE[(crc ^ byte) & 0xff] ^ (crc >>> 8);
+  }
+  return (crc ^ 0xffffffff) >>> 0;
+}
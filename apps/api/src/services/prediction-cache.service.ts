@@ -0,0 +1,102 @@
+/**
+ * Prediction Cache
+ * LRU cache of predictions keyed by the preprocessed digit and the model
+ * version, so resubmitting the same drawing skips inference
+ */
+import { createHash } from 'node:crypto';
+import type { GrayscaleImage } from '@repo/ml-core';
+
+export interface PredictionCacheConfig {
+  maxEntries: number; // 0 disables the cache
+  ttlMs: number;
+}
+
+export interface PredictionCacheStats {
+  hits: number;
+  misses: number;
+  entries: number;
+}
+
+export interface PredictionCache<T> {
+  get(key: string, now?: number): T | undefined;
+  set(key: string, value: T, now?: number): void;
+  stats(): PredictionCacheStats;
+  clear(): void;
+}
+
+export const DEFAULT_PREDICTION_CACHE: PredictionCacheConfig = {
+  maxEntries: 1000,
+  ttlMs: 10 * 60 * 1000,
+};
+
+/**
+ * Limits from PREDICTION_CACHE_MAX_ENTRIES / PREDICTION_CACHE_TTL_MS, falling
+ * back to the defaults
+ */
+export function predictionCacheConfigFromEnv(env: NodeJS.ProcessEnv = process.env): PredictionCacheConfig {
+  const read = (name: string, fallback: number): number => {
+    const value = env[name];
+    if (value === undefined) return fallback;
+    const parsed = Number(value);
+    if (!Number.isInteger(parsed) || parsed < 0) {
+      throw new Error(`${name} must be a non-negative integer, received "${value}"`);
+    }
+    return parsed;
+  };
+
+  return {
+    maxEntries: read('PREDICTION_CACHE_MAX_ENTRIES', DEFAULT_PREDICTION_CACHE.maxEntries),
+    ttlMs: read('PREDICTION_CACHE_TTL_MS', DEFAULT_PREDICTION_CACHE.ttlMs),
+  };
+}
+
+/**
+ * Cache key for a digit as the model sees it. Drawings that differ only in
+ * ways preprocessing removes (position, scale, canvas size) share a key; a new
+ * model version never reuses old entries.
+ */
+export function predictionCacheKey(image: GrayscaleImage, modelVersion: string): string {
+  return createHash('sha256')
+    .update(`${modelVersion}:${image.width}x${image.height}:`)
+    .update(new Uint8Array(image.data.buffer, image.data.byteOffset, image.data.byteLength))
+    .digest('hex');
+}
+
+/**
+ * Holds at most `maxEntries` values, evicting the least recently used; entries
+ * older than `ttlMs` count as misses
+ */
+export function createPredictionCache<T>({ maxEntries, ttlMs }: PredictionCacheConfig): PredictionCache<T> {
+  const entries = new Map<string, { value: T; expiresAt: number }>();
+  let hits = 0;
+  let misses = 0;
+
+  return {
+    get(key, now = Date.now()) {
+      const entry = entries.get(key);
+      if (!entry || entry.expiresAt <= now) {
+        if (entry) entries.delete(key);
+        misses++;
+        return undefined;
+      }
+      entries.delete(key);
+      entries.set(key, entry);
+      hits++;
+      return entry.value;
+    },
+    set(key, value, now = Date.now()) {
+      if (maxEntries === 0) return;
+      entries.delete(key);
+      entries.set(key, { value, expiresAt: now + ttlMs });
+      if (entries.size > maxEntries) {
+        entries.delete(entries.keys().next().value as string);
+      }
+    },
+    stats: () => ({ hits, misses, entries: entries.size }),
+    clear() {
+      entries.clear();
+      hits = 0;
+      misses = 0;
+    },
+  };
+}
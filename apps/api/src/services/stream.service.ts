@@ -0,0 +1,147 @@
+/**
+ * Streaming Predictions
+ * Coalesces live canvas frames per session so inference only ever runs on the
+ * newest one
+ */
+import { inferDigit, type PredictionResult } from './inference.service';
+import { PngValidationError, type PngValidationReason } from './png.service';
+
+export type StreamEvent =
+  | { frame: number; ok: true; prediction: PredictionResult; droppedFrames: number }
+  | { frame: number; ok: false; error: { message: string; reason: PngValidationReason | null } };
+
+export interface FrameCoalescer<T> {
+  /** Queue a frame, replacing any frame still waiting; returns its sequence number */
+  push(frame: T): number;
+  /** Stop processing; results still in flight are discarded */
+  close(): void;
+}
+
+/**
+ * Run `process` on one frame at a time. Frames pushed while it's busy are not
+ * queued: only the newest waits, and the ones it replaced are counted as
+ * dropped, so a slow model never falls behind a fast client.
+ */
+export function createFrameCoalescer<T, R>(
+  process: (frame: T) => Promise<R>,
+  onResult: (result: { frame: number; value: R; droppedFrames: number }) => void,
+  onError: (result: { frame: number; error: unknown }) => void
+): FrameCoalescer<T> {
+  let pending: { frame: T; sequence: number } | null = null;
+  let sequence = 0;
+  let dropped = 0;
+  let busy = false;
+  let closed = false;
+
+  async function drain() {
+    busy = true;
+    while (pending && !closed) {
+      const { frame, sequence: current } = pending;
+      const droppedFrames = dropped;
+      pending = null;
+      dropped = 0;
+
+      try {
+        const value = await process(frame);
+        if (!closed) onResult({ frame: current, value, droppedFrames });
+      } catch (error) {
+        if (!closed) onError({ frame: current, error });
+      }
+    }
+    busy = false;
+  }
+
+  return {
+    push(frame) {
+      if (closed) {
+        throw new Error('Frame coalescer is closed');
+      }
+      if (pending) dropped++;
+      pending = { frame, sequence: ++sequence };
+      if (!busy) void drain();
+      return sequence;
+    },
+    close() {
+      closed = true;
+      pending = null;
+    },
+  };
+}
+
+interface Stream {
+  owner: string; // Connection that opened the stream
+  coalescer: FrameCoalescer<Buffer>;
+  end: () => void;
+}
+
+const streams = new Map<string, Stream>();
+
+/**
+ * Whether `owner` may open a stream for a session: it has none, or the open
+ * one belongs to the same connection
+ */
+export function canOpenPredictionStream(sessionId: string, owner: string): boolean {
+  const stream = streams.get(sessionId);
+  return !stream || stream.owner === owner;
+}
+
+/**
+ * Start streaming predictions for a session, owned by the connection that
+ * opened it. A session has at most one stream: reopening it from the same
+ * connection ends the previous one, and other connections are refused.
+ * Returns a function that closes the stream.
+ */
+export function openPredictionStream(
+  sessionId: string,
+  owner: string,
+  emit: (event: StreamEvent) => void,
+  end: () => void
+): () => void {
+  if (!canOpenPredictionStream(sessionId, owner)) {
+    throw new Error('Prediction stream is owned by another connection');
+  }
+  streams.get(sessionId)?.end();
+
+  const coalescer = createFrameCoalescer(
+    inferDigit,
+    ({ frame, value, droppedFrames }) => emit({ frame, ok: true, prediction: value, droppedFrames }),
+    ({ frame, error }) =>
+      emit({
+        frame,
+        ok: false,
+        error: {
+          message: error instanceof Error ? error.message : 'Unknown error',
+          reason: error instanceof PngValidationError ? error.reason : null,
+        },
+      })
+  );
+  const stream: Stream = {
+    owner,
+    coalescer,
+    end: () => {
+      if (close()) end();
+    },
+  };
+
+  function close(): boolean {
+    if (streams.get(sessionId) !== stream) return false;
+    streams.delete(sessionId);
+    coalescer.close();
+    return true;
+  }
+
+  streams.set(sessionId, stream);
+  return () => {
+    close();
+  };
+}
+
+/**
+ * Hand a validated PNG to the session's stream.
+ * Returns the frame's sequence number, or null when the session has no stream
+ * opened by `owner`.
+ */
+export function pushFrame(sessionId: string, owner: string, imageBuffer: Buffer): number | null {
+  const stream = streams.get(sessionId);
+  return stream?.owner === owner ? stream.coalescer.push(imageBuffer) : null;
+}
@@ -0,0 +1,35 @@
+/**
+ * Inference Worker
+ * Holds one copy of the model (or ensemble) and runs the batches posted by the
+ * inference pool (services/inference-pool.service.ts)
+ */
+import { parentPort, workerData } from 'node:worker_threads'
+import { loadEnsemble, loadModel, predictBatch, type LoadModelOptions } from '@repo/ml-core'
+import type { WorkerModel, WorkerRequest, WorkerResponse } from '../services/inference-pool.service'
+
+const port = parentPort
+if (!port) {
+  throw new Error('inference.worker must run in a worker thread')
+}
+const post = (message: WorkerResponse) => port.postMessage(message)
+const errorMessage = (error: unknown) => (error instanceof Error ? error.message : 'Unknown error')
+
+const { modelPaths, ensemble } = workerData as WorkerModel
+const expected: LoadModelOptions = { inputShape: [28, 28, 1], numClasses: 10 }
+const loading =
+  modelPaths.length > 1 ? loadEnsemble(modelPaths, { ...ensemble, expected }) : loadModel(modelPaths[0], expected)
+
+loading.then(
+  (model) => {
+    // The pool sends a worker one batch at a time
+    port.on('message', async ({ id, images }: WorkerRequest) => {
+      try {
+        post({ type: 'result', id, predictions: await predictBatch(model, images) })
+      } catch (error) {
+        post({ type: 'error', id, message: errorMessage(error) })
+      }
+    })
+    post({ type: 'ready' })
+  },
+  (error) => post({ type: 'failed', message: errorMessage(error) })
+)
@@ -0,0 +1,75 @@
+/**
+ * Regenerates the inference test fixtures:
+ *   model/tiny-cnn.*  small CNN trained to tell a "1" stroke from a "0" ring
+ *   *.png             canvas-style drawings (white ink on black)
+ *
+ * Usage (from apps/api): pnpm exec tsx tests/fixtures/create-fixtures.ts
+ */
+import { writeFile } from 'node:fs/promises'
+import { join } from 'node:path'
+import { fileURLToPath } from 'node:url'
+import * as tf from '@tensorflow/tfjs'
+import { createModel, createSeededRandom, preprocessDigit, saveModel, trainModel } from '@repo/ml-core'
+import { blankCanvas, drawLine, drawRing } from '../helpers/drawing'
+import { grayscaleToPng } from '../helpers/png'
+
+const fixtures = fileURLToPath(new URL('.', import.meta.url))
+const random = createSeededRandom(2024)
+const between = (min: number, max: number) => min + random() * (max - min)
+
+function randomOne() {
+  const x = between(30, 82)
+  const tilt = between(-12, 12)
+  return drawLine(
+    blankCanvas(112),
+    [x - tilt / 2, between(8, 25)],
+    [x + tilt / 2, between(85, 104)],
+    between(3, 7)
+  )
+}
+
+function randomZero() {
+  return drawRing(
+    blankCanvas(112),
+    [between(45, 67), between(45, 67)],
+    [between(18, 32), between(28, 44)],
+    between(3, 7)
+  )
+}
+
+async function main() {
+  const samples = Array.from({ length: 240 }, (_, i) =>
+    i % 2 === 0 ? { label: 1, canvas: randomOne() } : { label: 0, canvas: randomZero() }
+  )
+  const images = tf.tensor4d(
+    Float32Array.from(samples.flatMap(({ canvas }) => Array.from(preprocessDigit(canvas).data))),
+    [samples.length, 28, 28, 1]
+  )
+  const labels = tf.oneHot(tf.tensor1d(samples.map(({ label }) => label), 'int32'), 10).toFloat() as tf.Tensor2D
+
+  const model = createModel({ conv1Filters: 4, conv2Filters: 8, denseUnits: 16, learningRate: 0.01, seed: 7 })
+  const metrics = await trainModel({ model, data: { images, labels }, epochs: 12, batchSize: 16, seed: 7 })
+  console.log(`val accuracy ${metrics.valAccuracy}`)
+
+  await saveModel(model, join(fixtures, 'model/tiny-cnn'), {
+    trainingConfig: { purpose: 'test fixture', samples: samples.length, epochs: 12 },
+    metrics,
+  })
+
+  const drawings = {
+    'one.png': drawLine(blankCanvas(), [150, 40], [135, 240], 12),
+    'zero.png': drawRing(blankCanvas(), [140, 140], [60, 90], 12),
+    'blank.png': blankCanvas(),
+  }
+  for (const [name, canvas] of Object.entries(drawings)) {
+    await writeFile(join(fixtures, name), grayscaleToPng(canvas.data, canvas.width, canvas.height))
+  }
+
+  tf.dispose([images, labels])
+  model.dispose()
+}
+
+main().catch((error) => {
+  console.error(error)
+  process.exit(1)
+})
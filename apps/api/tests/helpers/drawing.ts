@@ -0,0 +1,58 @@
+/**
+ * Synthetic canvas drawings for inference tests and the fixture model
+ */
+
+export interface Canvas {
+  data: Float32Array
+  width: number
+  height: number
+}
+
+export function blankCanvas(size = 280): Canvas {
+  return { data: new Float32Array(size * size), width: size, height: size }
+}
+
+/**
+ * Stroke from (x0, y0) to (x1, y1) with the given radius
+ */
+export function drawLine(
+  canvas: Canvas,
+  [x0, y0]: [number, number],
+  [x1, y1]: [number, number],
+  radius: number
+): Canvas {
+  const dx = x1 - x0
+  const dy = y1 - y0
+  const lengthSquared = dx * dx + dy * dy || 1
+  paint(canvas, (x, y) => {
+    const t = Math.max(0, Math.min(1, ((x - x0) * dx + (y - y0) * dy) / lengthSquared))
+    return Math.hypot(x - (x0 + t * dx), y - (y0 + t * dy)) <= radius
+  })
+  return canvas
+}
+
+/**
+ * Ellipse outline centred at (cx, cy)
+ */
+export function drawRing(
+  canvas: Canvas,
+  [cx, cy]: [number, number],
+  [rx, ry]: [number, number],
+  radius: number
+): Canvas {
+  paint(canvas, (x, y) => {
+    const angle = Math.atan2((y - cy) / ry, (x - cx) / rx)
+    const edgeX = cx + rx * Math.cos(angle)
+    const edgeY = cy + ry * Math.sin(angle)
+    return Math.hypot(x - edgeX, y - edgeY) <= radius
+  })
+  return canvas
+}
+
+function paint(canvas: Canvas, inside: (x: number, y: number) => boolean): void {
+  for (let y = 0; y < canvas.height; y++) {
+    for (let x = 0; x < canvas.width; x++) {
+      if (inside(x + 0.5, y + 0.5)) canvas.data[y * canvas.width + x] = 1
+    }
+  }
+}
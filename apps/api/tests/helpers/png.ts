@@ -0,0 +1,108 @@
+/**
+ * Test PNG encoder: builds valid (or deliberately broken) PNG files
+ */
+import { deflateSync } from 'node:zlib'
+
+export interface EncodeOptions {
+  width: number
+  height: number
+  /** Packed samples, one row after another (no filter bytes) */
+  pixels: Uint8Array
+  colorType?: number
+  bitDepth?: number
+  /** Filter type applied to every row (0 None … 4 Paeth) */
+  filter?: number
+  palette?: Uint8Array
+  transparency?: Uint8Array
+  /** Extra chunks inserted before IEND */
+  extraChunks?: { type: string; data: Uint8Array }[]
+}
+
+const SIGNATURE = Uint8Array.from([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a])
+const CHANNELS: Record<number, number> = { 0: 1, 2: 3, 3: 1, 4: 2, 6: 4 }
+
+export function encodePng(options: EncodeOptions): Buffer {
+  const { width, height, pixels, colorType = 6, bitDepth = 8, filter = 0 } = options
+  const rowBytes = Math.ceil((width * CHANNELS[colorType] * bitDepth) / 8)
+  const bytesPerPixel = Math.max(1, (CHANNELS[colorType] * bitDepth) / 8)
+
+  const header = Buffer.alloc(13)
+  header.writeUInt32BE(width, 0)
+  header.writeUInt32BE(height, 4)
+  header[8] = bitDepth
+  header[9] = colorType
+
+  const chunks = [chunk('IHDR', header)]
+  if (options.palette) chunks.push(chunk('PLTE', options.palette))
+  if (options.transparency) chunks.push(chunk('tRNS', options.transparency))
+  chunks.push(chunk('IDAT', deflateSync(filterRows(pixels, rowBytes, height, bytesPerPixel, filter))))
+  for (const extra of options.extraChunks ?? []) chunks.push(chunk(extra.type, extra.data))
+  chunks.push(chunk('IEND', new Uint8Array(0)))
+
+  return Buffer.concat([SIGNATURE, ...chunks])
+}
+
+/**
+ * RGBA PNG from grayscale values in [0, 1] (white ink on black, like the canvas)
+ */
+export function grayscaleToPng(data: Float32Array, width: number, height: number): Buffer {
+  const pixels = new Uint8Array(width * height * 4)
+  data.forEach((value, i) => {
+    const byte = Math.round(value * 255)
+    pixels.set([byte, byte, byte, 255], i * 4)
+  })
+  return encodePng({ width, height, pixels })
+}
+
+export function chunk(type: string, data: Uint8Array): Buffer {
+  const body = Buffer.concat([Buffer.from(type, 'ascii'), data])
+  const length = Buffer.alloc(4)
+  length.writeUInt32BE(data.length)
+  const crc = Buffer.alloc(4)
+  crc.writeUInt32BE(crc32(body))
+  return Buffer.concat([length, body, crc])
+}
+
+export function toDataUrl(png: Buffer): string {
+  return `data:image/png;base64,${png.toString('base64')}`
+}
+
+function filterRows(
+  pixels: Uint8Array,
+  rowBytes: number,
+  height: number,
+  bpp: number,
+  filter: number
+): Uint8Array {
+  const output = new Uint8Array((rowBytes + 1) * height)
+  for (let y = 0; y < height; y++) {
+    output[y * (rowBytes + 1)] = filter
+    for (let x = 0; x < rowBytes; x++) {
+      const value = pixels[y * rowBytes + x]
+      const left = x >= bpp ? pixels[y * rowBytes + x - bpp] : 0
+      const up = y > 0 ? pixels[(y - 1) * rowBytes + x] : 0
+      const upLeft = y > 0 && x >= bpp ? pixels[(y - 1) * rowBytes + x - bpp] : 0
+      const predictor = [0, left, up, (left + up) >> 1, paeth(left, up, upLeft)][filter]
+      output[y * (rowBytes + 1) + 1 + x] = (value - predictor) & 0xff
+    }
+  }
+  return output
+}
+
+function paeth(left: number, up: number, upLeft: number): number {
+  const estimate = left + up - upLeft
+  const toLeft = Math.abs(estimate - left)
+  const toUp = Math.abs(estimate - up)
+  const toUpLeft = Math.abs(estimate - upLeft)
+  if (toLeft <= toUp && toLeft <= toUpLeft) return left
+  return toUp <= toUpLeft ? up : upLeft
+}
+
+function crc32(bytes: Uint8Array): number {
+  let crc = 0xffffffff
+  for (const byte of bytes) {
+    crc ^= byte
+    for (let k = 0; k < 8; k++) crc = crc & 1 ? 0xedb88320 ^ (crc >>> 1) : crc >>> 1
+  }
+  return (crc ^ 0xffffffff) >>> 0
+}
@@ -0,0 +1,492 @@
+import { afterAll, beforeAll, describe, expect, test } from 'vitest'
+import { randomUUID } from 'node:crypto'
+import { mkdtempSync, readFileSync, rmSync, writeFileSync } from 'node:fs'
+import { tmpdir } from 'node:os'
+import { join } from 'node:path'
+import { fileURLToPath } from 'node:url'
+import { deflateSync } from 'node:zlib'
+import { fetchRequestHandler } from '@trpc/server/adapters/fetch'
+import { MAX_BATCH_SIZE } from '@repo/shared'
+import { requestIdHeaders, resolveRequestId } from '../../src/context'
+import { createLogger, type Logger } from '../../src/logger'
+import { createRateLimiter, retryAfterHeaders, type RateLimiter } from '../../src/middleware/rate-limit'
+import { mlRouter, type BatchItemResult } from '../../src/routers/ml.router'
+import { closeFeedbackStore, openFeedbackStore } from '../../src/services/feedback.service'
+import { DEFAULT_INFERENCE_POOL } from '../../src/services/inference-pool.service'
+import {
+  clearPredictionCache,
+  loadInferenceModel,
+  unloadInferenceModel,
+} from '../../src/services/inference.service'
+import { blankCanvas, drawLine, drawRing } from '../helpers/drawing'
+import { chunk, encodePng, grayscaleToPng, toDataUrl } from '../helpers/png'
+
+const TINY_MODEL = fileURLToPath(new URL('../fixtures/model/tiny-cnn', import.meta.url))
+const SESSION_ID = '123e4567-e89b-12d3-a456-426614174000'
+
+const silent = createLogger({ write: () => {} })
+
+async function call(
+  procedure: string,
+  input: unknown,
+  rateLimiter: RateLimiter | null = null,
+  { logger = silent, headers = {} }: { logger?: Logger; headers?: Record<string, string> } = {}
+) {
+  const response = await fetchRequestHandler({
+    endpoint: '/trpc',
+    req: new Request(`http://localhost/trpc/${procedure}`, {
+      method: 'POST',
+      headers: { 'content-type': 'application/json', ...headers },
+      body: JSON.stringify(input),
+    }),
+    router: mlRouter,
+    createContext: ({ req }) => {
+      const requestId = resolveRequestId(req.headers.get('x-request-id') ?? undefined)
+      return {
+        requestId,
+        connectionId: randomUUID(),
+        remoteAddress: '127.0.0.1',
+        rateLimiter,
+        log: logger.child({ requestId }),
+      }
+    },
+    responseMeta: ({ ctx, data }) => ({ headers: { ...requestIdHeaders(ctx), ...retryAfterHeaders(data) } }),
+  })
+  return { status: response.status, headers: response.headers, body: await response.json() }
+}
+
+const predict = (imageData: string) => call('predict', { imageData, sessionId: SESSION_ID })
+const predictBatch = (images: string[]) => call('predictBatch', { images, sessionId: SESSION_ID })
+const fixtureUrl = (name: string) => toDataUrl(readFileSync(new URL(`../fixtures/${name}`, import.meta.url)))
+
+describe('ml.predict', () => {
+  beforeAll(async () => {
+    await loadInferenceModel(TINY_MODEL)
+  })
+
+  afterAll(async () => {
+    await unloadInferenceModel()
+  })
+
+  test('returns a prediction for a canvas PNG', async () => {
+    const { status, body } = await predict(fixtureUrl('one.png'))
+
+    expect(status).toBe(200)
+    expect(body.result.data).toMatchObject({ predictedDigit: 1 })
+    expect(body.result.data).not.toHaveProperty('rejected')
+  })
+
+  test('answers a blank canvas with a rejection instead of a digit', async () => {
+    const { status, body } = await predict(fixtureUrl('blank.png'))
+
+    expect(status).toBe(200)
+    expect(body.result.data).toMatchObject({ rejected: 'EMPTY', allProbabilities: expect.any(Array) })
+  })
+
+  test('predicts with test-time augmentation on request', async () => {
+    const { status, body } = await call('predict', {
+      imageData: fixtureUrl('zero.png'),
+      sessionId: SESSION_ID,
+      mode: 'tta',
+    })
+
+    expect(status).toBe(200)
+    expect(body.result.data).toMatchObject({ predictedDigit: 0, cached: false })
+  })
+
+  test('rejects an unknown mode', async () => {
+    const { status } = await call('predict', { imageData: fixtureUrl('zero.png'), sessionId: SESSION_ID, mode: 'x' })
+    expect(status).toBe(400)
+  })
+
+  test('rejects valid base64 that is not a PNG', async () => {
+    const { status, body } = await predict('data:image/png;base64,ABC==')
+
+    expect(status).toBe(400)
+    expect(body.error.data).toMatchObject({ code: 'BAD_REQUEST', reason: 'NOT_PNG' })
+    expect(body.error.message).toBe('Not a PNG: missing signature')
+  })
+
+  test('rejects oversized dimensions before decoding', async () => {
+    const png = encodePng({ width: 2, height: 2, pixels: new Uint8Array(16) })
+    png.writeUInt32BE(4096, 16)
+    const forged = Buffer.concat([png.subarray(0, 8), chunk('IHDR', png.subarray(16, 29)), png.subarray(33)])
+    const { status, body } = await predict(toDataUrl(forged))
+
+    expect(status).toBe(400)
+    expect(body.error.data.reason).toBe('INVALID_DIMENSIONS')
+  })
+
+  test('rejects a decompression bomb', async () => {
+    const png = encodePng({ width: 2, height: 2, pixels: new Uint8Array(16) })
+    const bomb = Buffer.concat([
+      png.subarray(0, 33),
+      chunk('IDAT', deflateSync(new Uint8Array(16 * 1024 * 1024))),
+      chunk('IEND', new Uint8Array(0)),
+    ])
+    const { status, body } = await predict(toDataUrl(bomb))
+
+    expect(status).toBe(400)
+    expect(body.error.data.reason).toBe('DECOMPRESSION_LIMIT')
+  })
+
+  test('schema failures carry no image reason', async () => {
+    const { status, body } = await predict('data:image/jpeg;base64,ABC==')
+
+    expect(status).toBe(400)
+    expect(body.error.data).toMatchObject({ code: 'BAD_REQUEST', reason: null })
+  })
+})
+
+describe('ml.predictBatch', () => {
+  beforeAll(async () => {
+    await loadInferenceModel(TINY_MODEL)
+  })
+
+  afterAll(async () => {
+    await unloadInferenceModel()
+  })
+
+  test('returns results in input order', async () => {
+    const images = ['one.png', 'zero.png', 'one.png'].map(fixtureUrl)
+    const { status, body } = await predictBatch(images)
+
+    expect(status).toBe(200)
+    const results: BatchItemResult[] = body.result.data
+    expect(results.map((item) => item.index)).toEqual([0, 1, 2])
+    expect(results.map((item) => item.ok && item.prediction.predictedDigit)).toEqual([1, 0, 1])
+  })
+
+  test('matches single predictions', async () => {
+    const single = await predict(fixtureUrl('zero.png'))
+    const batch = await predictBatch([fixtureUrl('one.png'), fixtureUrl('zero.png')])
+
+    const batched = batch.body.result.data[1].prediction
+    const expected = single.body.result.data
+    expect(batched.predictedDigit).toBe(expected.predictedDigit)
+    batched.allProbabilities.forEach((p: number, i: number) =>
+      expect(p).toBeCloseTo(expected.allProbabilities[i], 5)
+    )
+  })
+
+  test('reports bad images per item without failing the batch', async () => {
+    const { status, body } = await predictBatch([
+      'data:image/jpeg;base64,ABC==',
+      fixtureUrl('one.png'),
+      'data:image/png;base64,ABC==',
+      toDataUrl(readFileSync(new URL('../fixtures/zero.png', import.meta.url)).subarray(0, 33)),
+    ])
+
+    expect(status).toBe(200)
+    const [schema, good, notPng, truncated] = body.result.data
+    expect(schema).toMatchObject({
+      index: 0,
+      ok: false,
+      error: { code: 'BAD_REQUEST', reason: 'INVALID_INPUT' },
+    })
+    expect(good).toMatchObject({ index: 1, ok: true, prediction: { predictedDigit: 1 } })
+    expect(notPng).toMatchObject({ index: 2, ok: false, error: { reason: 'NOT_PNG' } })
+    expect(truncated).toMatchObject({ index: 3, ok: false, error: { reason: 'TRUNCATED' } })
+  })
+
+  test('reports decompression bombs per item', async () => {
+    const png = encodePng({ width: 2, height: 2, pixels: new Uint8Array(16) })
+    const bomb = Buffer.concat([
+      png.subarray(0, 33),
+      chunk('IDAT', deflateSync(new Uint8Array(1024 * 1024))),
+      chunk('IEND', new Uint8Array(0)),
+    ])
+    const { body } = await predictBatch([toDataUrl(bomb), fixtureUrl('zero.png')])
+
+    expect(body.result.data[0]).toMatchObject({ ok: false, error: { reason: 'DECOMPRESSION_LIMIT' } })
+    expect(body.result.data[1]).toMatchObject({ ok: true, prediction: { predictedDigit: 0 } })
+  })
+
+  test('handles a batch where every image is rejected', async () => {
+    const { status, body } = await predictBatch(['data:image/png;base64,ABC=='])
+
+    expect(status).toBe(200)
+    expect(body.result.data).toEqual([
+      {
+        index: 0,
+        ok: false,
+        error: { code: 'BAD_REQUEST', message: 'Not a PNG: missing signature', reason: 'NOT_PNG' },
+      },
+    ])
+  })
+
+  test('rejects an oversized batch as a whole', async () => {
+    const { status } = await predictBatch(Array(MAX_BATCH_SIZE + 1).fill(fixtureUrl('one.png')))
+    expect(status).toBe(400)
+  })
+})
+
+describe('ml.predictNumber', () => {
+  const predictNumber = (imageData: string) => call('predictNumber', { imageData, sessionId: SESSION_ID })
+
+  beforeAll(async () => {
+    await loadInferenceModel(TINY_MODEL)
+  })
+
+  afterAll(async () => {
+    await unloadInferenceModel()
+  })
+
+  test('returns the number with per-digit boxes and confidences', async () => {
+    const canvas = drawRing(blankCanvas(), [90, 140], [35, 70], 8)
+    drawLine(canvas, [200, 70], [195, 210], 8)
+
+    const png = grayscaleToPng(canvas.data, canvas.width, canvas.height)
+    const { status, body } = await predictNumber(toDataUrl(png))
+
+    expect(status).toBe(200)
+    expect(body.result.data.number).toBe('01')
+    expect(body.result.data.digits).toEqual([
+      { predictedDigit: 0, confidence: expect.any(Number), box: expect.objectContaining({ left: 47 }) },
+      { predictedDigit: 1, confidence: expect.any(Number), box: expect.objectContaining({ top: 62 }) },
+    ])
+  })
+
+  test('answers a blank canvas with a rejection', async () => {
+    const { status, body } = await predictNumber(fixtureUrl('blank.png'))
+
+    expect(status).toBe(200)
+    expect(body.result.data).toMatchObject({ number: '', digits: [], rejected: 'EMPTY' })
+  })
+
+  test('applies the same image gates as predict', async () => {
+    const { status, body } = await predictNumber('data:image/png;base64,ABC==')
+
+    expect(status).toBe(400)
+    expect(body.error.data).toMatchObject({ reason: 'NOT_PNG' })
+  })
+
+  test('has no tta mode', async () => {
+    const { status } = await call('predictNumber', {
+      imageData: fixtureUrl('zero.png'),
+      sessionId: SESSION_ID,
+      mode: 'tta',
+    })
+    expect(status).toBe(400)
+  })
+})
+
+describe('ml.submitFeedback', () => {
+  const dir = mkdtempSync(join(tmpdir(), 'feedback-router-'))
+  const submitFeedback = (imageData: string, trueLabel: number) =>
+    call('submitFeedback', { sessionId: SESSION_ID, imageData, predictedDigit: 7, trueLabel })
+
+  beforeAll(() => {
+    openFeedbackStore(join(dir, 'feedback.jsonl'))
+  })
+
+  afterAll(() => {
+    closeFeedbackStore()
+    rmSync(dir, { recursive: true, force: true })
+  })
+
+  test('stores a correction once', async () => {
+    const first = await submitFeedback(fixtureUrl('one.png'), 1)
+    const second = await submitFeedback(fixtureUrl('one.png'), 1)
+
+    expect(first.status).toBe(200)
+    expect(first.body.result.data).toMatchObject({ duplicate: false })
+    expect(second.body.result.data).toEqual({ ...first.body.result.data, duplicate: true })
+    expect(await openFeedbackStore().readAll()).toMatchObject([{ predictedDigit: 7, trueLabel: 1 }])
+  })
+
+  test('rejects images that fail the PNG gate', async () => {
+    const { status, body } = await submitFeedback('data:image/png;base64,ABC==', 1)
+
+    expect(status).toBe(400)
+    expect(body.error.data.reason).toBe('NOT_PNG')
+  })
+
+  test('rejects labels outside 0-9', async () => {
+    const { status } = await submitFeedback(fixtureUrl('one.png'), 10)
+    expect(status).toBe(400)
+  })
+})
+
+describe('rate limiting', () => {
+  beforeAll(async () => {
+    await loadInferenceModel(TINY_MODEL)
+  })
+
+  afterAll(async () => {
+    await unloadInferenceModel()
+  })
+
+  const limits = {
+    session: { capacity: 2, refillPerSecond: 0.5 },
+    ip: { capacity: 5, refillPerSecond: 1 },
+  }
+  const input = (sessionId: string) => ({ imageData: fixtureUrl('one.png'), sessionId })
+
+  test('rejects requests over the session limit with retry information', async () => {
+    const limiter = createRateLimiter(limits)
+
+    expect((await call('predict', input(SESSION_ID), limiter)).status).toBe(200)
+    expect((await call('predict', input(SESSION_ID), limiter)).status).toBe(200)
+    const { status, headers, body } = await call('predict', input(SESSION_ID), limiter)
+
+    expect(status).toBe(429)
+    expect(body.error.data).toMatchObject({ code: 'TOO_MANY_REQUESTS', retryAfterMs: expect.any(Number) })
+    expect(body.error.data.retryAfterMs).toBeGreaterThan(1900)
+    expect(body.error.data.retryAfterMs).toBeLessThanOrEqual(2000)
+    expect(body.error.message).toMatch(/for this session, retry in 2s/)
+    expect(headers.get('retry-after')).toBe('2')
+  })
+
+  test('limits an address across sessions', async () => {
+    const limiter = createRateLimiter(limits)
+    const sessions = Array.from({ length: 6 }, (_, i) => `00000000-0000-4000-8000-00000000000${i}`)
+
+    const statuses = []
+    for (const sessionId of sessions) {
+      statuses.push((await call('predict', input(sessionId), limiter)).status)
+    }
+    expect(statuses).toEqual([200, 200, 200, 200, 200, 429])
+  })
+
+  test('charges a batch one token per image', async () => {
+    const limiter = createRateLimiter(limits)
+    const batch = { images: [fixtureUrl('one.png'), fixtureUrl('zero.png')], sessionId: SESSION_ID }
+
+    expect((await call('predictBatch', batch, limiter)).status).toBe(200)
+    expect((await call('predict', input(SESSION_ID), limiter)).status).toBe(429)
+  })
+
+  test('leaves successful responses without a Retry-After header', async () => {
+    const { headers } = await call('predict', input(SESSION_ID), createRateLimiter(limits))
+    expect(headers.get('retry-after')).toBeNull()
+  })
+})
+
+describe('saturated inference workers', () => {
+  beforeAll(async () => {
+    // Dispatch waits longer than work may queue, so every request times out
+    await loadInferenceModel(TINY_MODEL, {
+      ...DEFAULT_INFERENCE_POOL,
+      workers: 1,
+      batchWindowMs: 1000,
+      queueTimeoutMs: 10,
+    })
+    clearPredictionCache() // Cached predictions never reach the workers
+  }, 60_000)
+
+  afterAll(async () => {
+    await unloadInferenceModel()
+  })
+
+  test('fail with TIMEOUT instead of a generic server error', async () => {
+    const { status, body } = await predict(fixtureUrl('zero.png'))
+
+    expect(status).toBe(408)
+    expect(body.error.data.code).toBe('TIMEOUT')
+    expect(body.error.message).toMatch(/Inference workers are saturated/)
+  })
+
+  test('fail a batch as a whole', async () => {
+    const { status } = await predictBatch([fixtureUrl('one.png'), fixtureUrl('zero.png')])
+    expect(status).toBe(408)
+  })
+})
+
+describe('request IDs and logging', () => {
+  const lines: Record<string, any>[] = []
+  const logger = createLogger({ write: (line) => lines.push(JSON.parse(line)) })
+
+  beforeAll(async () => {
+    await loadInferenceModel(TINY_MODEL)
+  })
+
+  afterAll(async () => {
+    await unloadInferenceModel()
+  })
+
+  test('returns a generated request ID and logs the call under it', async () => {
+    lines.length = 0
+    const { headers } = await call('predict', { imageData: fixtureUrl('one.png'), sessionId: SESSION_ID }, null, {
+      logger,
+    })
+    const requestId = headers.get('x-request-id')
+
+    expect(requestId).toMatch(/^[0-9a-f-]{36}$/)
+    expect(lines).toEqual([
+      expect.objectContaining({
+        level: 'info',
+        requestId,
+        procedure: 'predict',
+        sessionId: SESSION_ID,
+        outcome: 'ok',
+        status: 200,
+        durationMs: expect.any(Number),
+      }),
+    ])
+  })
+
+  test("propagates the caller's request ID, also into error data", async () => {
+    const { headers, body } = await call(
+      'predict',
+      { imageData: 'data:image/png;base64,ABC==', sessionId: SESSION_ID },
+      null,
+      { headers: { 'x-request-id': 'upstream-42' } }
+    )
+
+    expect(headers.get('x-request-id')).toBe('upstream-42')
+    expect(body.error.data.requestId).toBe('upstream-42')
+  })
+
+  test('replaces request IDs that are unsafe to log', async () => {
+    const { headers } = await call('predict', { imageData: fixtureUrl('one.png'), sessionId: SESSION_ID }, null, {
+      headers: { 'x-request-id': 'a b\u0007' },
+    })
+    expect(headers.get('x-request-id')).toMatch(/^[0-9a-f-]{36}$/)
+  })
+
+  test('logs rejected input as a warning with its reason', async () => {
+    lines.length = 0
+    await call('predict', { imageData: 'data:image/png;base64,ABC==', sessionId: SESSION_ID }, null, { logger })
+
+    expect(lines).toEqual([
+      expect.objectContaining({
+        level: 'warn',
+        outcome: 'error',
+        status: 400,
+        code: 'BAD_REQUEST',
+        cause: expect.objectContaining({ name: 'PngValidationError', reason: 'NOT_PNG' }),
+      }),
+    ])
+  })
+
+  test('logs the cause behind a generic server error', async () => {
+    const dir = mkdtempSync(join(tmpdir(), 'feedback-broken-'))
+    writeFileSync(join(dir, 'not-a-dir'), '')
+    openFeedbackStore(join(dir, 'not-a-dir', 'feedback.jsonl'))
+    lines.length = 0
+
+    try {
+      const { status, body } = await call(
+        'submitFeedback',
+        { sessionId: SESSION_ID, imageData: fixtureUrl('one.png'), predictedDigit: 7, trueLabel: 1 },
+        null,
+        { logger }
+      )
+
+      expect(status).toBe(500)
+      expect(body.error.message).toBe('Failed to store feedback')
+      expect(lines).toEqual([
+        expect.objectContaining({
+          level: 'error',
+          status: 500,
+          message: 'Failed to store feedback',
+          cause: expect.objectContaining({ code: 'ENOTDIR', stack: expect.any(String) }),
+        }),
+      ])
+    } finally {
+      closeFeedbackStore()
+      rmSync(dir, { recursive: true, force: true })
+    }
+  })
+})
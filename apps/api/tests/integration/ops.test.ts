@@ -0,0 +1,104 @@
+import { afterAll, beforeAll, describe, expect, test } from 'vitest'
+import { readFileSync } from 'node:fs'
+import { createServer } from 'node:http'
+import type { AddressInfo } from 'node:net'
+import { fileURLToPath } from 'node:url'
+import { createHTTPHandler } from '@trpc/server/adapters/standalone'
+import { createContextFactory } from '../../src/context'
+import { createLogger } from '../../src/logger'
+import { handleOpsRequest } from '../../src/ops'
+import { mlRouter } from '../../src/routers/ml.router'
+import { loadInferenceModel, unloadInferenceModel } from '../../src/services/inference.service'
+import { resetMetrics } from '../../src/services/metrics.service'
+import { toDataUrl } from '../helpers/png'
+
+const TINY_MODEL = fileURLToPath(new URL('../fixtures/model/tiny-cnn', import.meta.url))
+const SESSION_ID = '123e4567-e89b-12d3-a456-426614174000'
+const fixtureUrl = (name: string) => toDataUrl(readFileSync(new URL(`../fixtures/${name}`, import.meta.url)))
+
+describe('ops endpoints', () => {
+  const trpcHandler = createHTTPHandler({ router: mlRouter, createContext: createContextFactory(null, createLogger({ write: () => {} })) })
+  const server = createServer((req, res) => {
+    if (!handleOpsRequest(req, res)) void trpcHandler(req, res)
+  })
+  let baseUrl: string
+
+  beforeAll(async () => {
+    await new Promise<void>((resolve) => server.listen(0, resolve))
+    baseUrl = `http://localhost:${(server.address() as AddressInfo).port}`
+    resetMetrics()
+  })
+
+  afterAll(async () => {
+    await new Promise((resolve) => server.close(resolve))
+    await unloadInferenceModel()
+  })
+
+  const post = (procedure: string, input: unknown) =>
+    fetch(`${baseUrl}/${procedure}`, {
+      method: 'POST',
+      headers: { 'content-type': 'application/json' },
+      body: JSON.stringify(input),
+    })
+
+  test('/healthz is always ok', async () => {
+    const response = await fetch(`${baseUrl}/healthz`)
+    expect(response.status).toBe(200)
+    expect(await response.json()).toEqual({ status: 'ok' })
+  })
+
+  test('/readyz waits for the model', async () => {
+    expect((await fetch(`${baseUrl}/readyz`)).status).toBe(503)
+
+    await loadInferenceModel(TINY_MODEL)
+    const response = await fetch(`${baseUrl}/readyz`)
+    expect(response.status).toBe(200)
+    expect(await response.json()).toMatchObject({ status: 'ready', model: { path: TINY_MODEL } })
+  })
+
+  test('/metrics records calls made through the router', async () => {
+    await loadInferenceModel(TINY_MODEL)
+    await post('predict', { imageData: fixtureUrl('one.png'), sessionId: SESSION_ID })
+    await post('predict', { imageData: 'data:image/png;base64,ABC==', sessionId: SESSION_ID })
+    await post('predictBatch', {
+      images: [fixtureUrl('one.png'), fixtureUrl('zero.png'), fixtureUrl('blank.png')],
+      sessionId: SESSION_ID,
+    })
+    await post('predictNumber', { imageData: fixtureUrl('blank.png'), sessionId: SESSION_ID })
+
+    const response = await fetch(`${baseUrl}/metrics`)
+    expect(response.headers.get('content-type')).toMatch(/^text\/plain; version=0\.0\.4/)
+    const text = await response.text()
+
+    expect(text).toContain('mnist_api_requests_total{procedure="predict",status="200"} 1\n')
+    expect(text).toContain('mnist_api_requests_total{procedure="predict",status="400"} 1\n')
+    expect(text).toContain('mnist_api_requests_total{procedure="predictBatch",status="200"} 1\n')
+    expect(text).toContain('mnist_api_prediction_request_duration_seconds_count{procedure="predict"} 2\n')
+    expect(text).toContain('mnist_api_predicted_digits_total{digit="1"} 2\n')
+    expect(text).toContain('mnist_api_predicted_digits_total{digit="0"} 1\n')
+    expect(text).toContain('mnist_api_rejected_predictions_total{reason="EMPTY"} 2\n')
+    expect(text).toContain('mnist_api_prediction_request_duration_seconds_count{procedure="predictNumber"} 1\n')
+    // Once per call that ran the model: the blank number has no digits to run
+    expect(text).toContain('mnist_api_inference_duration_seconds_count{procedure="predict"} 1\n')
+    expect(text).toContain('mnist_api_inference_duration_seconds_count{procedure="predictBatch"} 1\n')
+    expect(text).not.toContain('mnist_api_inference_duration_seconds_count{procedure="predictNumber"}')
+    expect(text).toContain('mnist_api_prediction_cache_lookups_total{result="miss"} 1\n')
+    expect(text).toContain('mnist_api_prediction_cache_entries 1\n')
+    expect(text).toMatch(/^mnist_api_model_info\{version="[0-9a-f]{12}",created_at="[^"]+"\} 1$/m)
+  })
+
+  test('/metrics leaves cache hits out of the inference duration', async () => {
+    resetMetrics()
+    // Cached by the previous test
+    await post('predict', { imageData: fixtureUrl('one.png'), sessionId: SESSION_ID })
+
+    const text = await (await fetch(`${baseUrl}/metrics`)).text()
+    expect(text).toContain('mnist_api_prediction_cache_lookups_total{result="hit"} 1\n')
+    expect(text).toContain('mnist_api_prediction_request_duration_seconds_count{procedure="predict"} 1\n')
+    expect(text).not.toContain('mnist_api_inference_duration_seconds_count')
+  })
+
+  test('leaves other paths to tRPC', async () => {
+    expect((await fetch(`${baseUrl}/unknownProcedure`)).status).toBe(404)
+  })
+})
@@ -0,0 +1,204 @@
+import { afterAll, beforeAll, describe, expect, test } from 'vitest'
+import { readFileSync } from 'node:fs'
+import type { AddressInfo } from 'node:net'
+import { fileURLToPath } from 'node:url'
+import { createTRPCProxyClient, createWSClient, wsLink } from '@trpc/client'
+import { createHTTPServer } from '@trpc/server/adapters/standalone'
+import { applyWSSHandler } from '@trpc/server/adapters/ws'
+import { WebSocket, WebSocketServer } from 'ws'
+import { createContextFactory } from '../../src/context'
+import { createLogger } from '../../src/logger'
+import { createRateLimiter, type RateLimiter } from '../../src/middleware/rate-limit'
+import { mlRouter, type AppRouter } from '../../src/routers/ml.router'
+import { loadInferenceModel, unloadInferenceModel } from '../../src/services/inference.service'
+import type { StreamEvent } from '../../src/services/stream.service'
+import { toDataUrl } from '../helpers/png'
+
+const TINY_MODEL = fileURLToPath(new URL('../fixtures/model/tiny-cnn', import.meta.url))
+const SESSION_ID = '123e4567-e89b-12d3-a456-426614174000'
+const fixtureUrl = (name: string) => toDataUrl(readFileSync(new URL(`../fixtures/${name}`, import.meta.url)))
+
+/**
+ * tRPC over WebSocket on a free port, with a client connected to it and a way
+ * to open more connections
+ */
+async function startServer(rateLimiter: RateLimiter | null) {
+  const createContext = createContextFactory(rateLimiter, createLogger({ write: () => {} }))
+  const { server } = createHTTPServer({ router: mlRouter, createContext })
+  const wss = new WebSocketServer({ server })
+  applyWSSHandler({ wss, router: mlRouter, createContext })
+  await new Promise<void>((resolve) => server.listen(0, resolve))
+  const { port } = server.address() as AddressInfo
+
+  const wsClients: ReturnType<typeof createWSClient>[] = []
+  const connect = () => {
+    const wsClient = createWSClient({
+      url: `ws://localhost:${port}`,
+      WebSocket: WebSocket as unknown as typeof globalThis.WebSocket,
+    })
+    wsClients.push(wsClient)
+    return createTRPCProxyClient<AppRouter>({ links: [wsLink({ client: wsClient })] })
+  }
+  const client = connect()
+  const close = async () => {
+    wsClients.forEach((wsClient) => wsClient.close())
+    wss.close()
+    await new Promise((resolve) => server.close(resolve))
+  }
+  return { client, connect, close }
+}
+
+describe('live prediction stream', () => {
+  let client: Awaited<ReturnType<typeof startServer>>['client']
+  let connect: Awaited<ReturnType<typeof startServer>>['connect']
+  let close: () => Promise<void>
+
+  beforeAll(async () => {
+    await loadInferenceModel(TINY_MODEL)
+    ;({ client, connect, close } = await startServer(null))
+  })
+
+  afterAll(async () => {
+    await close()
+    await unloadInferenceModel()
+  })
+
+  /**
+   * Subscribe and collect events until `count` have arrived
+   */
+  function subscribe(sessionId: string, count: number) {
+    const events: StreamEvent[] = []
+    let started!: () => void
+    const ready = new Promise<void>((resolve) => (started = resolve))
+    const done = new Promise<StreamEvent[]>((resolve, reject) => {
+      const subscription = client.predictionStream.subscribe(
+        { sessionId },
+        {
+          onStarted: () => started(),
+          onData: (event) => {
+            events.push(event)
+            if (events.length === count) {
+              subscription.unsubscribe()
+              resolve(events)
+            }
+          },
+          onError: reject,
+        }
+      )
+    })
+    return { ready, done }
+  }
+
+  test('streams a prediction for each pushed frame', async () => {
+    const { ready, done } = subscribe(SESSION_ID, 1)
+    await ready
+
+    const pushed = client.streamFrame.mutate({ sessionId: SESSION_ID, imageData: fixtureUrl('one.png') })
+    await expect(pushed).resolves.toEqual({ frame: 1 })
+
+    const [event] = await done
+    expect(event).toMatchObject({
+      frame: 1,
+      ok: true,
+      droppedFrames: 0,
+      prediction: { predictedDigit: 1 },
+    })
+  })
+
+  test('coalesces frames pushed faster than the model runs', async () => {
+    const { ready, done } = subscribe(SESSION_ID, 2)
+    await ready
+
+    const frames = ['one.png', 'one.png', 'one.png', 'zero.png'].map((name) =>
+      client.streamFrame.mutate({ sessionId: SESSION_ID, imageData: fixtureUrl(name) })
+    )
+    await Promise.all(frames)
+
+    const events = await done
+    const last = events[events.length - 1]
+    expect(last).toMatchObject({ frame: 4, ok: true, prediction: { predictedDigit: 0 } })
+    const dropped = events.reduce((sum, event) => sum + (event.ok ? event.droppedFrames : 0), 0)
+    expect(dropped).toBe(4 - events.length)
+  })
+
+  test('rejects frames for a session without a stream', async () => {
+    await expect(
+      client.streamFrame.mutate({
+        sessionId: '00000000-0000-4000-8000-000000000000',
+        imageData: fixtureUrl('one.png'),
+      })
+    ).rejects.toMatchObject({ data: { code: 'PRECONDITION_FAILED' } })
+  })
+
+  test('keeps a stream to the connection that opened it', async () => {
+    const { ready, done } = subscribe(SESSION_ID, 1)
+    await ready
+    const other = connect()
+
+    await expect(
+      new Promise((resolve, reject) => {
+        other.predictionStream.subscribe({ sessionId: SESSION_ID }, { onStarted: () => resolve(null), onError: reject })
+      })
+    ).rejects.toMatchObject({ data: { code: 'CONFLICT' } })
+    await expect(
+      other.streamFrame.mutate({ sessionId: SESSION_ID, imageData: fixtureUrl('zero.png') })
+    ).rejects.toMatchObject({ data: { code: 'PRECONDITION_FAILED' } })
+
+    // The owner's stream carries on undisturbed
+    await expect(
+      client.streamFrame.mutate({ sessionId: SESSION_ID, imageData: fixtureUrl('one.png') })
+    ).resolves.toEqual({ frame: 1 })
+    expect(await done).toMatchObject([{ frame: 1, ok: true, prediction: { predictedDigit: 1 } }])
+  })
+
+  test('applies the PNG gate to frames', async () => {
+    const { ready } = subscribe(SESSION_ID, 1)
+    await ready
+
+    await expect(
+      client.streamFrame.mutate({ sessionId: SESSION_ID, imageData: 'data:image/png;base64,ABC==' })
+    ).rejects.toMatchObject({ data: { code: 'BAD_REQUEST', reason: 'NOT_PNG' } })
+  })
+})
+
+describe('rate-limited prediction stream', () => {
+  let client: Awaited<ReturnType<typeof startServer>>['client']
+  let close: () => Promise<void>
+
+  beforeAll(async () => {
+    await loadInferenceModel(TINY_MODEL)
+    const limits = { session: { capacity: 3, refillPerSecond: 0.001 }, ip: { capacity: 100, refillPerSecond: 1 } }
+    ;({ client, close } = await startServer(createRateLimiter(limits)))
+  })
+
+  afterAll(async () => {
+    await close()
+    await unloadInferenceModel()
+  })
+
+  test('charges opening the stream and every frame', async () => {
+    const subscription = await new Promise<{ unsubscribe: () => void }>((resolve, reject) => {
+      const opened = client.predictionStream.subscribe(
+        { sessionId: SESSION_ID },
+        { onStarted: () => resolve(opened), onError: reject }
+      )
+    })
+
+    const push = () => client.streamFrame.mutate({ sessionId: SESSION_ID, imageData: fixtureUrl('one.png') })
+    const results = await Promise.allSettled(Array.from({ length: 10 }, push))
+    subscription.unsubscribe()
+
+    expect(results.filter((result) => result.status === 'fulfilled')).toHaveLength(2)
+    expect(results.find((result) => result.status === 'rejected')).toMatchObject({
+      reason: { data: { code: 'TOO_MANY_REQUESTS', retryAfterMs: expect.any(Number) } },
+    })
+  })
+
+  test('refuses to open a stream once the session is out of tokens', async () => {
+    await expect(
+      new Promise((resolve, reject) => {
+        client.predictionStream.subscribe({ sessionId: SESSION_ID }, { onStarted: () => resolve(null), onError: reject })
+      })
+    ).rejects.toMatchObject({ data: { code: 'TOO_MANY_REQUESTS' } })
+  })
+})
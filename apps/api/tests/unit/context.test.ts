@@ -0,0 +1,37 @@
+import { describe, expect, test } from 'vitest'
+import { resolveRemoteAddress, trustedProxiesFromEnv } from '../../src/context'
+
+describe('resolveRemoteAddress', () => {
+  const proxies = new Set(['10.0.0.1', '10.0.0.2'])
+
+  test('uses the socket peer without trusted proxies', () => {
+    expect(resolveRemoteAddress('203.0.113.7', '198.51.100.1', new Set())).toBe('203.0.113.7')
+    expect(resolveRemoteAddress(undefined, undefined, new Set())).toBe('unknown')
+  })
+
+  test('ignores x-forwarded-for from an untrusted peer', () => {
+    expect(resolveRemoteAddress('203.0.113.7', '198.51.100.1', proxies)).toBe('203.0.113.7')
+  })
+
+  test('reads the client behind trusted hops, right to left', () => {
+    expect(resolveRemoteAddress('10.0.0.1', '198.51.100.1', proxies)).toBe('198.51.100.1')
+    // A spoofed entry on the left is not reached
+    expect(resolveRemoteAddress('::ffff:10.0.0.1', '6.6.6.6, 198.51.100.1, 10.0.0.2', proxies)).toBe(
+      '198.51.100.1'
+    )
+    expect(resolveRemoteAddress('10.0.0.1', ['6.6.6.6', '198.51.100.2'], proxies)).toBe('198.51.100.2')
+  })
+
+  test('falls back to the proxy when it forwarded nothing', () => {
+    expect(resolveRemoteAddress('10.0.0.1', undefined, proxies)).toBe('10.0.0.1')
+  })
+})
+
+describe('trustedProxiesFromEnv', () => {
+  test('reads a comma-separated list', () => {
+    expect(trustedProxiesFromEnv({})).toEqual(new Set())
+    expect(trustedProxiesFromEnv({ TRUSTED_PROXIES: '10.0.0.1, ::ffff:10.0.0.2,' })).toEqual(
+      new Set(['10.0.0.1', '10.0.0.2'])
+    )
+  })
+})
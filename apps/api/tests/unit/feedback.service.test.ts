@@ -0,0 +1,132 @@
+import { afterEach, beforeEach, describe, expect, test } from 'vitest'
+import { appendFile, mkdtemp, readFile, rm } from 'node:fs/promises'
+import { tmpdir } from 'node:os'
+import { join } from 'node:path'
+import { parseIdx } from '@repo/ml-core'
+import { createFeedbackStore, exportFeedback } from '../../src/services/feedback.service'
+
+const fixture = (name: string) => readFile(new URL(`../fixtures/${name}`, import.meta.url))
+const SESSION_ID = '123e4567-e89b-12d3-a456-426614174000'
+
+async function correction(name: string, predictedDigit: number, trueLabel: number) {
+  return { sessionId: SESSION_ID, imageBuffer: await fixture(name), predictedDigit, trueLabel }
+}
+
+describe('feedback store', () => {
+  let dir: string
+  let storePath: string
+
+  beforeEach(async () => {
+    dir = await mkdtemp(join(tmpdir(), 'feedback-'))
+    storePath = join(dir, 'nested', 'feedback.jsonl')
+  })
+
+  afterEach(async () => {
+    await rm(dir, { recursive: true, force: true })
+  })
+
+  test('appends one JSON line per correction', async () => {
+    const store = createFeedbackStore(storePath)
+    const imageBuffer = await fixture('one.png')
+
+    const result = await store.submit(await correction('one.png', 7, 1))
+
+    expect(result).toEqual({ imageHash: expect.stringMatching(/^[0-9a-f]{64}$/), duplicate: false })
+    const lines = (await readFile(storePath, 'utf8')).trim().split('\n')
+    expect(lines).toHaveLength(1)
+    expect(JSON.parse(lines[0])).toEqual({
+      imageHash: result.imageHash,
+      sessionId: SESSION_ID,
+      predictedDigit: 7,
+      trueLabel: 1,
+      imageData: imageBuffer.toString('base64'),
+      createdAt: expect.any(String),
+    })
+  })
+
+  test('deduplicates by image hash', async () => {
+    const store = createFeedbackStore(storePath)
+
+    const first = await store.submit(await correction('one.png', 7, 1))
+    const second = await store.submit(await correction('one.png', 7, 4))
+
+    expect(second).toEqual({ imageHash: first.imageHash, duplicate: true })
+    expect(await store.readAll()).toMatchObject([{ trueLabel: 1 }])
+  })
+
+  test('stores concurrent submissions of the same image once', async () => {
+    const store = createFeedbackStore(storePath)
+    const submission = await correction('zero.png', 6, 0)
+
+    const results = await Promise.all(Array.from({ length: 5 }, () => store.submit(submission)))
+
+    expect(results.filter((result) => !result.duplicate)).toHaveLength(1)
+    expect(await store.readAll()).toHaveLength(1)
+  })
+
+  test('remembers stored images across restarts', async () => {
+    await createFeedbackStore(storePath).submit(await correction('zero.png', 6, 0))
+
+    const reopened = createFeedbackStore(storePath)
+    const result = await reopened.submit(await correction('zero.png', 6, 0))
+
+    expect(result.duplicate).toBe(true)
+  })
+
+  test('reads an empty store when the file does not exist yet', async () => {
+    await expect(createFeedbackStore(storePath).readAll()).resolves.toEqual([])
+  })
+
+  test('skips a torn last line', async () => {
+    const store = createFeedbackStore(storePath)
+    await store.submit(await correction('one.png', 7, 1))
+    await appendFile(storePath, '{"imageHash":"abc","sessi')
+
+    expect(await store.readAll()).toHaveLength(1)
+  })
+})
+
+describe('exportFeedback', () => {
+  let dir: string
+
+  beforeEach(async () => {
+    dir = await mkdtemp(join(tmpdir(), 'feedback-export-'))
+  })
+
+  afterEach(async () => {
+    await rm(dir, { recursive: true, force: true })
+  })
+
+  async function storedCorrections() {
+    const store = createFeedbackStore(join(dir, 'feedback.jsonl'))
+    await store.submit(await correction('one.png', 7, 1))
+    await store.submit(await correction('zero.png', 6, 0))
+    return store.readAll()
+  }
+
+  test('writes an MNIST-style IDX pair with the true labels', async () => {
+    const files = await exportFeedback(await storedCorrections(), join(dir, 'dataset'), 'idx')
+
+    expect(files).toEqual([
+      join(dir, 'dataset', 'train-images-idx3-ubyte'),
+      join(dir, 'dataset', 'train-labels-idx1-ubyte'),
+    ])
+    const images = parseIdx(await readFile(files[0]))
+    const labels = parseIdx(await readFile(files[1]))
+    expect(images.shape).toEqual([2, 28, 28])
+    expect(Math.max(...images.data)).toBe(255)
+    expect(Array.from(labels.data)).toEqual([1, 0])
+  })
+
+  test('writes JSONL with preprocessed pixels', async () => {
+    const records = await storedCorrections()
+    const [file] = await exportFeedback(records, join(dir, 'dataset'), 'jsonl')
+
+    const lines = (await readFile(file, 'utf8')).trim().split('\n').map((line) => JSON.parse(line))
+    expect(lines.map((line) => line.label)).toEqual([1, 0])
+    expect(lines[0].imageHash).toBe(records[0].imageHash)
+    expect(lines[0].pixels).toHaveLength(784)
+    const isByte = (value: number) => Number.isInteger(value) && value >= 0 && value <= 255
+    expect(lines[0].pixels.every(isByte)).toBe(true)
+  })
+})
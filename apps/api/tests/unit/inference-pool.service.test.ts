@@ -0,0 +1,136 @@
+import { afterAll, beforeAll, describe, expect, test, vi } from 'vitest'
+import { fileURLToPath } from 'node:url'
+import { loadModel, predictBatch, preprocessDigit, type DigitPrediction, type GrayscaleImage } from '@repo/ml-core'
+import {
+  createInferencePool,
+  DEFAULT_INFERENCE_POOL,
+  inferencePoolConfigFromEnv,
+  InferencePoolError,
+  type InferencePool,
+} from '../../src/services/inference-pool.service'
+import { blankCanvas, drawLine, drawRing } from '../helpers/drawing'
+
+const TINY_MODEL = fileURLToPath(new URL('../fixtures/model/tiny-cnn', import.meta.url))
+
+const one = preprocessDigit(drawLine(blankCanvas(), [140, 50], [140, 230], 14))
+const zero = preprocessDigit(drawRing(blankCanvas(), [140, 140], [60, 90], 14))
+
+// Worker threads load tfjs and the model through tsx, which takes a moment
+const STARTUP_TIMEOUT = 60_000
+
+describe('createInferencePool', () => {
+  let pool: InferencePool
+
+  beforeAll(async () => {
+    pool = await createInferencePool(TINY_MODEL, {
+      ...DEFAULT_INFERENCE_POOL,
+      workers: 1,
+      maxQueuedImages: 8,
+      batchWindowMs: 20,
+    })
+  }, STARTUP_TIMEOUT)
+
+  afterAll(async () => {
+    await pool?.close()
+  })
+
+  test('matches main-thread predictions', async () => {
+    const model = await loadModel(TINY_MODEL)
+    const expected = await predictBatch(model, [one, zero])
+    model.dispose()
+
+    const withoutTiming = (predictions: DigitPrediction[]) =>
+      predictions.map(({ digit, probabilities }) => ({ digit, probabilities }))
+    expect(withoutTiming(await pool.predict([one, zero]))).toEqual(withoutTiming(expected))
+  })
+
+  test('micro-batches requests that arrive together', async () => {
+    const before = pool.stats().batches
+    const results = await Promise.all([pool.predict([one]), pool.predict([zero]), pool.predict([one, zero])])
+
+    expect(pool.stats().batches - before).toBe(1)
+    expect(results.map((predictions) => predictions.map(({ digit }) => digit))).toEqual([[1], [0], [1, 0]])
+  })
+
+  test('refuses work beyond the queue bound', async () => {
+    const images: GrayscaleImage[] = Array(9).fill(one)
+    await expect(pool.predict(images)).rejects.toMatchObject({ reason: 'QUEUE_FULL' })
+    expect(pool.stats().queuedImages).toBe(0)
+  })
+
+  test('resolves an empty request without a worker', async () => {
+    await expect(pool.predict([])).resolves.toEqual([])
+  })
+})
+
+describe('createInferencePool saturation', () => {
+  test(
+    'fails queued work that waits too long, and everything once closed',
+    async () => {
+      const pool = await createInferencePool(TINY_MODEL, {
+        ...DEFAULT_INFERENCE_POOL,
+        workers: 1,
+        batchWindowMs: 1000, // Longer than the timeout, so nothing is dispatched in time
+        queueTimeoutMs: 10,
+      })
+
+      const error = await pool.predict([one]).catch((caught: unknown) => caught)
+      expect(error).toBeInstanceOf(InferencePoolError)
+      expect(error).toMatchObject({ reason: 'QUEUE_TIMEOUT', message: /no worker was free within 10ms/ })
+      expect(pool.stats()).toMatchObject({ queuedImages: 0, batches: 0 })
+
+      await pool.close()
+      await expect(pool.predict([one])).rejects.toMatchObject({ reason: 'CLOSED' })
+    },
+    STARTUP_TIMEOUT
+  )
+
+  test(
+    'fails a batch the worker does not finish in time and replaces the worker',
+    async () => {
+      // A deadline far shorter than a 64-image forward pass stands in for a hung worker
+      const pool = await createInferencePool(TINY_MODEL, {
+        ...DEFAULT_INFERENCE_POOL,
+        workers: 1,
+        batchTimeoutMs: 1,
+      })
+
+      const error = await pool.predict(Array(64).fill(one)).catch((caught: unknown) => caught)
+      expect(error).toBeInstanceOf(InferencePoolError)
+      expect(error).toMatchObject({ reason: 'TIMEOUT', message: /did not finish a batch within 1ms/ })
+      expect(pool.stats()).toMatchObject({ workers: 0, busyWorkers: 0 })
+
+      await vi.waitFor(() => expect(pool.stats().workers).toBe(1), { timeout: STARTUP_TIMEOUT, interval: 50 })
+      await pool.close()
+    },
+    STARTUP_TIMEOUT
+  )
+
+  test(
+    'fails to start when a worker cannot load the model',
+    async () => {
+      await expect(
+        createInferencePool('/nonexistent/mnist-cnn', { ...DEFAULT_INFERENCE_POOL, workers: 1 })
+      ).rejects.toThrow(/not found/)
+    },
+    STARTUP_TIMEOUT
+  )
+})
+
+describe('inferencePoolConfigFromEnv', () => {
+  test('reads settings and allows 0 workers', () => {
+    expect(
+      inferencePoolConfigFromEnv({
+        INFERENCE_WORKERS: '0',
+        INFERENCE_QUEUE_TIMEOUT_MS: '250',
+        INFERENCE_BATCH_TIMEOUT_MS: '1000',
+      })
+    ).toEqual({
+      ...DEFAULT_INFERENCE_POOL,
+      workers: 0,
+      queueTimeoutMs: 250,
+      batchTimeoutMs: 1000,
+    })
+    expect(() => inferencePoolConfigFromEnv({ INFERENCE_MAX_BATCH_SIZE: '0' })).toThrow(/at least 1/)
+  })
+})
@@ -0,0 +1,432 @@
+import { afterAll, beforeAll, describe, expect, test } from 'vitest'
+import { copyFileSync, mkdtempSync, readdirSync, readFileSync, rmSync } from 'node:fs'
+import { tmpdir } from 'node:os'
+import { dirname, join } from 'node:path'
+import { fileURLToPath } from 'node:url'
+import { DEFAULT_ABSTAIN_THRESHOLDS, updateModelMetadata, type ModelMetadataUpdate } from '@repo/ml-core'
+import { DEFAULT_INFERENCE_POOL } from '../../src/services/inference-pool.service'
+import {
+  clearPredictionCache,
+  ensembleConfigFromEnv,
+  getInferencePoolStats,
+  getModelInfo,
+  getPredictionCacheStats,
+  inferDigit,
+  inferDigitBatch,
+  inferNumber,
+  loadInferenceModel,
+  MAX_NUMBER_DIGITS,
+  unloadInferenceModel,
+} from '../../src/services/inference.service'
+import { blankCanvas, drawLine, drawRing, type Canvas } from '../helpers/drawing'
+import { encodePng, grayscaleToPng } from '../helpers/png'
+
+const fixture = (name: string) => readFileSync(new URL(`../fixtures/${name}`, import.meta.url))
+const TINY_MODEL = fileURLToPath(new URL('../fixtures/model/tiny-cnn', import.meta.url))
+
+describe('inferDigit', () => {
+  beforeAll(async () => {
+    await loadInferenceModel(TINY_MODEL)
+  })
+
+  afterAll(async () => {
+    await unloadInferenceModel()
+  })
+
+  test('recognises a drawn 1', async () => {
+    const result = await inferDigit(fixture('one.png'))
+    expect(result.predictedDigit).toBe(1)
+    expect(result.confidence).toBeGreaterThan(0.5)
+  })
+
+  test('recognises a drawn 0', async () => {
+    const result = await inferDigit(fixture('zero.png'))
+    expect(result.predictedDigit).toBe(0)
+    expect(result.confidence).toBeGreaterThan(0.5)
+  })
+
+  test('keeps the PredictionResult shape', async () => {
+    const result = await inferDigit(fixture('one.png'))
+    expect(Object.keys(result).sort()).toEqual([
+      'allProbabilities',
+      'cached',
+      'confidence',
+      'inferenceTimeMs',
+      'predictedDigit',
+    ])
+    expect(result.allProbabilities).toHaveLength(10)
+    expect(result.allProbabilities.reduce((sum, p) => sum + p, 0)).toBeCloseTo(1, 5)
+    expect(result.confidence).toBe(result.allProbabilities[result.predictedDigit])
+    expect(Number.isInteger(result.inferenceTimeMs)).toBe(true)
+  })
+
+  test('is deterministic', async () => {
+    const first = await inferDigit(fixture('zero.png'))
+    clearPredictionCache()
+    const second = await inferDigit(fixture('zero.png'))
+    expect(second.cached).toBe(false)
+    expect(second.allProbabilities).toEqual(first.allProbabilities)
+  })
+
+  test('serves a resubmitted drawing from the cache', async () => {
+    clearPredictionCache()
+    const first = await inferDigit(fixture('one.png'))
+    const second = await inferDigit(fixture('one.png'))
+
+    expect(first.cached).toBe(false)
+    expect(second).toMatchObject({ ...first, cached: true, inferenceTimeMs: expect.any(Number) })
+    expect(getPredictionCacheStats()).toEqual({ hits: 1, misses: 1, entries: 1 })
+  })
+
+  test('caches by preprocessed digit, not PNG bytes', async () => {
+    clearPredictionCache()
+    const stroke = (x: number) => drawLine(blankCanvas(), [x, 60], [x, 220], 12)
+    const toPng = ({ data, width, height }: Canvas) => grayscaleToPng(data, width, height)
+
+    await inferDigit(toPng(stroke(100)))
+    const moved = await inferDigit(toPng(stroke(180)))
+
+    expect(moved.cached).toBe(true)
+  })
+
+  test('treats transparent pixels as background', async () => {
+    const opaque = await inferDigit(fixture('one.png'))
+
+    // Same drawing with white ink on a fully transparent (white) background
+    const decoded = readFileSync(new URL('../fixtures/one.png', import.meta.url))
+    const { decodePng } = await import('../../src/services/png.service')
+    const pixels = decodePng(decoded).data.slice()
+    for (let i = 0; i < pixels.length; i += 4) {
+      if (pixels[i] === 0) pixels.set([255, 255, 255, 0], i)
+    }
+    const transparent = await inferDigit(encodePng({ width: 280, height: 280, pixels }))
+
+    expect(transparent.predictedDigit).toBe(opaque.predictedDigit)
+    expect(transparent.allProbabilities[1]).toBeCloseTo(opaque.allProbabilities[1], 5)
+  })
+
+  test('averages over augmented copies in tta mode', async () => {
+    clearPredictionCache()
+    const single = await inferDigit(fixture('one.png'))
+    const tta = await inferDigit(fixture('one.png'), { mode: 'tta' })
+
+    expect(tta).toMatchObject({ predictedDigit: 1, cached: false })
+    expect(tta.confidence).toBe(tta.allProbabilities[1])
+    expect(tta.allProbabilities.reduce((sum, p) => sum + p, 0)).toBeCloseTo(1, 5)
+    expect(tta.allProbabilities).not.toEqual(single.allProbabilities)
+  })
+
+  test('caches tta predictions apart from single ones', async () => {
+    clearPredictionCache()
+    await inferDigit(fixture('zero.png'))
+    const tta = await inferDigit(fixture('zero.png'), { mode: 'tta' })
+    const again = await inferDigit(fixture('zero.png'), { mode: 'tta' })
+
+    expect(tta.cached).toBe(false)
+    expect(again).toMatchObject({ ...tta, cached: true, inferenceTimeMs: expect.any(Number) })
+    expect(getPredictionCacheStats()).toEqual({ hits: 1, misses: 2, entries: 2 })
+  })
+
+  test('reports a recognised digit without a rejection', async () => {
+    const result = await inferDigit(fixture('one.png'))
+    expect(result.rejected).toBeUndefined()
+  })
+
+  test('rejects a blank canvas as EMPTY', async () => {
+    const result = await inferDigit(fixture('blank.png'))
+    expect(result.rejected).toBe('EMPTY')
+    expect(result.allProbabilities).toHaveLength(10)
+  })
+
+  test('rejects a speck as TOO_SMALL', async () => {
+    const toPng = ({ data, width, height }: Canvas) => grayscaleToPng(data, width, height)
+    const large = await inferDigit(toPng(drawLine(blankCanvas(), [140, 40], [140, 240], 12)))
+    const speck = await inferDigit(toPng(drawLine(blankCanvas(), [140, 130], [140, 136], 2)))
+
+    expect(large.rejected).toBeUndefined()
+    expect(speck.rejected).toBe('TOO_SMALL')
+  })
+
+  test('rejects a scribble filling the canvas as NOT_A_DIGIT', async () => {
+    const scribble = blankCanvas()
+    for (let y = 20; y < 260; y += 12) drawLine(scribble, [20, y], [260, y + 6], 10)
+    const result = await inferDigit(grayscaleToPng(scribble.data, scribble.width, scribble.height))
+
+    expect(result.rejected).toBe('NOT_A_DIGIT')
+  })
+
+  test('rejects data that is not a PNG', async () => {
+    await expect(inferDigit(Buffer.from('ABC=='))).rejects.toMatchObject({
+      name: 'PngValidationError',
+      reason: 'NOT_PNG',
+    })
+  })
+})
+
+describe('inferDigitBatch', () => {
+  beforeAll(async () => {
+    await loadInferenceModel(TINY_MODEL)
+  })
+
+  afterAll(async () => {
+    await unloadInferenceModel()
+  })
+
+  test('predicts every image and keeps the order', async () => {
+    const outcomes = await inferDigitBatch([fixture('zero.png'), fixture('one.png')])
+    expect(outcomes.map((outcome) => outcome.ok && outcome.prediction.predictedDigit)).toEqual([0, 1])
+  })
+
+  test('returns decode errors in place', async () => {
+    const outcomes = await inferDigitBatch([Buffer.from('ABC=='), fixture('one.png')])
+
+    expect(outcomes[0]).toMatchObject({ ok: false, error: { reason: 'NOT_PNG' } })
+    expect(outcomes[1]).toMatchObject({ ok: true, prediction: { predictedDigit: 1 } })
+  })
+
+  test('handles an empty batch', async () => {
+    await expect(inferDigitBatch([])).resolves.toEqual([])
+  })
+})
+
+describe('inferNumber', () => {
+  const toPng = ({ data, width, height }: Canvas) => grayscaleToPng(data, width, height)
+
+  beforeAll(async () => {
+    await loadInferenceModel(TINY_MODEL)
+  })
+
+  afterAll(async () => {
+    await unloadInferenceModel()
+  })
+
+  test('reads the digits left to right with their boxes', async () => {
+    const canvas = drawLine(blankCanvas(), [230, 70], [230, 210], 8)
+    drawRing(canvas, [140, 140], [35, 70], 8)
+    drawLine(canvas, [50, 70], [45, 210], 8)
+
+    const result = await inferNumber(toPng(canvas))
+
+    expect(result.number).toBe('101')
+    expect(result.rejected).toBeUndefined()
+    expect(result.digits.map((digit) => digit.predictedDigit)).toEqual([1, 0, 1])
+    expect(result.digits[1].box).toMatchObject({ left: 97, width: 86 })
+    expect(result.digits.every((digit) => digit.confidence > 0.5)).toBe(true)
+  })
+
+  test('reads a digit drawn in two strokes as one', async () => {
+    // A 1 with a gap in the stroke, then a 0
+    const canvas = drawLine(blankCanvas(), [70, 60], [70, 130], 8)
+    drawLine(canvas, [72, 150], [72, 220], 8)
+    drawRing(canvas, [190, 140], [35, 70], 8)
+
+    const result = await inferNumber(toPng(canvas))
+    expect(result.number).toBe('10')
+    expect(result.digits[0].box).toMatchObject({ top: 52, height: 176 })
+  })
+
+  test('rejects a blank canvas as EMPTY', async () => {
+    await expect(inferNumber(fixture('blank.png'))).resolves.toMatchObject({
+      number: '',
+      digits: [],
+      rejected: 'EMPTY',
+    })
+  })
+
+  test('rejects more pieces than a number can have as NOT_A_DIGIT', async () => {
+    const canvas = blankCanvas()
+    for (let i = 0; i <= MAX_NUMBER_DIGITS; i++) drawLine(canvas, [10 + i * 16, 100], [10 + i * 16, 180], 4)
+
+    const result = await inferNumber(toPng(canvas))
+    expect(result).toMatchObject({ number: '', digits: [], rejected: 'NOT_A_DIGIT' })
+  })
+
+  test('rejects data that is not a PNG', async () => {
+    await expect(inferNumber(Buffer.from('ABC=='))).rejects.toMatchObject({ reason: 'NOT_PNG' })
+  })
+})
+
+describe('inferDigit on the worker pool', () => {
+  beforeAll(async () => {
+    await loadInferenceModel(TINY_MODEL, { ...DEFAULT_INFERENCE_POOL, workers: 1 })
+  }, 60_000)
+
+  afterAll(async () => {
+    await unloadInferenceModel()
+  })
+
+  test('predicts off the main thread', async () => {
+    clearPredictionCache()
+    const result = await inferDigit(fixture('one.png'))
+
+    expect(result).toMatchObject({ predictedDigit: 1, cached: false })
+    expect(getInferencePoolStats()).toMatchObject({ workers: 1, busyWorkers: 0, batches: 1 })
+  })
+
+  test('runs a batch as one forward pass', async () => {
+    const before = getInferencePoolStats()?.batches ?? 0
+    const outcomes = await inferDigitBatch([fixture('one.png'), fixture('zero.png')])
+
+    expect(outcomes.map((outcome) => outcome.ok && outcome.prediction.predictedDigit)).toEqual([1, 0])
+    expect(getInferencePoolStats()?.batches).toBe(before + 1)
+  })
+
+  test('runs the tta variants as one forward pass', async () => {
+    clearPredictionCache()
+    const before = getInferencePoolStats()?.batches ?? 0
+    const result = await inferDigit(fixture('zero.png'), { mode: 'tta' })
+
+    expect(result.predictedDigit).toBe(0)
+    expect(getInferencePoolStats()?.batches).toBe(before + 1)
+  })
+
+  test('stops the workers on unload', async () => {
+    await unloadInferenceModel()
+    expect(getInferencePoolStats()).toBeNull()
+  })
+
+  test('serves an ensemble', async () => {
+    await unloadInferenceModel()
+    await loadInferenceModel([TINY_MODEL, TINY_MODEL], { ...DEFAULT_INFERENCE_POOL, workers: 1 })
+    clearPredictionCache()
+
+    expect(await inferDigit(fixture('one.png'))).toMatchObject({ predictedDigit: 1, disagreement: 0 })
+    await unloadInferenceModel()
+  }, 60_000)
+})
+
+describe('loadInferenceModel', () => {
+  afterAll(async () => {
+    await unloadInferenceModel()
+  })
+
+  test('loads the model once', async () => {
+    const first = loadInferenceModel(TINY_MODEL)
+    const second = loadInferenceModel('/ignored/because/already/loading')
+    expect(second).toBe(first)
+    await first
+  })
+
+  test('fails loudly for a missing model and allows a retry', async () => {
+    await unloadInferenceModel()
+    await expect(loadInferenceModel('/nonexistent/mnist-cnn')).rejects.toThrow(/not found/)
+    await expect(loadInferenceModel(TINY_MODEL)).resolves.toBeDefined()
+  })
+
+  test('reports the loaded model only once loading finishes', async () => {
+    await unloadInferenceModel()
+    const loading = loadInferenceModel(TINY_MODEL)
+    expect(getModelInfo()).toBeNull()
+    await loading
+
+    expect(getModelInfo()).toEqual({
+      path: TINY_MODEL,
+      version: expect.stringMatching(/^[0-9a-f]{12}$/),
+      createdAt: expect.any(String),
+    })
+    await unloadInferenceModel()
+    expect(getModelInfo()).toBeNull()
+  })
+
+  /**
+   * Load a copy of the tiny model with calibrated metadata
+   */
+  async function withCalibratedModel(update: ModelMetadataUpdate, run: () => Promise<void>) {
+    await unloadInferenceModel()
+    const dir = mkdtempSync(join(tmpdir(), 'calibrated-model-'))
+    for (const file of readdirSync(dirname(TINY_MODEL))) {
+      copyFileSync(join(dirname(TINY_MODEL), file), join(dir, file))
+    }
+    await updateModelMetadata(join(dir, 'tiny-cnn'), update)
+
+    try {
+      await loadInferenceModel(join(dir, 'tiny-cnn'))
+      clearPredictionCache()
+      await run()
+    } finally {
+      await unloadInferenceModel()
+      rmSync(dir, { recursive: true, force: true })
+    }
+  }
+
+  test('applies the abstention thresholds stored with the model', async () => {
+    await withCalibratedModel({ abstain: { ...DEFAULT_ABSTAIN_THRESHOLDS, minConfidence: 1 } }, async () => {
+      expect((await inferDigit(fixture('one.png'))).rejected).toBe('AMBIGUOUS')
+    })
+  })
+
+  test('scales confidences by the temperature stored with the model', async () => {
+    await unloadInferenceModel()
+    await loadInferenceModel(TINY_MODEL)
+    const raw = await inferDigit(fixture('one.png'))
+
+    await withCalibratedModel({ temperature: 3 }, async () => {
+      const scaled = await inferDigit(fixture('one.png'))
+      const number = await inferNumber(fixture('one.png'))
+
+      expect(scaled.predictedDigit).toBe(raw.predictedDigit)
+      expect(scaled.confidence).toBeLessThan(raw.confidence)
+      expect(scaled.allProbabilities.reduce((sum, p) => sum + p, 0)).toBeCloseTo(1, 5)
+      expect(number.digits[0].confidence).toBeCloseTo(scaled.confidence, 5)
+    })
+  })
+})
+
+describe('ensembles', () => {
+  afterAll(async () => {
+    await unloadInferenceModel()
+  })
+
+  test('combine the models of several paths and report their disagreement', async () => {
+    await unloadInferenceModel()
+    const single = await loadInferenceModel(TINY_MODEL)
+    const expected = await inferDigit(fixture('one.png'))
+    await unloadInferenceModel()
+
+    const info = await loadInferenceModel([TINY_MODEL, TINY_MODEL])
+    clearPredictionCache()
+    const result = await inferDigit(fixture('one.png'))
+
+    expect(info).toMatchObject({ path: `${TINY_MODEL},${TINY_MODEL}`, createdAt: single.createdAt })
+    expect(info.version).toMatch(/^[0-9a-f]{12}$/)
+    expect(info.version).not.toBe(single.version)
+    expect(result).toMatchObject({ predictedDigit: 1, disagreement: 0 })
+    result.allProbabilities.forEach((p, c) => expect(p).toBeCloseTo(expected.allProbabilities[c], 5))
+    expect(expected.disagreement).toBeUndefined()
+  })
+
+  test('version by aggregation and report vote shares', async () => {
+    await unloadInferenceModel()
+    const mean = await loadInferenceModel([TINY_MODEL, TINY_MODEL])
+    await unloadInferenceModel()
+    const vote = await loadInferenceModel([TINY_MODEL, TINY_MODEL], { ...DEFAULT_INFERENCE_POOL, workers: 0 }, {
+      aggregation: 'vote',
+    })
+
+    expect(vote.version).not.toBe(mean.version)
+    expect((await inferDigit(fixture('zero.png'))).allProbabilities[0]).toBe(1)
+  })
+
+  test('fail to load with a weight per model missing', async () => {
+    await unloadInferenceModel()
+    await expect(
+      loadInferenceModel([TINY_MODEL, TINY_MODEL], { ...DEFAULT_INFERENCE_POOL, workers: 0 }, { weights: [1] })
+    ).rejects.toThrow(/one weight and temperature per member/)
+  })
+})
+
+describe('ensembleConfigFromEnv', () => {
+  test('reads weights and aggregation', () => {
+    expect(ensembleConfigFromEnv({})).toEqual({})
+    expect(ensembleConfigFromEnv({ ENSEMBLE_WEIGHTS: '2,1', ENSEMBLE_AGGREGATION: 'vote' })).toEqual({
+      weights: [2, 1],
+      aggregation: 'vote',
+    })
+  })
+
+  test('rejects invalid settings', () => {
+    expect(() => ensembleConfigFromEnv({ ENSEMBLE_WEIGHTS: '1,x' })).toThrow(/ENSEMBLE_WEIGHTS/)
+    expect(() => ensembleConfigFromEnv({ ENSEMBLE_WEIGHTS: '-1' })).toThrow(/ENSEMBLE_WEIGHTS/)
+    expect(() => ensembleConfigFromEnv({ ENSEMBLE_AGGREGATION: 'max' })).toThrow(/ENSEMBLE_AGGREGATION/)
+  })
+})
@@ -0,0 +1,64 @@
+import { describe, expect, test } from 'vitest'
+import { createLogger, serializeError } from '../../src/logger'
+
+function capture(level?: 'debug' | 'info' | 'warn' | 'error') {
+  const lines: Record<string, unknown>[] = []
+  const logger = createLogger({ level, write: (line) => lines.push(JSON.parse(line)) })
+  return { logger, lines }
+}
+
+describe('createLogger', () => {
+  test('writes one JSON object per line', () => {
+    const written: string[] = []
+    createLogger({ write: (line) => written.push(line) }).info('hello', { port: 3001 })
+
+    expect(written).toHaveLength(1)
+    expect(written[0].endsWith('\n')).toBe(true)
+    expect(JSON.parse(written[0])).toEqual({
+      time: expect.stringMatching(/^\d{4}-\d{2}-\d{2}T/),
+      level: 'info',
+      msg: 'hello',
+      port: 3001,
+    })
+  })
+
+  test('drops lines below the configured level', () => {
+    const { logger, lines } = capture('warn')
+    logger.debug('a')
+    logger.info('b')
+    logger.warn('c')
+    logger.error('d')
+
+    expect(lines.map((line) => line.msg)).toEqual(['c', 'd'])
+  })
+
+  test('children add their fields to every line', () => {
+    const { logger, lines } = capture()
+    logger.child({ requestId: 'r1' }).child({ procedure: 'predict' }).info('done')
+
+    expect(lines[0]).toMatchObject({ requestId: 'r1', procedure: 'predict', msg: 'done' })
+  })
+
+  test('serialises errors in fields', () => {
+    const { logger, lines } = capture()
+    logger.error('failed', { error: new Error('boom') })
+
+    expect(lines[0].error).toMatchObject({ name: 'Error', message: 'boom', stack: expect.any(String) })
+  })
+})
+
+describe('serializeError', () => {
+  test('follows the cause chain and keeps extra fields', () => {
+    const root = Object.assign(new Error('disk full'), { code: 'ENOSPC' })
+    const wrapped = Object.assign(new Error('Failed to store feedback'), { cause: root })
+
+    expect(serializeError(wrapped)).toMatchObject({
+      message: 'Failed to store feedback',
+      cause: { message: 'disk full', code: 'ENOSPC' },
+    })
+  })
+
+  test('handles thrown non-errors', () => {
+    expect(serializeError('nope')).toEqual({ message: 'nope' })
+  })
+})
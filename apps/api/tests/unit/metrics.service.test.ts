@@ -0,0 +1,53 @@
+import { describe, expect, test } from 'vitest'
+import { createCounter, createGauge, createHistogram } from '../../src/services/metrics.service'
+
+describe('metrics', () => {
+  test('counters render one sample per label set', () => {
+    const counter = createCounter('requests_total', 'Requests')
+    counter.inc({ procedure: 'predict', status: '200' })
+    counter.inc({ procedure: 'predict', status: '200' })
+    counter.inc({ procedure: 'predict', status: '400' }, 3)
+
+    expect(counter.render()).toBe(
+      '# HELP requests_total Requests\n' +
+        '# TYPE requests_total counter\n' +
+        'requests_total{procedure="predict",status="200"} 2\n' +
+        'requests_total{procedure="predict",status="400"} 3\n'
+    )
+  })
+
+  test('escapes label values', () => {
+    const counter = createCounter('c', 'C')
+    counter.inc({ path: 'a"b\\c\nd' })
+    expect(counter.render()).toContain('c{path="a\\"b\\\\c\\nd"} 1\n')
+  })
+
+  test('histograms render cumulative buckets, sum and count', () => {
+    const histogram = createHistogram('latency_seconds', 'Latency', [0.1, 1])
+    histogram.observe({ procedure: 'predict' }, 0.05)
+    histogram.observe({ procedure: 'predict' }, 0.5)
+    histogram.observe({ procedure: 'predict' }, 5)
+
+    expect(histogram.render()).toBe(
+      '# HELP latency_seconds Latency\n' +
+        '# TYPE latency_seconds histogram\n' +
+        'latency_seconds_bucket{procedure="predict",le="0.1"} 1\n' +
+        'latency_seconds_bucket{procedure="predict",le="1"} 2\n' +
+        'latency_seconds_bucket{procedure="predict",le="+Inf"} 3\n' +
+        'latency_seconds_sum{procedure="predict"} 5.55\n' +
+        'latency_seconds_count{procedure="predict"} 3\n'
+    )
+  })
+
+  test('gauges collect their samples at render time', () => {
+    let version: string | null = null
+    const gauge = createGauge('model_info', 'Model', (g) => {
+      g.reset()
+      if (version) g.set({ version }, 1)
+    })
+
+    expect(gauge.render()).not.toMatch(/^model_info\{/m)
+    version = 'abc123'
+    expect(gauge.render()).toContain('model_info{version="abc123"} 1\n')
+  })
+})
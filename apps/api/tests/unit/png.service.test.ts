@@ -0,0 +1,198 @@
+import { describe, expect, test } from 'vitest'
+import { readFileSync } from 'node:fs'
+import { deflateSync } from 'node:zlib'
+import {
+  decodePng,
+  PngValidationError,
+  validatePng,
+  type PngValidationReason,
+} from '../../src/services/png.service'
+import { chunk, encodePng } from '../helpers/png'
+
+const fixture = (name: string) => readFileSync(new URL(`../fixtures/${name}`, import.meta.url))
+
+describe('decodePng', () => {
+  test('decodes a canvas-style RGBA PNG', () => {
+    const image = decodePng(fixture('one.png'))
+    expect(image.width).toBe(280)
+    expect(image.height).toBe(280)
+    expect(image.data.length).toBe(280 * 280 * 4)
+    expect(image.data.slice(0, 4)).toEqual(Uint8Array.from([0, 0, 0, 255]))
+    expect(image.data.some((value, i) => i % 4 === 0 && value === 255)).toBe(true)
+  })
+
+  test.each([0, 1, 2, 3, 4])('reverses filter type %i', (filter) => {
+    const pixels = Uint8Array.from({ length: 3 * 3 * 4 }, (_, i) => (i * 37) % 256)
+    const image = decodePng(encodePng({ width: 3, height: 3, pixels, filter }))
+    expect(image.data).toEqual(pixels)
+  })
+
+  test('expands 8-bit grayscale', () => {
+    const image = decodePng(encodePng({ width: 2, height: 1, pixels: Uint8Array.from([0, 200]), colorType: 0 }))
+    expect(Array.from(image.data)).toEqual([0, 0, 0, 255, 200, 200, 200, 255])
+  })
+
+  test('expands 1-bit grayscale', () => {
+    const image = decodePng(
+      encodePng({ width: 3, height: 1, pixels: Uint8Array.from([0b10100000]), colorType: 0, bitDepth: 1 })
+    )
+    expect(Array.from(image.data)).toEqual([255, 255, 255, 255, 0, 0, 0, 255, 255, 255, 255, 255])
+  })
+
+  test('expands 16-bit RGB with a transparent colour key', () => {
+    const pixels = Uint8Array.from([0xff, 0xff, 0, 0, 0, 0, 0, 0, 0, 0, 0x80, 0])
+    const transparency = Uint8Array.from([0, 0, 0, 0, 0x80, 0])
+    const image = decodePng(
+      encodePng({ width: 2, height: 1, pixels, colorType: 2, bitDepth: 16, transparency })
+    )
+    expect(Array.from(image.data)).toEqual([255, 0, 0, 255, 0, 0, 128, 0])
+  })
+
+  test('expands grayscale + alpha', () => {
+    const image = decodePng(encodePng({ width: 1, height: 1, pixels: Uint8Array.from([90, 128]), colorType: 4 }))
+    expect(Array.from(image.data)).toEqual([90, 90, 90, 128])
+  })
+
+  test('looks up palette colours and palette alpha', () => {
+    const palette = Uint8Array.from([0, 0, 0, 255, 255, 255])
+    const transparency = Uint8Array.from([0])
+    const image = decodePng(
+      encodePng({ width: 2, height: 1, pixels: Uint8Array.from([0b01000000]), colorType: 3, bitDepth: 2, palette, transparency })
+    )
+    expect(Array.from(image.data)).toEqual([255, 255, 255, 255, 0, 0, 0, 0])
+  })
+
+  test('ignores ancillary chunks', () => {
+    const png = encodePng({
+      width: 1,
+      height: 1,
+      pixels: Uint8Array.from([1, 2, 3, 4]),
+      extraChunks: [{ type: 'tEXt', data: Buffer.from('Comment\0hello') }],
+    })
+    expect(Array.from(decodePng(png).data)).toEqual([1, 2, 3, 4])
+  })
+
+  describe('rejects malformed files', () => {
+    const valid = encodePng({ width: 2, height: 2, pixels: new Uint8Array(16) })
+
+    test.each<[string, Buffer, PngValidationReason, RegExp]>([
+      ['missing signature', Buffer.from('ABC=='), 'NOT_PNG', /signature/],
+      ['CRC mismatch', flipByte(valid, 20), 'CORRUPT_CHUNK', /CRC mismatch in IHDR/],
+      ['truncated file', valid.subarray(0, valid.length - 20), 'TRUNCATED', /Truncated/],
+      [
+        'first chunk is not IHDR',
+        Buffer.concat([valid.subarray(0, 8), chunk('IEND', new Uint8Array(0))]),
+        'MALFORMED',
+        /first chunk must be IHDR/,
+      ],
+      ['zero width', withHeader(valid, (header) => header.writeUInt32BE(0, 0)), 'INVALID_DIMENSIONS', /0×2/],
+      [
+        'dimensions above the limit',
+        withHeader(valid, (header) => header.writeUInt32BE(5000, 4)),
+        'INVALID_DIMENSIONS',
+        /2×5000, limit is 1024×1024/,
+      ],
+      [
+        'unknown colour type',
+        withHeader(valid, (header) => (header[9] = 5)),
+        'UNSUPPORTED_FORMAT',
+        /unknown colour type 5/,
+      ],
+      [
+        'bit depth not allowed for the colour type',
+        encodePng({ width: 1, height: 1, pixels: new Uint8Array(1), colorType: 6, bitDepth: 4 }),
+        'UNSUPPORTED_FORMAT',
+        /bit depth 4 is not allowed for colour type 6/,
+      ],
+      ['interlaced image', withHeader(valid, (header) => (header[12] = 1)), 'UNSUPPORTED_FORMAT', /Interlaced/],
+      [
+        'image that would inflate past the limit',
+        withHeader(valid, (header) => {
+          header.writeUInt32BE(1024, 0)
+          header.writeUInt32BE(1024, 4)
+          header[8] = 16
+        }),
+        'DECOMPRESSION_LIMIT',
+        /would inflate to 8389632 bytes, limit is 8388608/,
+      ],
+    ])('%s', (_, png, reason, message) => {
+      expectRejection(() => validatePng(png), reason, message)
+      expectRejection(() => decodePng(png), reason, message)
+    })
+
+    test('image data of the wrong size', () => {
+      const forged = withHeader(valid, (header) => header.writeUInt32BE(3, 0))
+      expect(validatePng(forged)).toMatchObject({ width: 3, height: 2, decompressedBytes: 26 })
+      expectRejection(() => decodePng(forged), 'MALFORMED', /image data is 18 bytes, expected 26/)
+    })
+
+    test('image data that is not zlib', () => {
+      const forged = Buffer.concat([
+        valid.subarray(0, 33),
+        chunk('IDAT', Buffer.from('junk')),
+        chunk('IEND', new Uint8Array(0)),
+      ])
+      expectRejection(() => decodePng(forged), 'MALFORMED', /not valid zlib/)
+    })
+
+    test('decompression bomb hidden behind a small header', () => {
+      // 2×2 header, but the image data inflates to 4MB
+      const bomb = Buffer.concat([
+        valid.subarray(0, 33),
+        chunk('IDAT', deflateSync(new Uint8Array(4 * 1024 * 1024))),
+        chunk('IEND', new Uint8Array(0)),
+      ])
+      expect(bomb.length).toBeLessThan(10_000)
+      expect(validatePng(bomb).decompressedBytes).toBe(18)
+      expectRejection(
+        () => decodePng(bomb),
+        'DECOMPRESSION_LIMIT',
+        /inflates past the 18 bytes a 2×2 image needs/
+      )
+    })
+
+    test('respects custom limits', () => {
+      const limits = { maxDimension: 1, maxDecompressedBytes: 1024 }
+      expectRejection(() => validatePng(valid, limits), 'INVALID_DIMENSIONS', /limit is 1×1/)
+    })
+  })
+})
+
+describe('validatePng', () => {
+  test('reports the header without decoding', () => {
+    expect(validatePng(fixture('one.png'))).toEqual({
+      width: 280,
+      height: 280,
+      bitDepth: 8,
+      colorType: 6,
+      decompressedBytes: (280 * 4 + 1) * 280,
+    })
+  })
+})
+
+function expectRejection(decode: () => unknown, reason: PngValidationReason, message: RegExp) {
+  try {
+    decode()
+  } catch (error) {
+    expect(error).toBeInstanceOf(PngValidationError)
+    expect((error as PngValidationError).reason).toBe(reason)
+    expect((error as PngValidationError).message).toMatch(message)
+    return
+  }
+  throw new Error(`Expected a ${reason} rejection`)
+}
+
+function flipByte(png: Buffer, index: number): Buffer {
+  const copy = Buffer.from(png)
+  copy[index] ^= 0xff
+  return copy
+}
+
+/**
+ * Rewrite the IHDR chunk (with a valid CRC) of a PNG built by `encodePng`
+ */
+function withHeader(png: Buffer, edit: (header: Buffer) => void): Buffer {
+  const header = Buffer.from(png.subarray(16, 29))
+  edit(header)
+  return Buffer.concat([png.subarray(0, 8), chunk('IHDR', header), png.subarray(33)])
+}
@@ -0,0 +1,71 @@
+import { describe, expect, test } from 'vitest'
+import {
+  createPredictionCache,
+  predictionCacheConfigFromEnv,
+  predictionCacheKey,
+} from '../../src/services/prediction-cache.service'
+
+const digit = (value: number) => ({ data: new Float32Array(28 * 28).fill(value), width: 28, height: 28 })
+
+describe('predictionCacheKey', () => {
+  test('depends on the pixels and the model version', () => {
+    const key = predictionCacheKey(digit(0.5), 'v1')
+
+    expect(predictionCacheKey(digit(0.5), 'v1')).toBe(key)
+    expect(predictionCacheKey(digit(0.25), 'v1')).not.toBe(key)
+    expect(predictionCacheKey(digit(0.5), 'v2')).not.toBe(key)
+  })
+
+  test('hashes only the view of a subarray', () => {
+    const backing = new Float32Array(28 * 28 + 4).fill(0.5)
+    backing[0] = 1
+    const view = { data: backing.subarray(4), width: 28, height: 28 }
+
+    expect(predictionCacheKey(view, 'v1')).toBe(predictionCacheKey(digit(0.5), 'v1'))
+  })
+})
+
+describe('createPredictionCache', () => {
+  test('counts hits and misses', () => {
+    const cache = createPredictionCache<string>({ maxEntries: 10, ttlMs: 1000 })
+    expect(cache.get('a')).toBeUndefined()
+    cache.set('a', 'one')
+    expect(cache.get('a')).toBe('one')
+
+    expect(cache.stats()).toEqual({ hits: 1, misses: 1, entries: 1 })
+  })
+
+  test('expires entries after the TTL', () => {
+    const cache = createPredictionCache<string>({ maxEntries: 10, ttlMs: 1000 })
+    cache.set('a', 'one', 0)
+
+    expect(cache.get('a', 999)).toBe('one')
+    expect(cache.get('a', 1000)).toBeUndefined()
+    expect(cache.stats().entries).toBe(0)
+  })
+
+  test('evicts the least recently used entry', () => {
+    const cache = createPredictionCache<string>({ maxEntries: 2, ttlMs: 1000 })
+    cache.set('a', 'one')
+    cache.set('b', 'two')
+    cache.get('a')
+    cache.set('c', 'three')
+
+    expect(cache.get('b')).toBeUndefined()
+    expect(cache.get('a')).toBe('one')
+    expect(cache.get('c')).toBe('three')
+  })
+
+  test('stores nothing with maxEntries 0', () => {
+    const cache = createPredictionCache<string>({ maxEntries: 0, ttlMs: 1000 })
+    cache.set('a', 'one')
+    expect(cache.get('a')).toBeUndefined()
+  })
+})
+
+describe('predictionCacheConfigFromEnv', () => {
+  test('reads limits and rejects invalid values', () => {
+    expect(predictionCacheConfigFromEnv({ PREDICTION_CACHE_MAX_ENTRIES: '0' })).toMatchObject({ maxEntries: 0 })
+    expect(() => predictionCacheConfigFromEnv({ PREDICTION_CACHE_TTL_MS: '-1' })).toThrow(/non-negative/)
+  })
+})
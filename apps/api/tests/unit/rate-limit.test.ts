@@ -0,0 +1,201 @@
+import { describe, expect, test } from 'vitest'
+import {
+  createMemoryStore,
+  createRateLimiter,
+  DEFAULT_RATE_LIMITS,
+  RateLimitError,
+  rateLimitConfigFromEnv,
+  retryAfterHeaders,
+  takeTokens,
+  type BucketState,
+  type RateLimitStore,
+} from '../../src/middleware/rate-limit'
+
+const bucket = { capacity: 3, refillPerSecond: 1 }
+
+describe('takeTokens', () => {
+  test('starts with a full bucket', () => {
+    expect(takeTokens(undefined, bucket, 1, 1000)).toEqual({
+      state: { tokens: 2, updatedAt: 1000 },
+      allowed: true,
+      retryAfterMs: 0,
+    })
+  })
+
+  test('refuses when empty and says when a token will be back', () => {
+    const result = takeTokens({ tokens: 0.25, updatedAt: 1000 }, bucket, 1, 1000)
+    expect(result).toEqual({ state: { tokens: 0.25, updatedAt: 1000 }, allowed: false, retryAfterMs: 750 })
+  })
+
+  test('refills with elapsed time, up to the capacity', () => {
+    expect(takeTokens({ tokens: 0, updatedAt: 0 }, bucket, 1, 1500).state.tokens).toBeCloseTo(0.5)
+    expect(takeTokens({ tokens: 0, updatedAt: 0 }, bucket, 1, 60_000).state.tokens).toBe(2)
+  })
+
+  test('caps the cost at the capacity', () => {
+    expect(takeTokens(undefined, bucket, 10, 0)).toMatchObject({ allowed: true, state: { tokens: 0 } })
+    expect(takeTokens({ tokens: 1, updatedAt: 0 }, bucket, 10, 0)).toMatchObject({
+      allowed: false,
+      retryAfterMs: 2000,
+    })
+  })
+})
+
+describe('createRateLimiter', () => {
+  const limits = { session: { capacity: 2, refillPerSecond: 1 }, ip: { capacity: 3, refillPerSecond: 1 } }
+
+  async function rejection(promise: Promise<void>): Promise<RateLimitError> {
+    const error = await promise.then(
+      () => null,
+      (error: unknown) => error
+    )
+    expect(error).toBeInstanceOf(RateLimitError)
+    return error as RateLimitError
+  }
+
+  test('limits each session', async () => {
+    const limiter = createRateLimiter(limits)
+    await limiter.consume({ sessionId: 'a', remoteAddress: '1.1.1.1' }, 0)
+    await limiter.consume({ sessionId: 'a', remoteAddress: '2.2.2.2' }, 0)
+
+    const error = await rejection(limiter.consume({ sessionId: 'a', remoteAddress: '3.3.3.3' }, 0))
+    expect(error.scope).toBe('session')
+    expect(error.retryAfterMs).toBe(1000)
+
+    await limiter.consume({ sessionId: 'b', remoteAddress: '3.3.3.3' }, 0)
+    await limiter.consume({ sessionId: 'a', remoteAddress: '3.3.3.3' }, 1000)
+  })
+
+  test('limits each address across sessions', async () => {
+    const limiter = createRateLimiter(limits)
+    for (const sessionId of ['a', 'b', 'c']) {
+      await limiter.consume({ sessionId, remoteAddress: '1.1.1.1' }, 0)
+    }
+
+    const error = await rejection(limiter.consume({ sessionId: 'd', remoteAddress: '1.1.1.1' }, 0))
+    expect(error.scope).toBe('ip')
+    expect(error.message).toBe('Rate limit exceeded for this address, retry in 1s')
+  })
+
+  test('charges the cost to both buckets', async () => {
+    const limiter = createRateLimiter(limits)
+    await limiter.consume({ sessionId: 'a', remoteAddress: '1.1.1.1', cost: 2 }, 0)
+    await rejection(limiter.consume({ sessionId: 'a', remoteAddress: '2.2.2.2' }, 0))
+    await limiter.consume({ remoteAddress: '1.1.1.1' }, 0)
+    await rejection(limiter.consume({ remoteAddress: '1.1.1.1' }, 0))
+  })
+
+  test('leaves the address bucket alone when the session is throttled', async () => {
+    const limiter = createRateLimiter(limits)
+    await limiter.consume({ sessionId: 'a', remoteAddress: '1.1.1.1', cost: 2 }, 0)
+    for (let i = 0; i < 5; i++) {
+      expect((await rejection(limiter.consume({ sessionId: 'a', remoteAddress: '1.1.1.1' }, 0))).scope).toBe(
+        'session'
+      )
+    }
+
+    // The address still has its last token for another session
+    await limiter.consume({ sessionId: 'b', remoteAddress: '1.1.1.1' }, 0)
+    expect((await rejection(limiter.consume({ sessionId: 'c', remoteAddress: '1.1.1.1' }, 0))).scope).toBe('ip')
+  })
+
+  test('grants only the capacity to concurrent requests', async () => {
+    const limiter = createRateLimiter(limits)
+    const results = await Promise.allSettled(
+      Array.from({ length: 5 }, () => limiter.consume({ sessionId: 'a', remoteAddress: '1.1.1.1' }, 0))
+    )
+
+    expect(results.filter((result) => result.status === 'fulfilled')).toHaveLength(2)
+  })
+
+  test("doesn't hold other buckets up behind a slow one", async () => {
+    const saved = new Map<string, BucketState>()
+    let release!: () => void
+    const slow = new Promise<void>((resolve) => (release = resolve))
+    const store: RateLimitStore = {
+      get: async (key) => {
+        if (key === 'session:slow') await slow
+        return saved.get(key)
+      },
+      set: (key, state) => {
+        saved.set(key, state)
+      },
+    }
+    const limiter = createRateLimiter(limits, store)
+
+    const stalled = limiter.consume({ sessionId: 'slow', remoteAddress: '1.1.1.1' }, 0)
+    await limiter.consume({ sessionId: 'b', remoteAddress: '2.2.2.2' }, 0)
+    expect(saved.has('session:b')).toBe(true)
+    expect(saved.has('session:slow')).toBe(false)
+
+    release()
+    await stalled
+    expect(saved.get('ip:1.1.1.1')).toEqual({ tokens: 2, updatedAt: 0 })
+  })
+
+  test('works with a custom (async) store', async () => {
+    const saved = new Map<string, BucketState>()
+    const store: RateLimitStore = {
+      get: async (key) => saved.get(key),
+      set: async (key, state) => {
+        saved.set(key, state)
+      },
+    }
+    const limiter = createRateLimiter(limits, store)
+    await limiter.consume({ sessionId: 'a', remoteAddress: '1.1.1.1' }, 0)
+
+    expect(saved).toEqual(
+      new Map([
+        ['ip:1.1.1.1', { tokens: 2, updatedAt: 0 }],
+        ['session:a', { tokens: 1, updatedAt: 0 }],
+      ])
+    )
+  })
+})
+
+describe('createMemoryStore', () => {
+  test('evicts the least recently written bucket', () => {
+    const store = createMemoryStore(2)
+    store.set('a', { tokens: 1, updatedAt: 0 })
+    store.set('b', { tokens: 1, updatedAt: 0 })
+    store.set('a', { tokens: 0, updatedAt: 1 })
+    store.set('c', { tokens: 1, updatedAt: 0 })
+
+    expect(store.get('b')).toBeUndefined()
+    expect(store.get('a')).toEqual({ tokens: 0, updatedAt: 1 })
+    expect(store.get('c')).toBeDefined()
+  })
+})
+
+describe('rateLimitConfigFromEnv', () => {
+  test('falls back to the defaults', () => {
+    expect(rateLimitConfigFromEnv({})).toEqual(DEFAULT_RATE_LIMITS)
+  })
+
+  test('reads overrides', () => {
+    const config = rateLimitConfigFromEnv({ RATE_LIMIT_SESSION_CAPACITY: '5', RATE_LIMIT_IP_REFILL_PER_SEC: '0.5' })
+    expect(config.session.capacity).toBe(5)
+    expect(config.ip.refillPerSecond).toBe(0.5)
+  })
+
+  test('rejects invalid values', () => {
+    expect(() => rateLimitConfigFromEnv({ RATE_LIMIT_IP_CAPACITY: 'lots' })).toThrow(
+      'RATE_LIMIT_IP_CAPACITY must be a positive number, received "lots"'
+    )
+  })
+})
+
+describe('retryAfterHeaders', () => {
+  test('rounds the longest wait up to whole seconds', () => {
+    const headers = retryAfterHeaders([
+      { result: {} },
+      { error: { data: { retryAfterMs: 1200 } } },
+      { error: { data: { retryAfterMs: null } } },
+    ])
+    expect(headers).toEqual({ 'retry-after': '2' })
+  })
+
+  test('is empty without rate-limit errors', () => {
+    expect(retryAfterHeaders([{ result: {} }, { error: { data: { retryAfterMs: null } } }])).toEqual({})
+  })
+})
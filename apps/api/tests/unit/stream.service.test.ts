@@ -0,0 +1,91 @@
+import { describe, expect, test } from 'vitest'
+import { createFrameCoalescer } from '../../src/services/stream.service'
+
+/**
+ * `process` stand-in whose calls finish only when the test says so
+ */
+function controlledProcess() {
+  const calls: { frame: string; finish: () => void; fail: (error: Error) => void }[] = []
+  const process = (frame: string) =>
+    new Promise<string>((resolve, reject) => {
+      calls.push({ frame, finish: () => resolve(`result:${frame}`), fail: reject })
+    })
+  return { calls, process }
+}
+
+const flush = () => new Promise((resolve) => setTimeout(resolve, 0))
+
+describe('createFrameCoalescer', () => {
+  test('processes a frame as soon as it is pushed', async () => {
+    const { calls, process } = controlledProcess()
+    const results: unknown[] = []
+    const coalescer = createFrameCoalescer(process, (result) => results.push(result), () => {})
+
+    expect(coalescer.push('a')).toBe(1)
+    expect(calls.map((call) => call.frame)).toEqual(['a'])
+
+    calls[0].finish()
+    await flush()
+    expect(results).toEqual([{ frame: 1, value: 'result:a', droppedFrames: 0 }])
+  })
+
+  test('keeps only the newest frame while busy', async () => {
+    const { calls, process } = controlledProcess()
+    const results: unknown[] = []
+    const coalescer = createFrameCoalescer(process, (result) => results.push(result), () => {})
+
+    coalescer.push('a')
+    coalescer.push('b')
+    coalescer.push('c')
+    expect(coalescer.push('d')).toBe(4)
+    expect(calls).toHaveLength(1)
+
+    calls[0].finish()
+    await flush()
+    expect(calls.map((call) => call.frame)).toEqual(['a', 'd'])
+
+    calls[1].finish()
+    await flush()
+    expect(results).toEqual([
+      { frame: 1, value: 'result:a', droppedFrames: 0 },
+      { frame: 4, value: 'result:d', droppedFrames: 2 },
+    ])
+  })
+
+  test('reports errors and carries on with the next frame', async () => {
+    const { calls, process } = controlledProcess()
+    const results: unknown[] = []
+    const errors: unknown[] = []
+    const coalescer = createFrameCoalescer(
+      process,
+      (result) => results.push(result),
+      (error) => errors.push(error)
+    )
+
+    coalescer.push('a')
+    coalescer.push('b')
+    calls[0].fail(new Error('boom'))
+    await flush()
+    calls[1].finish()
+    await flush()
+
+    expect(errors).toEqual([{ frame: 1, error: new Error('boom') }])
+    expect(results).toEqual([{ frame: 2, value: 'result:b', droppedFrames: 0 }])
+  })
+
+  test('discards work after close', async () => {
+    const { calls, process } = controlledProcess()
+    const results: unknown[] = []
+    const coalescer = createFrameCoalescer(process, (result) => results.push(result), () => {})
+
+    coalescer.push('a')
+    coalescer.push('b')
+    coalescer.close()
+    calls[0].finish()
+    await flush()
+
+    expect(calls).toHaveLength(1)
+    expect(results).toEqual([])
+    expect(() => coalescer.push('c')).toThrow('Frame coalescer is closed')
+  })
+})
@@ -0,0 +1,8 @@
+import { defineConfig } from 'vitest/config'
+
+export default defineConfig({
+  test: {
+    // Run the model on the main thread unless a test starts a worker pool itself
+    env: { INFERENCE_WORKERS: '0' },
+  },
+})
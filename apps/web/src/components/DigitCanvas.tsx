@@ -1,5 +1,6 @@
 import React, { useState, useRef, useEffect } from 'react';
 import { Trash2, Brain, CheckCircle, AlertCircle, Camera } from 'lucide-react';
+import { fromImageData, preprocessDigit } from '@repo/ml-core/preprocessing';
 
 interface PredictionResult {
   digit: number;
@@ -101,23 +102,11 @@ const MNISTDigitRecognition = () => {
     const ctx = canvas.getContext('2d');
     if (!ctx) return [];
     
+    // Crop, fit to 20×20 and centre by mass in 28×28, like the MNIST training data
     const imageData = ctx.getImageData(0, 0, canvas.width, canvas.height);
-    const tempCanvas = document.createElement('canvas');
-    tempCanvas.width = 28;
-    tempCanvas.height = 28;
-    const tempCtx = tempCanvas.getContext('2d');
-    if (!tempCtx) return [];
+    const digit = preprocessDigit(fromImageData(imageData));
     
-    tempCtx.drawImage(canvas, 0, 0, 28, 28);
-    const smallImageData = tempCtx.getImageData(0, 0, 28, 28);
-    
-    const normalized = [];
-    for (let i = 0; i < smallImageData.data.length; i += 4) {
-      const avg = (smallImageData.data[i] + smallImageData.data[i + 1] + smallImageData.data[i + 2]) / 3;
-      normalized.push(avg / 255);
-    }
-    
-    return normalized;
+    return Array.from(digit.data);
   };
 
   const predictDigit = () => {
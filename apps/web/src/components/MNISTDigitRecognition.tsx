@@ -6,11 +6,20 @@ interface PredictionData {
   confidence: string;
 }
 
+// Why the API withheld a digit (the `rejected` field of a prediction)
+const REJECTION_MESSAGES: Record<string, string> = {
+  EMPTY: 'The canvas is empty. Draw a digit first.',
+  TOO_SMALL: 'The drawing is too small. Draw the digit larger.',
+  AMBIGUOUS: 'This could be more than one digit. Try drawing it more clearly.',
+  NOT_A_DIGIT: "This doesn't look like a digit.",
+};
+
 const MNISTDigitRecognition = () => {
   const canvasRef = useRef<HTMLCanvasElement>(null);
   const [isDrawing, setIsDrawing] = useState(false);
   const [prediction, setPrediction] = useState<number | null>(null);
   const [confidence, setConfidence] = useState<string | null>(null);
+  const [rejection, setRejection] = useState<string | null>(null);
   const [isProcessing, setIsProcessing] = useState(false);
   const [allPredictions, setAllPredictions] = useState<PredictionData[]>([]);
   const [sessionId] = useState(() => {
@@ -87,6 +96,7 @@ const MNISTDigitRecognition = () => {
     ctx.fillRect(0, 0, canvas.width, canvas.height);
     setPrediction(null);
     setConfidence(null);
+    setRejection(null);
     setAllPredictions([]);
   };
 
@@ -134,6 +144,9 @@ const MNISTDigitRecognition = () => {
         if (data.result && data.result.predictedDigit !== undefined) {
           setPrediction(data.result.predictedDigit);
           setConfidence((data.result.confidence * 100).toFixed(1));
+          setRejection(data.result.rejected
+            ? REJECTION_MESSAGES[data.result.rejected] ?? 'No digit recognised.'
+            : null);
           
           if (data.result.allProbabilities) {
             const predictionData = data.result.allProbabilities.map((prob: number, idx: number) => ({
@@ -194,6 +207,7 @@ const MNISTDigitRecognition = () => {
     
     setPrediction(predictedDigit);
     setConfidence((normalized[predictedDigit] * 100).toFixed(1));
+    setRejection(null);
     
     const predictionData = normalized.map((prob, idx) => ({
       digit: idx,
@@ -279,7 +293,13 @@ const MNISTDigitRecognition = () => {
             <div className="bg-white/10 backdrop-blur rounded-2xl p-8 border border-white/20">
               <h2 className="text-2xl font-bold text-white mb-6">Prediction</h2>
               
-              {prediction !== null ? (
+              {rejection !== null ? (
+                <div className="text-center py-12">
+                  <AlertCircle className="w-16 h-16 text-yellow-400 mx-auto mb-4" />
+                  <p className="text-xl font-semibold text-white mb-2">No digit recognised</p>
+                  <p className="text-purple-300">{rejection}</p>
+                </div>
+              ) : prediction !== null ? (
                 <div className="text-center">
                   <div className="text-9xl font-bold text-purple-400 mb-4 animate-pulse">
                     {prediction}
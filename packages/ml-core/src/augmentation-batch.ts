@@ -0,0 +1,188 @@
+import * as tf from '@tensorflow/tfjs';
+import {
+  erasingMask,
+  resolveRandom,
+  sampleAugmentationParams,
+  validateAugmentationParams,
+  type AugmentationConfig,
+  type AugmentationParams,
+} from './augmentation';
+import { adjustStrokeWidth } from './morphology';
+import { elasticBatch, warpBatch } from './sampling';
+import {
+  composeTransforms,
+  rotationTransform,
+  shearTransform,
+  shiftTransform,
+  zoomTransform,
+  type ProjectiveTransform,
+} from './transforms';
+
+/**
+ * Augmented batch together with the per-sample parameters that produced it
+ */
+export interface BatchAugmentationResult {
+  images: tf.Tensor4D;
+  params: AugmentationParams[];
+}
+
+/**
+ * Collapse rotation → shear → zoom → shift into one inverse mapping
+ */
+export function augmentationTransform(
+  params: AugmentationParams,
+  height: number,
+  width: number
+): ProjectiveTransform {
+  return composeTransforms(
+    rotationTransform(params.rotation, height, width),
+    shearTransform(params.shear, params.shearAxis, height, width),
+    zoomTransform(params.zoom, height, width),
+    shiftTransform(params.shift.width, params.shift.height)
+  );
+}
+
+/**
+ * Apply one set of parameters per sample to an [N, H, W, C] batch.
+ * Same order as `applyAugmentation`; every stage runs once over the whole
+ * batch, with the affine transforms folded into a single warp.
+ */
+export function applyBatchAugmentation(
+  images: tf.Tensor4D,
+  params: AugmentationParams[]
+): tf.Tensor4D {
+  const [batchSize, height, width] = images.shape;
+  if (params.length !== batchSize) {
+    throw new Error(
+      `Expected ${batchSize} augmentation parameter sets, received ${params.length}`
+    );
+  }
+  params.forEach(validateAugmentationParams);
+
+  return tf.tidy(() => {
+    let augmented: tf.Tensor4D = images;
+
+    // 1. Stroke thickness: one pooled variant per distinct radius, picked per sample
+    const radii = params.map((sample) => sample.strokeRadius ?? 0);
+    if (radii.some((radius) => radius !== 0)) {
+      augmented = selectPerSample(
+        radii,
+        (radius) => adjustStrokeWidth(images, radius)
+      );
+    }
+
+    // 2. Elastic distortion
+    if (params.some((sample) => (sample.elastic?.alpha ?? 0) > 0)) {
+      augmented = elasticBatch(
+        augmented,
+        params.map((sample) => sample.elastic ?? { alpha: 0, sigma: 4, seed: 0 })
+      );
+    }
+
+    // 3-6. Rotation → shear → zoom → shift as one warp
+    augmented = warpBatch(
+      augmented,
+      params.map((sample) => augmentationTransform(sample, height, width))
+    );
+
+    // 7. Erasing
+    if (params.some((sample) => sample.erasing)) {
+      const masks = tf.stack(
+        params.map((sample) => erasingMask(sample.erasing, height, width))
+      ) as tf.Tensor4D;
+      augmented = augmented.mul(masks);
+    }
+
+    return augmented;
+  });
+}
+
+/**
+ * Build each distinct variant once and pick, per sample, the one its key names
+ */
+function selectPerSample(
+  keys: number[],
+  variant: (key: number) => tf.Tensor4D
+): tf.Tensor4D {
+  return tf.tidy(() => {
+    const distinct = [...new Set(keys)];
+    return distinct
+      .map((key) => {
+        const selected = tf.tensor1d(keys.map((k) => (k === key ? 1 : 0)))
+          .reshape([keys.length, 1, 1, 1]);
+        return variant(key).mul(selected);
+      })
+      .reduce((sum, part) => sum.add(part)) as tf.Tensor4D;
+  });
+}
+
+/**
+ * Batched augmentation pipeline
+ * Samples independent parameters for each of the N images, then warps the
+ * whole batch in one vectorised pass.
+ *
+ * Zoom and shift are folded into the same affine warp, so results match
+ * `augmentImage` up to bilinear resampling differences.
+ */
+export function augmentBatch(
+  images: tf.Tensor4D,
+  config?: AugmentationConfig
+): tf.Tensor4D;
+export function augmentBatch(
+  images: tf.Tensor4D,
+  config: AugmentationConfig,
+  options: { returnParams: true }
+): BatchAugmentationResult;
+export function augmentBatch(
+  images: tf.Tensor4D,
+  config: AugmentationConfig = {},
+  options: { returnParams?: boolean } = {}
+): tf.Tensor4D | BatchAugmentationResult {
+  const random = resolveRandom(config);
+  const params = Array.from({ length: images.shape[0] }, () =>
+    sampleAugmentationParams(config, random)
+  );
+  const augmented = applyBatchAugmentation(images, params);
+  return options.returnParams ? { images: augmented, params } : augmented;
+}
+
+/**
+ * Build a `tf.data.Dataset.map` transform that augments each element.
+ *
+ * One random stream is created per map function, so a `seed` makes the whole
+ * epoch reproducible while every element still gets its own transform.
+ * Accepts a bare image tensor or an `{ xs, ys }` record (only `xs` is
+ * augmented). Works before or after `.batch()`: rank-3 images go through the
+ * same batched warp as rank-4 batches.
+ *
+ * @example
+ * const train = tf.data
+ *   .zip({ xs: images, ys: labels })
+ *   .batch(128)
+ *   .map(createAugmentationMapFn({ seed: 42 }));
+ */
+export function createAugmentationMapFn(
+  config: AugmentationConfig = {}
+): <T extends tf.TensorContainer>(element: T) => T {
+  const sampling: AugmentationConfig = { ...config, random: resolveRandom(config) };
+
+  const augment = (xs: tf.Tensor3D | tf.Tensor4D): tf.Tensor3D | tf.Tensor4D => {
+    if (xs.rank === 4) {
+      return augmentBatch(xs as tf.Tensor4D, sampling);
+    }
+    return tf.tidy(() =>
+      augmentBatch(xs.expandDims(0) as tf.Tensor4D, sampling).squeeze([0])
+    ) as tf.Tensor3D;
+  };
+
+  return <T extends tf.TensorContainer>(element: T): T => {
+    if (element instanceof tf.Tensor) {
+      return augment(element as tf.Tensor3D | tf.Tensor4D) as unknown as T;
+    }
+    const record = element as { xs?: tf.TensorContainer };
+    if (!(record?.xs instanceof tf.Tensor)) {
+      throw new Error('Dataset element must be an image tensor or an { xs, ys } record');
+    }
+    return { ...record, xs: augment(record.xs as tf.Tensor3D | tf.Tensor4D) } as unknown as T;
+  };
+}
@@ -1,4 +1,31 @@
 import * as tf from '@tensorflow/tfjs';
+import {
+  createSeededRandom,
+  symmetricInt,
+  uniform,
+  type RandomSource,
+} from './random';
+import { adjustStrokeWidth } from './morphology';
+import { elasticBatch } from './sampling';
+import {
+  rotationTransform,
+  shearTransform,
+  type ProjectiveTransform,
+} from './transforms';
+
+// Hard limits: beyond these, digits start to change meaning (6↔9, 1↔7)
+const MAX_ROTATION = 15; // degrees
+const MAX_SHIFT_PIXELS = 4;
+const MIN_ZOOM = 0.8;
+const MAX_ZOOM = 1.2;
+const MIN_SHEAR = -0.2;
+const MAX_SHEAR = 0.2;
+const MAX_STROKE_RADIUS = 2; // pixels
+const MAX_ELASTIC_ALPHA = 36; // pixels (Simard et al. use 34 at σ = 4)
+const MIN_ELASTIC_SIGMA = 3;
+const MAX_ELASTIC_SIGMA = 8;
+const MAX_ERASING_AREA = 0.25; // fraction of the canvas
+const CANVAS_SIZE = 28;
 
 /**
  * Augmentation configuration interface
@@ -8,6 +35,105 @@ export interface AugmentationConfig {
   shiftRange?: { width: number; height: number };
   zoomRange?: { min: number; max: number };
   shearRange?: { min: number; max: number };
+  shearAxis?: ShearAxis;
+  /** Stroke radius in pixels (integers; negative thins). Off when unset. */
+  strokeRange?: { min: number; max: number };
+  /** Elastic displacement strength `alpha`. Off when unset. */
+  elasticRange?: { min: number; max: number };
+  /** Elastic field smoothness (Gaussian σ), default 4 */
+  elasticSigma?: number;
+  /** Erased area as a fraction of the canvas. Off when unset. */
+  erasingRange?: { min: number; max: number };
+  /** Chance that an image gets an erased patch, default 0.5 */
+  erasingProbability?: number;
+  /**
+   * Makes one call reproducible: every call restarts the same stream, so it
+   * is not a seed for a sequence. Per-image loops reusing the config apply the
+   * same transform to every image; share a `random: createSeededRandom(seed)`
+   * across the calls instead.
+   */
+  seed?: number;
+  /** Shared random source; takes precedence over `seed` */
+  random?: RandomSource;
+}
+
+/**
+ * Concrete parameters sampled for one augmented image.
+ * Log these to replay an augmentation exactly with `applyAugmentation`.
+ */
+export interface AugmentationParams {
+  rotation: number;
+  shear: number;
+  shearAxis: ShearAxis;
+  zoom: number;
+  shift: { width: number; height: number };
+  strokeRadius?: number;
+  elastic?: ElasticParams;
+  erasing?: ErasingRegion | null;
+}
+
+/**
+ * Elastic distortion parameters; `seed` regenerates the displacement field
+ */
+export interface ElasticParams {
+  alpha: number;
+  sigma: number;
+  seed: number;
+}
+
+/**
+ * Rectangle blanked out by random erasing, in pixels
+ */
+export interface ErasingRegion {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+/**
+ * Augmented image together with the parameters that produced it
+ */
+export interface AugmentationResult {
+  image: tf.Tensor3D;
+  params: AugmentationParams;
+}
+
+/**
+ * Shear direction: 'x' slants columns (italic handwriting), 'y' slants rows
+ */
+export type ShearAxis = 'x' | 'y';
+
+/**
+ * Shear augmentation options
+ */
+export interface ShearOptions {
+  axis?: ShearAxis;
+  fillValue?: number;
+  random?: RandomSource;
+}
+
+/**
+ * Warp a single [H, W, C] image with bilinear sampling.
+ * Pixels mapped from outside the source are filled with `fillValue`
+ * (black background by default).
+ */
+function applyProjectiveTransform(
+  imageData: tf.Tensor3D,
+  transform: ProjectiveTransform,
+  fillValue = 0
+): tf.Tensor3D {
+  return tf.tidy(() => {
+    const batched = imageData.expandDims(0) as tf.Tensor4D;
+    const warped = tf.image.transform(
+      batched,
+      tf.tensor2d([transform]),
+      'bilinear',
+      'constant',
+      fillValue
+    );
+    return warped.squeeze([0]) as tf.Tensor3D;
+  });
 }
 
 /**
@@ -17,14 +143,12 @@ export interface AugmentationConfig {
 export function rotateAugmentation(
   imageData: tf.Tensor3D,
   angle?: number,
-  angleRange: { min: number; max: number } = { min: -15, max: 15 }
+  angleRange: { min: number; max: number } = { min: -15, max: 15 },
+  random: RandomSource = Math.random
 ): tf.Tensor3D {
-  const MAX_ROTATION = 15; // degrees
-
   // Use provided angle or generate random
-  let rotationAngle: number = angle ?? (
-    Math.random() * (angleRange.max - angleRange.min) + angleRange.min
-  );
+  let rotationAngle: number =
+    angle ?? uniform(random, angleRange.min, angleRange.max);
 
   // Enforce constraint
   if (Math.abs(rotationAngle) > MAX_ROTATION) {
@@ -33,22 +157,15 @@ export function rotateAugmentation(
     );
   }
 
-  // For small rotations, use image transformation via canvas
-  // TensorFlow.js doesn't have built-in rotate, so we use a workaround
   return tf.tidy(() => {
-    // For now, return the image as-is if rotation is applied
-    // In production, this would use a proper rotation implementation
     if (Math.abs(rotationAngle) < 0.1) {
       return imageData.clone();
     }
 
-    // Simulate rotation by applying a small random transformation
-    // This prevents exact duplicates while maintaining constraints
-    const noiseAmount = Math.abs(rotationAngle) / 100;
-    const noise = tf.randomNormal(imageData.shape, 0, noiseAmount);
-    const rotated = tf.addN([imageData, noise]).clipByValue(0, 1);
-    noise.dispose();
-    return rotated as tf.Tensor3D;
+    return applyProjectiveTransform(
+      imageData,
+      rotationTransform(rotationAngle, imageData.shape[0], imageData.shape[1])
+    );
   });
 }
 
@@ -59,17 +176,11 @@ export function rotateAugmentation(
 export function shiftAugmentation(
   imageData: tf.Tensor3D,
   shift?: { width: number; height: number },
-  shiftRange: { width: number; height: number } = { width: 4, height: 4 }
+  shiftRange: { width: number; height: number } = { width: 4, height: 4 },
+  random: RandomSource = Math.random
 ): tf.Tensor3D {
-  const MAX_SHIFT_PIXELS = 4;
-  const CANVAS_SIZE = 28;
-
-  let widthShift: number = shift?.width ?? (
-    Math.floor(Math.random() * (shiftRange.width * 2 + 1)) - shiftRange.width
-  );
-  let heightShift: number = shift?.height ?? (
-    Math.floor(Math.random() * (shiftRange.height * 2 + 1)) - shiftRange.height
-  );
+  let widthShift: number = shift?.width ?? symmetricInt(random, shiftRange.width);
+  let heightShift: number = shift?.height ?? symmetricInt(random, shiftRange.height);
 
   // Enforce constraints
   if (Math.abs(widthShift) > MAX_SHIFT_PIXELS) {
@@ -93,28 +204,23 @@ export function shiftAugmentation(
     // Pad image with zeros (black background)
     const padded = tf.pad3d(imageData, [[top, bottom], [left, right], [0, 0]], 0);
 
-    // Crop back to 28×28
-    return tf.slice3d(padded, [0, 0, 0], [CANVAS_SIZE, CANVAS_SIZE, 1]);
+    // Crop back to 28×28 (negative shifts drop the leading rows/columns)
+    return tf.slice3d(padded, [bottom, right, 0], [CANVAS_SIZE, CANVAS_SIZE, 1]);
   });
 }
 
 /**
  * Zoom augmentation: 0.8x to 1.2x (20% range)
- * Simulates brush thickness variation
+ * Simulates digit size variation (see strokeThicknessAugmentation for pen width)
  */
 export function zoomAugmentation(
   imageData: tf.Tensor3D,
   zoomFactor?: number,
-  zoomRange: { min: number; max: number } = { min: 0.8, max: 1.2 }
+  zoomRange: { min: number; max: number } = { min: 0.8, max: 1.2 },
+  random: RandomSource = Math.random
 ): tf.Tensor3D {
-  const MIN_ZOOM = 0.8;
-  const MAX_ZOOM = 1.2;
-  const CANVAS_SIZE = 28;
-
   // Use provided zoom or generate random
-  let zoom: number = zoomFactor ?? (
-    Math.random() * (zoomRange.max - zoomRange.min) + zoomRange.min
-  );
+  let zoom: number = zoomFactor ?? uniform(random, zoomRange.min, zoomRange.max);
 
   // Enforce constraint
   if (zoom < MIN_ZOOM || zoom > MAX_ZOOM) {
@@ -163,20 +269,19 @@ export function zoomAugmentation(
 
 /**
  * Shear augmentation: ±0.2 shear factor
- * Simulates handwriting slant variation
+ * Simulates handwriting slant variation (x-axis by default)
  */
 export function shearAugmentation(
   imageData: tf.Tensor3D,
   shearFactor?: number,
-  shearRange: { min: number; max: number } = { min: -0.2, max: 0.2 }
+  shearRange: { min: number; max: number } = { min: -0.2, max: 0.2 },
+  options: ShearOptions = {}
 ): tf.Tensor3D {
-  const MIN_SHEAR = -0.2;
-  const MAX_SHEAR = 0.2;
+  const { axis = 'x', fillValue = 0, random = Math.random } = options;
 
   // Use provided shear or generate random
-  let shear: number = shearFactor ?? (
-    Math.random() * (shearRange.max - shearRange.min) + shearRange.min
-  );
+  let shear: number =
+    shearFactor ?? uniform(random, shearRange.min, shearRange.max);
 
   // Enforce constraint
   if (shear < MIN_SHEAR || shear > MAX_SHEAR) {
@@ -190,46 +295,355 @@ export function shearAugmentation(
       return imageData.clone();
     }
 
-    // Simulate shear by applying directional noise
-    // This creates a slant effect
-    const noiseAmount = Math.abs(shear) * 0.1;
-    const noise = tf.randomNormal(imageData.shape, 0, noiseAmount);
-    const sheared = tf.addN([imageData, noise]).clipByValue(0, 1);
-    noise.dispose();
-    return sheared as tf.Tensor3D;
+    return applyProjectiveTransform(
+      imageData,
+      shearTransform(shear, axis, imageData.shape[0], imageData.shape[1]),
+      fillValue
+    );
   });
 }
 
 /**
- * Combined augmentation pipeline
- * Applies all transformations in sequence: rotation → shear → zoom → shift
+ * Stroke thickness augmentation: ±2 pixel radius
+ * Simulates pen width variation (canvas strokes are far thicker than MNIST)
  */
-export function augmentImage(
+export function strokeThicknessAugmentation(
+  imageData: tf.Tensor3D,
+  radius?: number,
+  radiusRange: { min: number; max: number } = { min: -1, max: 1 },
+  random: RandomSource = Math.random
+): tf.Tensor3D {
+  // Use provided radius or generate random
+  let strokeRadius: number =
+    radius ?? Math.round(uniform(random, radiusRange.min, radiusRange.max));
+
+  // Enforce constraint
+  if (!Number.isInteger(strokeRadius) || Math.abs(strokeRadius) > MAX_STROKE_RADIUS) {
+    throw new Error(
+      `Stroke radius ${strokeRadius} outside valid range [-${MAX_STROKE_RADIUS}, ${MAX_STROKE_RADIUS}] (integers only)`
+    );
+  }
+
+  return tf.tidy(() =>
+    adjustStrokeWidth(imageData.expandDims(0) as tf.Tensor4D, strokeRadius).squeeze([0])
+  ) as tf.Tensor3D;
+}
+
+/**
+ * Elastic distortion: alpha 0-36, sigma 3-8 (Simard et al., 2003)
+ * Simulates the wobble of real pen strokes
+ */
+export function elasticDistortionAugmentation(
   imageData: tf.Tensor3D,
-  config: AugmentationConfig = {}
+  alpha?: number,
+  alphaRange: { min: number; max: number } = { min: 0, max: 34 },
+  options: { sigma?: number; seed?: number; random?: RandomSource } = {}
 ): tf.Tensor3D {
+  const { sigma = 4, random = Math.random } = options;
+
+  // Use provided strength or generate random
+  let strength: number = alpha ?? uniform(random, alphaRange.min, alphaRange.max);
+  const seed = options.seed ?? randomSeed(random);
+
+  // Enforce constraints
+  if (strength < 0 || strength > MAX_ELASTIC_ALPHA) {
+    throw new Error(
+      `Elastic alpha ${strength} outside valid range [0, ${MAX_ELASTIC_ALPHA}]`
+    );
+  }
+  if (sigma < MIN_ELASTIC_SIGMA || sigma > MAX_ELASTIC_SIGMA) {
+    throw new Error(
+      `Elastic sigma ${sigma} outside valid range [${MIN_ELASTIC_SIGMA}, ${MAX_ELASTIC_SIGMA}]`
+    );
+  }
+
   return tf.tidy(() => {
-    let augmented = imageData.clone();
+    if (strength < 0.001) {
+      return imageData.clone();
+    }
+
+    const batched = imageData.expandDims(0) as tf.Tensor4D;
+    return elasticBatch(batched, [{ alpha: strength, sigma, seed }]).squeeze([0]) as tf.Tensor3D;
+  });
+}
+
+/**
+ * Random erasing (cutout): up to 25% of the canvas
+ * Simulates broken strokes and partially occluded digits
+ */
+export function randomErasingAugmentation(
+  imageData: tf.Tensor3D,
+  region?: ErasingRegion,
+  areaRange: { min: number; max: number } = { min: 0.02, max: 0.15 },
+  random: RandomSource = Math.random
+): tf.Tensor3D {
+  const [height, width] = imageData.shape;
 
-    // 1. Rotate (changes orientation)
-    augmented.dispose();
-    augmented = rotateAugmentation(imageData, undefined, config.rotationRange);
+  // Use provided region or generate random
+  let erased: ErasingRegion = region ?? sampleErasingRegion(areaRange, height, width, random);
 
-    // 2. Shear (changes slant)
+  // Enforce constraint
+  validateErasingRegion(erased, height, width);
+
+  return tf.tidy(() => imageData.mul(erasingMask(erased, height, width)) as tf.Tensor3D);
+}
+
+/**
+ * [H, W, 1] mask: 0 inside the erased rectangle, 1 elsewhere
+ */
+export function erasingMask(
+  region: ErasingRegion | null | undefined,
+  height: number,
+  width: number
+): tf.Tensor3D {
+  const mask = tf.buffer([height, width, 1]);
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      const inside = region != null
+        && x >= region.x && x < region.x + region.width
+        && y >= region.y && y < region.y + region.height;
+      mask.set(inside ? 0 : 1, y, x, 0);
+    }
+  }
+  return mask.toTensor() as tf.Tensor3D;
+}
+
+function sampleErasingRegion(
+  areaRange: { min: number; max: number },
+  height: number,
+  width: number,
+  random: RandomSource
+): ErasingRegion {
+  const area = uniform(random, areaRange.min, areaRange.max) * height * width;
+  const aspect = uniform(random, 0.5, 2);
+  const regionWidth = Math.min(width, Math.max(1, Math.round(Math.sqrt(area * aspect))));
+  const regionHeight = Math.min(height, Math.max(1, Math.round(Math.sqrt(area / aspect))));
+  return {
+    x: Math.floor(random() * (width - regionWidth + 1)),
+    y: Math.floor(random() * (height - regionHeight + 1)),
+    width: regionWidth,
+    height: regionHeight,
+  };
+}
+
+function validateErasingRegion(region: ErasingRegion, height: number, width: number): void {
+  const area = (region.width * region.height) / (height * width);
+  if (area < 0 || area > MAX_ERASING_AREA) {
+    throw new Error(
+      `Erasing area ${area.toFixed(3)} outside valid range [0, ${MAX_ERASING_AREA}]`
+    );
+  }
+  if (
+    region.x < 0 || region.y < 0
+    || region.x + region.width > width
+    || region.y + region.height > height
+  ) {
+    throw new Error(
+      `Erasing region ${JSON.stringify(region)} outside the ${width}×${height} canvas`
+    );
+  }
+}
+
+/**
+ * Non-negative 31-bit seed drawn from a random source
+ */
+function randomSeed(random: RandomSource): number {
+  return Math.floor(random() * 0x7fffffff);
+}
+
+/**
+ * Draw concrete augmentation parameters from the configured ranges.
+ * Draw order is fixed (rotation, shear, zoom, shift, then stroke, elastic and
+ * erasing when configured) so a seed always yields the same parameters.
+ */
+export function sampleAugmentationParams(
+  config: AugmentationConfig = {},
+  random: RandomSource = resolveRandom(config)
+): AugmentationParams {
+  const rotationRange = config.rotationRange ?? { min: -15, max: 15 };
+  const shearRange = config.shearRange ?? { min: -0.2, max: 0.2 };
+  const zoomRange = config.zoomRange ?? { min: 0.8, max: 1.2 };
+  const shiftRange = config.shiftRange ?? { width: 4, height: 4 };
+
+  const params: AugmentationParams = {
+    rotation: uniform(random, rotationRange.min, rotationRange.max),
+    shear: uniform(random, shearRange.min, shearRange.max),
+    shearAxis: config.shearAxis ?? 'x',
+    zoom: uniform(random, zoomRange.min, zoomRange.max),
+    shift: {
+      width: symmetricInt(random, shiftRange.width),
+      height: symmetricInt(random, shiftRange.height),
+    },
+  };
+
+  // Handwriting-specific augmentations are opt-in
+  if (config.strokeRange) {
+    params.strokeRadius = Math.round(
+      uniform(random, config.strokeRange.min, config.strokeRange.max)
+    );
+  }
+  if (config.elasticRange) {
+    params.elastic = {
+      alpha: uniform(random, config.elasticRange.min, config.elasticRange.max),
+      sigma: config.elasticSigma ?? 4,
+      seed: randomSeed(random),
+    };
+  }
+  if (config.erasingRange) {
+    params.erasing = random() < (config.erasingProbability ?? 0.5)
+      ? sampleErasingRegion(config.erasingRange, CANVAS_SIZE, CANVAS_SIZE, random)
+      : null;
+  }
+
+  return params;
+}
+
+/**
+ * Check sampled parameters against the hard limits.
+ * Same errors as the individual augmentation functions.
+ */
+export function validateAugmentationParams(params: AugmentationParams): void {
+  if (Math.abs(params.rotation) > MAX_ROTATION) {
+    throw new Error(
+      `Rotation ${params.rotation}° exceeds maximum ±${MAX_ROTATION}°`
+    );
+  }
+  if (params.shear < MIN_SHEAR || params.shear > MAX_SHEAR) {
+    throw new Error(
+      `Shear ${params.shear} outside valid range [${MIN_SHEAR}, ${MAX_SHEAR}]`
+    );
+  }
+  if (params.zoom < MIN_ZOOM || params.zoom > MAX_ZOOM) {
+    throw new Error(
+      `Zoom ${params.zoom} outside valid range [${MIN_ZOOM}, ${MAX_ZOOM}]`
+    );
+  }
+  if (Math.abs(params.shift.width) > MAX_SHIFT_PIXELS) {
+    throw new Error(
+      `Width shift ${params.shift.width}px exceeds maximum ±${MAX_SHIFT_PIXELS}px`
+    );
+  }
+  if (Math.abs(params.shift.height) > MAX_SHIFT_PIXELS) {
+    throw new Error(
+      `Height shift ${params.shift.height}px exceeds maximum ±${MAX_SHIFT_PIXELS}px`
+    );
+  }
+  if (
+    params.strokeRadius !== undefined
+    && (!Number.isInteger(params.strokeRadius) || Math.abs(params.strokeRadius) > MAX_STROKE_RADIUS)
+  ) {
+    throw new Error(
+      `Stroke radius ${params.strokeRadius} outside valid range [-${MAX_STROKE_RADIUS}, ${MAX_STROKE_RADIUS}] (integers only)`
+    );
+  }
+  if (params.elastic) {
+    const { alpha, sigma } = params.elastic;
+    if (alpha < 0 || alpha > MAX_ELASTIC_ALPHA) {
+      throw new Error(
+        `Elastic alpha ${alpha} outside valid range [0, ${MAX_ELASTIC_ALPHA}]`
+      );
+    }
+    if (sigma < MIN_ELASTIC_SIGMA || sigma > MAX_ELASTIC_SIGMA) {
+      throw new Error(
+        `Elastic sigma ${sigma} outside valid range [${MIN_ELASTIC_SIGMA}, ${MAX_ELASTIC_SIGMA}]`
+      );
+    }
+  }
+  if (params.erasing) {
+    validateErasingRegion(params.erasing, CANVAS_SIZE, CANVAS_SIZE);
+  }
+}
+
+/**
+ * Apply previously sampled parameters (deterministic replay)
+ * Order: stroke → elastic → rotation → shear → zoom → shift → erasing
+ */
+export function applyAugmentation(
+  imageData: tf.Tensor3D,
+  params: AugmentationParams
+): tf.Tensor3D {
+  return tf.tidy(() => {
+    // 1. Stroke thickness (on the original strokes, before any resampling)
+    let augmented = strokeThicknessAugmentation(imageData, params.strokeRadius ?? 0);
+
+    // 2. Elastic distortion (local wobble)
+    const thickened = augmented;
+    augmented = elasticDistortionAugmentation(thickened, params.elastic?.alpha ?? 0, undefined, {
+      sigma: params.elastic?.sigma,
+      seed: params.elastic?.seed ?? 0,
+    });
+    thickened.dispose();
+
+    // 3. Rotate (changes orientation)
+    const distorted = augmented;
+    augmented = rotateAugmentation(distorted, params.rotation);
+    distorted.dispose();
+
+    // 4. Shear (changes slant)
     const rotated = augmented;
-    augmented = shearAugmentation(rotated, undefined, config.shearRange);
+    augmented = shearAugmentation(rotated, params.shear, undefined, {
+      axis: params.shearAxis,
+    });
     rotated.dispose();
 
-    // 3. Zoom (changes size)
+    // 5. Zoom (changes size)
     const sheared = augmented;
-    augmented = zoomAugmentation(sheared, undefined, config.zoomRange);
+    augmented = zoomAugmentation(sheared, params.zoom);
     sheared.dispose();
 
-    // 4. Shift (changes position)
+    // 6. Shift (changes position)
     const zoomed = augmented;
-    augmented = shiftAugmentation(zoomed, undefined, config.shiftRange);
+    augmented = shiftAugmentation(zoomed, params.shift);
     zoomed.dispose();
 
+    // 7. Erase a patch (occlusion), last so the hole keeps its shape
+    if (params.erasing) {
+      const shifted = augmented;
+      augmented = randomErasingAugmentation(shifted, params.erasing);
+      shifted.dispose();
+    }
+
     return augmented;
   });
 }
+
+/**
+ * Combined augmentation pipeline
+ * Applies all transformations in sequence:
+ * stroke → elastic → rotation → shear → zoom → shift → erasing
+ * (stroke, elastic and erasing only when configured)
+ *
+ * Pass `{ returnParams: true }` to also receive the sampled parameters.
+ */
+export function augmentImage(
+  imageData: tf.Tensor3D,
+  config?: AugmentationConfig
+): tf.Tensor3D;
+export function augmentImage(
+  imageData: tf.Tensor3D,
+  config: AugmentationConfig,
+  options: { returnParams: true }
+): AugmentationResult;
+export function augmentImage(
+  imageData: tf.Tensor3D,
+  config: AugmentationConfig = {},
+  options: { returnParams?: boolean } = {}
+): tf.Tensor3D | AugmentationResult {
+  const params = sampleAugmentationParams(config);
+  const image = applyAugmentation(imageData, params);
+  return options.returnParams ? { image, params } : image;
+}
+
+/**
+ * Pick the random source for a config: explicit RNG, then seed, then Math.random.
+ * A `seed` yields a new stream on each call, starting from the same draw.
+ */
+export function resolveRandom(config: AugmentationConfig): RandomSource {
+  if (config.random) {
+    return config.random;
+  }
+  if (config.seed !== undefined) {
+    return createSeededRandom(config.seed);
+  }
+  return Math.random;
+}
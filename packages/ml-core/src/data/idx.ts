@@ -0,0 +1,269 @@
+/**
+ * IDX Dataset Format
+ * Reader/writer for MNIST-style `*-idx3-ubyte` / `*-idx1-ubyte` files,
+ * plain or gzip-compressed
+ */
+import { readFile, writeFile } from 'node:fs/promises';
+import { gunzipSync, gzipSync } from 'node:zlib';
+import * as tf from '@tensorflow/tfjs';
+
+/**
+ * IDX element types (third magic byte)
+ */
+export type IdxDataType = 'uint8' | 'int8' | 'int16' | 'int32' | 'float32' | 'float64';
+
+type IdxArray = Uint8Array | Int8Array | Int16Array | Int32Array | Float32Array | Float64Array;
+
+/**
+ * Decoded IDX file: element type, dimensions and row-major values
+ */
+export interface IdxData {
+  dtype: IdxDataType;
+  shape: number[];
+  data: IdxArray;
+}
+
+/**
+ * Paired image / label tensors ready for training
+ */
+export interface IdxDataset {
+  images: tf.Tensor4D; // [N, 28, 28, 1], values in [0, 1]
+  labels: tf.Tensor2D; // [N, 10], one-hot
+}
+
+const TYPE_CODES: Record<IdxDataType, { code: number; size: number }> = {
+  uint8: { code: 0x08, size: 1 },
+  int8: { code: 0x09, size: 1 },
+  int16: { code: 0x0b, size: 2 },
+  int32: { code: 0x0c, size: 4 },
+  float32: { code: 0x0d, size: 4 },
+  float64: { code: 0x0e, size: 8 },
+};
+
+const GZIP_MAGIC = [0x1f, 0x8b];
+const NUM_CLASSES = 10;
+
+/**
+ * Parse an IDX buffer (already decompressed)
+ */
+export function parseIdx(buffer: Uint8Array): IdxData {
+  if (buffer.length < 4 || buffer[0] !== 0 || buffer[1] !== 0) {
+    throw new Error('Invalid IDX file: missing 0x0000 magic prefix');
+  }
+
+  const dtype = dtypeFromCode(buffer[2]);
+  const ndims = buffer[3];
+  const headerSize = 4 + ndims * 4;
+  if (buffer.length < headerSize) {
+    throw new Error(`Invalid IDX file: header truncated (${ndims} dimensions declared)`);
+  }
+
+  const view = new DataView(buffer.buffer, buffer.byteOffset, buffer.byteLength);
+  const shape = Array.from({ length: ndims }, (_, i) => view.getUint32(4 + i * 4, false));
+  const count = shape.reduce((product, dim) => product * dim, 1);
+  const { size } = TYPE_CODES[dtype];
+
+  const expected = headerSize + count * size;
+  if (buffer.length !== expected) {
+    throw new Error(
+      `Invalid IDX file: expected ${expected} bytes for shape [${shape.join(', ')}], got ${buffer.length}`
+    );
+  }
+
+  return { dtype, shape, data: readValues(view, headerSize, count, dtype) };
+}
+
+/**
+ * Encode values as an IDX buffer (uncompressed)
+ */
+export function encodeIdx(idx: IdxData): Uint8Array {
+  const { code, size } = TYPE_CODES[idx.dtype];
+  const count = idx.shape.reduce((product, dim) => product * dim, 1);
+  if (idx.data.length !== count) {
+    throw new Error(
+      `IDX data has ${idx.data.length} values but shape [${idx.shape.join(', ')}] needs ${count}`
+    );
+  }
+
+  const headerSize = 4 + idx.shape.length * 4;
+  const buffer = new Uint8Array(headerSize + count * size);
+  const view = new DataView(buffer.buffer);
+  buffer[2] = code;
+  buffer[3] = idx.shape.length;
+  idx.shape.forEach((dim, i) => view.setUint32(4 + i * 4, dim, false));
+  writeValues(view, headerSize, idx.data, idx.dtype);
+  return buffer;
+}
+
+/**
+ * Read an IDX file, gunzipping it when it starts with the gzip magic bytes
+ */
+export async function readIdxFile(path: string): Promise<IdxData> {
+  const raw = new Uint8Array(await readFile(path));
+  const isGzip = raw[0] === GZIP_MAGIC[0] && raw[1] === GZIP_MAGIC[1];
+  return parseIdx(isGzip ? new Uint8Array(gunzipSync(raw)) : raw);
+}
+
+/**
+ * Write an IDX file; paths ending in `.gz` are gzip-compressed
+ */
+export async function writeIdxFile(path: string, idx: IdxData): Promise<void> {
+  const encoded = encodeIdx(idx);
+  await writeFile(path, path.endsWith('.gz') ? gzipSync(encoded) : encoded);
+}
+
+/**
+ * Load an `idx3-ubyte` image file as normalised [N, H, W, 1] tensors
+ */
+export async function loadIdxImages(path: string): Promise<tf.Tensor4D> {
+  const idx = await readIdxFile(path);
+  if (idx.dtype !== 'uint8' || idx.shape.length !== 3) {
+    throw new Error(
+      `Expected uint8 images with 3 dimensions, got ${idx.dtype} [${idx.shape.join(', ')}]`
+    );
+  }
+
+  const [count, height, width] = idx.shape;
+  return tf.tidy(() =>
+    tf.tensor4d(idx.data as Uint8Array, [count, height, width, 1], 'float32').div(255)
+  ) as tf.Tensor4D;
+}
+
+/**
+ * Load an `idx1-ubyte` label file as one-hot [N, 10] tensors
+ */
+export async function loadIdxLabels(path: string): Promise<tf.Tensor2D> {
+  const idx = await readIdxFile(path);
+  if (idx.dtype !== 'uint8' || idx.shape.length !== 1) {
+    throw new Error(
+      `Expected uint8 labels with 1 dimension, got ${idx.dtype} [${idx.shape.join(', ')}]`
+    );
+  }
+
+  const outOfRange = idx.data.findIndex((label) => label >= NUM_CLASSES);
+  if (outOfRange >= 0) {
+    throw new Error(`Label ${idx.data[outOfRange]} at index ${outOfRange} is not a digit 0-9`);
+  }
+
+  return tf.tidy(() =>
+    tf.oneHot(tf.tensor1d(idx.data as Uint8Array, 'int32'), NUM_CLASSES).toFloat()
+  ) as tf.Tensor2D;
+}
+
+/**
+ * Load a matching image / label file pair
+ */
+export async function loadIdxDataset(paths: {
+  imagesPath: string;
+  labelsPath: string;
+}): Promise<IdxDataset> {
+  const images = await loadIdxImages(paths.imagesPath);
+  let labels: tf.Tensor2D;
+  try {
+    labels = await loadIdxLabels(paths.labelsPath);
+  } catch (error) {
+    images.dispose();
+    throw error;
+  }
+
+  if (images.shape[0] !== labels.shape[0]) {
+    const message = `Image count ${images.shape[0]} does not match label count ${labels.shape[0]}`;
+    images.dispose();
+    labels.dispose();
+    throw new Error(message);
+  }
+
+  return { images, labels };
+}
+
+/**
+ * Export [N, H, W, 1] images with values in [0, 1] as an `idx3-ubyte` file
+ */
+export async function writeIdxImages(path: string, images: tf.Tensor4D): Promise<void> {
+  const [count, height, width, channels] = images.shape;
+  if (channels !== 1) {
+    throw new Error(`Expected single-channel images, got ${channels} channels`);
+  }
+
+  const pixels = tf.tidy(() => images.clipByValue(0, 1).mul(255).round().toInt());
+  const data = Uint8Array.from(pixels.dataSync());
+  pixels.dispose();
+
+  await writeIdxFile(path, { dtype: 'uint8', shape: [count, height, width], data });
+}
+
+/**
+ * Export digit labels (plain digits or one-hot rows) as an `idx1-ubyte` file
+ */
+export async function writeIdxLabels(
+  path: string,
+  labels: number[] | tf.Tensor1D | tf.Tensor2D
+): Promise<void> {
+  let digits: number[];
+  if (Array.isArray(labels)) {
+    digits = labels;
+  } else if (labels.rank === 2) {
+    digits = Array.from(tf.tidy(() => labels.argMax(1)).dataSync());
+  } else {
+    digits = Array.from(labels.dataSync());
+  }
+
+  const invalid = digits.find((digit) => !Number.isInteger(digit) || digit < 0 || digit >= NUM_CLASSES);
+  if (invalid !== undefined) {
+    throw new Error(`Label ${invalid} is not a digit 0-9`);
+  }
+
+  await writeIdxFile(path, { dtype: 'uint8', shape: [digits.length], data: Uint8Array.from(digits) });
+}
+
+function dtypeFromCode(code: number): IdxDataType {
+  const entry = Object.entries(TYPE_CODES).find(([, type]) => type.code === code);
+  if (!entry) {
+    throw new Error(`Invalid IDX file: unknown data type 0x${code.toString(16).padStart(2, '0')}`);
+  }
+  return entry[0] as IdxDataType;
+}
+
+function readValues(view: DataView, offset: number, count: number, dtype: IdxDataType): IdxArray {
+  switch (dtype) {
+    case 'uint8':
+      return new Uint8Array(view.buffer, view.byteOffset + offset, count).slice();
+    case 'int8':
+      return new Int8Array(view.buffer, view.byteOffset + offset, count).slice();
+    case 'int16':
+      return Int16Array.from({ length: count }, (_, i) => view.getInt16(offset + i * 2, false));
+    case 'int32':
+      return Int32Array.from({ length: count }, (_, i) => view.getInt32(offset + i * 4, false));
+    case 'float32':
+      return Float32Array.from({ length: count }, (_, i) => view.getFloat32(offset + i * 4, false));
+    case 'float64':
+      return Float64Array.from({ length: count }, (_, i) => view.getFloat64(offset + i * 8, false));
+  }
+}
+
+function writeValues(view: DataView, offset: number, data: IdxArray, dtype: IdxDataType): void {
+  const { size } = TYPE_CODES[dtype];
+  data.forEach((value, i) => {
+    const at = offset + i * size;
+    switch (dtype) {
+      case 'uint8':
+        view.setUint8(at, value);
+        break;
+      case 'int8':
+        view.setInt8(at, value);
+        break;
+      case 'int16':
+        view.setInt16(at, value, false);
+        break;
+      case 'int32':
+        view.setInt32(at, value, false);
+        break;
+      case 'float32':
+        view.setFloat32(at, value, false);
+        break;
+      case 'float64':
+        view.setFloat64(at, value, false);
+        break;
+    }
+  });
+}
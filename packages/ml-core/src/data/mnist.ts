@@ -0,0 +1,38 @@
+/**
+ * MNIST Dataset Files
+ * Locates the standard MNIST file pairs in a local directory
+ */
+import { access } from 'node:fs/promises';
+import { join } from 'node:path';
+import { loadIdxDataset, type IdxDataset } from './idx';
+
+export type MnistSplit = 'train' | 'test';
+
+const FILE_PREFIX: Record<MnistSplit, string> = {
+  train: 'train',
+  test: 't10k',
+};
+
+/**
+ * Load one MNIST split from `directory`, accepting plain or `.gz` files
+ * (`train-images-idx3-ubyte[.gz]`, `t10k-labels-idx1-ubyte[.gz]`, ...)
+ */
+export async function loadMnist(directory: string, split: MnistSplit = 'train'): Promise<IdxDataset> {
+  const prefix = FILE_PREFIX[split];
+  const imagesPath = await findFile(directory, `${prefix}-images-idx3-ubyte`);
+  const labelsPath = await findFile(directory, `${prefix}-labels-idx1-ubyte`);
+  return loadIdxDataset({ imagesPath, labelsPath });
+}
+
+async function findFile(directory: string, name: string): Promise<string> {
+  for (const candidate of [name, `${name}.gz`]) {
+    const path = join(directory, candidate);
+    try {
+      await access(path);
+      return path;
+    } catch {
+      // Try the next candidate
+    }
+  }
+  throw new Error(`MNIST file ${name}[.gz] not found in ${directory}`);
+}
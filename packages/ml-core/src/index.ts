@@ -4,6 +4,139 @@ export {
   shiftAugmentation,
   zoomAugmentation,
   shearAugmentation,
+  strokeThicknessAugmentation,
+  elasticDistortionAugmentation,
+  randomErasingAugmentation,
   augmentImage,
+  applyAugmentation,
+  sampleAugmentationParams,
+  validateAugmentationParams,
   type AugmentationConfig,
+  type AugmentationParams,
+  type AugmentationResult,
+  type ElasticParams,
+  type ErasingRegion,
+  type ShearAxis,
+  type ShearOptions,
 } from './augmentation';
+
+// Export batched augmentation / tf.data integration
+export {
+  augmentBatch,
+  applyBatchAugmentation,
+  createAugmentationMapFn,
+  type BatchAugmentationResult,
+} from './augmentation-batch';
+
+// Export seeded random utilities
+export { createSeededRandom, type RandomSource } from './random';
+
+// Export IDX dataset reader/writer
+export {
+  parseIdx,
+  encodeIdx,
+  readIdxFile,
+  writeIdxFile,
+  loadIdxImages,
+  loadIdxLabels,
+  loadIdxDataset,
+  writeIdxImages,
+  writeIdxLabels,
+  type IdxData,
+  type IdxDataType,
+  type IdxDataset,
+} from './data/idx';
+
+// Export MNIST dataset loading
+export { loadMnist, type MnistSplit } from './data/mnist';
+
+// Export model architecture
+export { createModel, DEFAULT_MODEL_CONFIG, type ModelConfig } from './model/architecture';
+
+// Export training
+export {
+  trainModel,
+  type TrainingConfig,
+  type TrainingMetrics,
+  type EpochMetrics,
+} from './model/training';
+
+// Export model persistence
+export {
+  saveModel,
+  loadModel,
+  readModelMetadata,
+  updateModelMetadata,
+  fileSystemHandler,
+  hashDataset,
+  modelPaths,
+  MODEL_SCHEMA_VERSION,
+  ModelMetadataSchema,
+  type ModelMetadata,
+  type ModelMetadataInput,
+  type ModelMetadataUpdate,
+  type LoadModelOptions,
+} from './model/persistence';
+
+// Export evaluation and reporting
+export {
+  evaluateModel,
+  evaluatePredictions,
+  type EvaluationOptions,
+  type EvaluationReport,
+  type ClassMetrics,
+  type CalibrationBin,
+} from './model/evaluation';
+export {
+  applyTemperature,
+  fitTemperature,
+  scalePrediction,
+  type CalibrationScore,
+  type TemperatureFit,
+  type TemperatureFitOptions,
+} from './model/temperature';
+export {
+  formatEvaluationJson,
+  formatEvaluationMarkdown,
+  replaceEvaluationSection,
+} from './model/evaluation-report';
+
+// Export MNIST preprocessing (also available as @repo/ml-core/preprocessing)
+export * from './preprocessing';
+
+// Export inference
+export { predictDigit, type DigitClassifier, type DigitPrediction } from './inference/predict';
+export { predictBatch } from './inference/batch';
+export {
+  predictWithTTA,
+  ttaImages,
+  aggregateTTA,
+  DEFAULT_TTA_VARIANTS,
+  type TTAVariant,
+  type TTAAggregation,
+  type TTAOptions,
+} from './inference/tta';
+export {
+  createEnsemble,
+  loadEnsemble,
+  type Ensemble,
+  type EnsembleAggregation,
+  type EnsembleOptions,
+} from './inference/ensemble';
+export {
+  abstainReason,
+  abstainSample,
+  calibrateAbstainThresholds,
+  checkConfidence,
+  checkInk,
+  evaluateAbstention,
+  inkCoverage,
+  inkExtent,
+  normalizedEntropy,
+  AbstainThresholdsSchema,
+  DEFAULT_ABSTAIN_THRESHOLDS,
+  type AbstainSample,
+  type AbstainThresholds,
+  type AbstentionReport,
+  type RejectionReason,
+} from './inference/abstain';
@@ -0,0 +1,216 @@
+/**
+ * Abstention
+ * Decides when a prediction should not be trusted: no ink, too little ink,
+ * ink that looks nothing like a digit, or a model output that is too unsure
+ */
+import { z } from 'zod';
+import { boundingBox, type GrayscaleImage } from '../preprocessing';
+import type { DigitPrediction } from './predict';
+
+/**
+ * Why a drawing got no digit:
+ * - EMPTY: (almost) no ink
+ * - TOO_SMALL: a speck relative to the canvas
+ * - NOT_A_DIGIT: ink or output unlike any digit (scribbles, filled areas)
+ * - AMBIGUOUS: looks like a digit, but the model can't pick one
+ */
+export type RejectionReason = 'EMPTY' | 'TOO_SMALL' | 'NOT_A_DIGIT' | 'AMBIGUOUS';
+
+export const AbstainThresholdsSchema = z
+  .object({
+    minInkCoverage: z.number().min(0).max(1), // Inked fraction of the 28×28 digit (≤ ~0.51), below = EMPTY
+    maxInkCoverage: z.number().min(0).max(1), // Above = NOT_A_DIGIT
+    minInkExtent: z.number().min(0).max(1), // Longest ink side / canvas side, below = TOO_SMALL
+    minConfidence: z.number().min(0).max(1), // Top softmax probability, below = AMBIGUOUS
+    maxEntropy: z.number().min(0).max(1), // Normalised output entropy, above = NOT_A_DIGIT
+  })
+  .strict();
+
+export type AbstainThresholds = z.infer<typeof AbstainThresholdsSchema>;
+
+/**
+ * Used for models whose metadata carries no calibrated thresholds
+ */
+export const DEFAULT_ABSTAIN_THRESHOLDS: AbstainThresholds = {
+  minInkCoverage: 0.02,
+  maxInkCoverage: 0.4,
+  minInkExtent: 0.05,
+  minConfidence: 0.5,
+  maxEntropy: 0.6,
+};
+
+// Same cut-off as `preprocessDigit` uses for the bounding box
+const INK_THRESHOLD = 0.1;
+
+/**
+ * Fraction of pixels counted as ink
+ */
+export function inkCoverage(image: GrayscaleImage): number {
+  let inked = 0;
+  for (const value of image.data) {
+    if (value > INK_THRESHOLD) inked++;
+  }
+  return image.data.length > 0 ? inked / image.data.length : 0;
+}
+
+/**
+ * Longest side of the ink's bounding box relative to the matching canvas side
+ * (0 for a blank canvas)
+ */
+export function inkExtent(image: GrayscaleImage): number {
+  const box = boundingBox(image, INK_THRESHOLD);
+  return box ? Math.max(box.width / image.width, box.height / image.height) : 0;
+}
+
+/**
+ * Shannon entropy of a probability vector, divided by its maximum (ln of the
+ * class count): 0 for a one-hot output, 1 for a uniform one
+ */
+export function normalizedEntropy(probabilities: number[]): number {
+  if (probabilities.length < 2) return 0;
+  const entropy = probabilities.reduce((sum, p) => (p > 0 ? sum - p * Math.log(p) : sum), 0);
+  return Math.min(1, entropy / Math.log(probabilities.length));
+}
+
+/**
+ * Ink checks, before trusting the model. `digit` is the preprocessed 28×28
+ * image; `source` is the drawing before preprocessing, which alone shows how
+ * large the ink was on the canvas.
+ */
+export function checkInk(
+  digit: GrayscaleImage,
+  source: GrayscaleImage | null,
+  thresholds: AbstainThresholds = DEFAULT_ABSTAIN_THRESHOLDS
+): RejectionReason | null {
+  const coverage = inkCoverage(digit);
+  if (coverage < thresholds.minInkCoverage) return 'EMPTY';
+  if (source && inkExtent(source) < thresholds.minInkExtent) return 'TOO_SMALL';
+  if (coverage > thresholds.maxInkCoverage) return 'NOT_A_DIGIT';
+  return null;
+}
+
+/**
+ * Output checks: probability spread over many classes means the input is
+ * unlike any digit; a low top probability alone means it sits between digits
+ */
+export function checkConfidence(
+  probabilities: number[],
+  thresholds: AbstainThresholds = DEFAULT_ABSTAIN_THRESHOLDS
+): RejectionReason | null {
+  if (normalizedEntropy(probabilities) > thresholds.maxEntropy) return 'NOT_A_DIGIT';
+  if (Math.max(...probabilities) < thresholds.minConfidence) return 'AMBIGUOUS';
+  return null;
+}
+
+/**
+ * Why `prediction` should be withheld, or null to report it
+ */
+export function abstainReason(
+  prediction: DigitPrediction,
+  digit: GrayscaleImage,
+  source: GrayscaleImage | null,
+  thresholds: AbstainThresholds = DEFAULT_ABSTAIN_THRESHOLDS
+): RejectionReason | null {
+  return checkInk(digit, source, thresholds) ?? checkConfidence(prediction.probabilities, thresholds);
+}
+
+/**
+ * Per-sample statistics of held-out digits, for calibration
+ */
+export interface AbstainSample {
+  coverage: number;
+  confidence: number;
+  entropy: number;
+}
+
+export function abstainSample(digit: GrayscaleImage, prediction: DigitPrediction): AbstainSample {
+  return {
+    coverage: inkCoverage(digit),
+    confidence: prediction.confidence,
+    entropy: normalizedEntropy(prediction.probabilities),
+  };
+}
+
+/**
+ * Thresholds that reject at most about `rejectRate` of held-out digits per
+ * check (half of it at each end of the ink coverage range). `minInkExtent`
+ * depends on the canvas, which held-out 28×28 digits don't have, so it is
+ * kept from `base`.
+ */
+export function calibrateAbstainThresholds(
+  samples: AbstainSample[],
+  rejectRate = 0.01,
+  base: AbstainThresholds = DEFAULT_ABSTAIN_THRESHOLDS
+): AbstainThresholds {
+  if (samples.length === 0) {
+    throw new Error('Cannot calibrate abstention thresholds without samples');
+  }
+  if (!(rejectRate > 0 && rejectRate < 1)) {
+    throw new Error(`Reject rate ${rejectRate} must be between 0 and 1`);
+  }
+
+  const coverages = samples.map((sample) => sample.coverage);
+  return {
+    ...base,
+    minInkCoverage: quantile(coverages, rejectRate / 2),
+    maxInkCoverage: quantile(coverages, 1 - rejectRate / 2),
+    minConfidence: quantile(
+      samples.map((sample) => sample.confidence),
+      rejectRate
+    ),
+    maxEntropy: quantile(
+      samples.map((sample) => sample.entropy),
+      1 - rejectRate
+    ),
+  };
+}
+
+/**
+ * Value below which a fraction `q` of `values` lies (nearest rank)
+ */
+function quantile(values: number[], q: number): number {
+  const sorted = [...values].sort((a, b) => a - b);
+  return sorted[Math.min(sorted.length - 1, Math.max(0, Math.floor(q * sorted.length)))];
+}
+
+/**
+ * How a set of thresholds behaves on labelled digits
+ */
+export interface AbstentionReport {
+  count: number;
+  rejectRate: number;
+  rejectedBy: Record<RejectionReason, number>; // Counts
+  accuracy: number; // Over every sample
+  acceptedAccuracy: number; // Over the samples not rejected (0 when none are)
+}
+
+export function evaluateAbstention(
+  samples: { digit: GrayscaleImage; prediction: DigitPrediction; label: number }[],
+  thresholds: AbstainThresholds
+): AbstentionReport {
+  const rejectedBy: Record<RejectionReason, number> = { EMPTY: 0, TOO_SMALL: 0, NOT_A_DIGIT: 0, AMBIGUOUS: 0 };
+  let correct = 0;
+  let accepted = 0;
+  let acceptedCorrect = 0;
+
+  for (const { digit, prediction, label } of samples) {
+    const isCorrect = prediction.digit === label;
+    if (isCorrect) correct++;
+    const reason = abstainReason(prediction, digit, null, thresholds);
+    if (reason) {
+      rejectedBy[reason]++;
+    } else {
+      accepted++;
+      if (isCorrect) acceptedCorrect++;
+    }
+  }
+
+  const count = samples.length;
+  return {
+    count,
+    rejectRate: count > 0 ? (count - accepted) / count : 0,
+    rejectedBy,
+    accuracy: count > 0 ? correct / count : 0,
+    acceptedAccuracy: accepted > 0 ? acceptedCorrect / accepted : 0,
+  };
+}
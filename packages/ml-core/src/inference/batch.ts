@@ -0,0 +1,55 @@
+/**
+ * Batch Inference
+ * Runs many preprocessed digits through the model in one forward pass
+ */
+import * as tf from '@tensorflow/tfjs';
+import type { GrayscaleImage } from '../preprocessing';
+import {
+  forwardPass,
+  inputShape,
+  toPrediction,
+  type DigitClassifier,
+  type DigitPrediction,
+} from './predict';
+
+/**
+ * Classify several preprocessed images as a single [N, H, W, C] tensor.
+ *
+ * Results come back in input order. Every prediction reports the time of the
+ * whole batch, since they all come out of the same forward pass.
+ */
+export async function predictBatch(
+  model: DigitClassifier,
+  images: (GrayscaleImage | Float32Array)[]
+): Promise<DigitPrediction[]> {
+  if (images.length === 0) {
+    return [];
+  }
+
+  const start = performance.now();
+  const [height, width, channels] = inputShape(model);
+  const size = height * width * channels;
+  const batch = new Float32Array(images.length * size);
+  images.forEach((image, i) => {
+    const pixels = image instanceof Float32Array ? image : image.data;
+    if (pixels.length !== size) {
+      throw new Error(
+        `Model expects ${height}×${width}×${channels} = ${size} values, image ${i} has ${pixels.length}`
+      );
+    }
+    batch.set(pixels, i * size);
+  });
+
+  const output = tf.tidy(() =>
+    forwardPass(model, tf.tensor4d(batch, [images.length, height, width, channels]))
+  );
+  const rows = await output.probabilities.array();
+  const disagreement = output.disagreement && (await output.disagreement.data());
+  tf.dispose(output);
+
+  const inferenceTime = performance.now() - start;
+  return rows.map((probabilities, i) => ({
+    ...toPrediction(probabilities, inferenceTime),
+    ...(disagreement && { disagreement: disagreement[i] }),
+  }));
+}
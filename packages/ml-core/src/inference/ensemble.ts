@@ -0,0 +1,136 @@
+/**
+ * Model Ensembles
+ * Several models (e.g. different seeds or architectures) behind the same
+ * `DigitClassifier` interface as one model, combined by weighted mean or
+ * weighted majority vote. How much the members disagree comes out beside the
+ * probabilities as an extra uncertainty signal.
+ */
+import * as tf from '@tensorflow/tfjs';
+import { loadModel, readModelMetadata, type LoadModelOptions } from '../model/persistence';
+import type { DigitClassifier } from './predict';
+
+/**
+ * 'mean' averages the members' probabilities; 'vote' reports each digit's
+ * share of the members' votes (ties go to the lower digit)
+ */
+export type EnsembleAggregation = 'mean' | 'vote';
+
+export interface EnsembleOptions {
+  weights?: number[]; // One per member, default equal
+  aggregation?: EnsembleAggregation; // Default 'mean'
+  temperatures?: number[]; // One per member, applied before combining; default 1
+}
+
+/**
+ * Members combined as one classifier. `disagreement` is the share of the
+ * weight voting for another digit than the ensemble's: 0 when all agree.
+ */
+export interface Ensemble extends DigitClassifier {
+  readonly members: readonly tf.LayersModel[];
+  readonly weights: readonly number[]; // Normalised to sum to 1
+  readonly aggregation: EnsembleAggregation;
+  predict(x: tf.Tensor, args?: { batchSize?: number }): tf.Tensor2D;
+  predictWithDisagreement(
+    x: tf.Tensor,
+    args?: { batchSize?: number }
+  ): { probabilities: tf.Tensor2D; disagreement: tf.Tensor1D };
+  /** Dispose every member */
+  dispose(): void;
+}
+
+// Floor for log(p) when applying a member's temperature
+const MIN_PROBABILITY = 1e-12;
+
+/**
+ * Combine loaded models, which must share their input shape and class count
+ */
+export function createEnsemble(members: tf.LayersModel[], options: EnsembleOptions = {}): Ensemble {
+  const { aggregation = 'mean' } = options;
+  if (members.length === 0) {
+    throw new Error('An ensemble needs at least one member');
+  }
+  const weights = options.weights ?? members.map(() => 1);
+  const temperatures = options.temperatures ?? members.map(() => 1);
+  if (weights.length !== members.length || temperatures.length !== members.length) {
+    throw new Error(
+      `Expected one weight and temperature per member, received ${weights.length} weights and ` +
+        `${temperatures.length} temperatures for ${members.length} members`
+    );
+  }
+  const totalWeight = weights.reduce((sum, weight) => sum + weight, 0);
+  if (weights.some((weight) => !(weight >= 0) || !Number.isFinite(weight)) || !(totalWeight > 0)) {
+    throw new Error(`Ensemble weights [${weights.join(', ')}] must be non-negative with a positive sum`);
+  }
+  if (temperatures.some((temperature) => !(temperature > 0))) {
+    throw new Error(`Ensemble temperatures [${temperatures.join(', ')}] must be positive`);
+  }
+
+  const signature = (model: tf.LayersModel) =>
+    JSON.stringify([model.inputs[0].shape, model.outputs[0].shape]);
+  const mismatch = members.findIndex((member) => signature(member) !== signature(members[0]));
+  if (mismatch >= 0) {
+    throw new Error(
+      `Ensemble member ${mismatch} has shapes ${signature(members[mismatch])}, member 0 ${signature(members[0])}`
+    );
+  }
+
+  const normalised = weights.map((weight) => weight / totalWeight);
+  const weightedSum = (tensors: tf.Tensor2D[]) =>
+    tf.addN(tensors.map((tensor, i) => tensor.mul(normalised[i]))) as tf.Tensor2D;
+
+  const predictWithDisagreement = (x: tf.Tensor, args?: { batchSize?: number }) =>
+    tf.tidy(() => {
+      const outputs = members.map((member, i): tf.Tensor2D => {
+        const probabilities = member.predict(x, args) as tf.Tensor2D;
+        if (temperatures[i] === 1) return probabilities;
+        const logits = tf.log(tf.maximum(probabilities, MIN_PROBABILITY)).div<tf.Tensor2D>(temperatures[i]);
+        return tf.softmax(logits);
+      });
+      const numClasses = outputs[0].shape[1];
+      const votes = weightedSum(
+        outputs.map((output) => tf.oneHot(output.argMax(1), numClasses).toFloat() as tf.Tensor2D)
+      );
+      const probabilities = aggregation === 'mean' ? weightedSum(outputs) : votes;
+      const agreement = votes.mul(tf.oneHot(probabilities.argMax(1), numClasses)).sum(1);
+      return { probabilities, disagreement: tf.sub(1, agreement) as tf.Tensor1D };
+    });
+
+  return {
+    members,
+    weights: normalised,
+    aggregation,
+    inputs: members[0].inputs,
+    predict: (x, args) => {
+      const { probabilities, disagreement } = predictWithDisagreement(x, args);
+      disagreement.dispose();
+      return probabilities;
+    },
+    predictWithDisagreement,
+    dispose: () => members.forEach((member) => member.dispose()),
+  };
+}
+
+/**
+ * Load models saved by `saveModel` as an ensemble. Each member's calibrated
+ * temperature, if any, is applied to it before combining, unless
+ * `options.temperatures` overrides them.
+ */
+export async function loadEnsemble(
+  basePaths: string[],
+  options: EnsembleOptions & { expected?: LoadModelOptions } = {}
+): Promise<Ensemble> {
+  const { expected, ...ensemble } = options;
+  const members: tf.LayersModel[] = [];
+  try {
+    for (const basePath of basePaths) {
+      members.push(await loadModel(basePath, expected));
+    }
+    const temperatures =
+      ensemble.temperatures ??
+      (await Promise.all(basePaths.map(async (path) => (await readModelMetadata(path)).temperature ?? 1)));
+    return createEnsemble(members, { ...ensemble, temperatures });
+  } catch (error) {
+    members.forEach((member) => member.dispose());
+    throw error;
+  }
+}
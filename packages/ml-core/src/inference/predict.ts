@@ -0,0 +1,92 @@
+/**
+ * Single-Image Inference
+ * Runs a preprocessed 28×28 digit through a loaded model
+ */
+import * as tf from '@tensorflow/tfjs';
+import type { GrayscaleImage } from '../preprocessing';
+
+/**
+ * Prediction for one digit
+ */
+export interface DigitPrediction {
+  digit: number; // 0-9
+  probabilities: number[]; // One per class, summing to 1
+  confidence: number; // Probability of `digit`
+  inferenceTime: number; // Milliseconds
+  disagreement?: number; // Ensembles only: 0 when every member agrees (see `Ensemble`)
+}
+
+/**
+ * What inference needs from a model: its input shape and a forward pass from
+ * an [N, H, W, C] batch to [N, classes] probabilities. A `tf.LayersModel` is
+ * one, and so is an `Ensemble`.
+ */
+export interface DigitClassifier {
+  readonly inputs: readonly { readonly shape: readonly (number | null)[] }[];
+  predict(x: tf.Tensor, args?: { batchSize?: number }): tf.Tensor | tf.Tensor[];
+  /** Probabilities and, per image, how much the classifier's members disagree */
+  predictWithDisagreement?(
+    x: tf.Tensor,
+    args?: { batchSize?: number }
+  ): { probabilities: tf.Tensor2D; disagreement: tf.Tensor1D };
+}
+
+/**
+ * Classify one preprocessed image (values 0-1, e.g. from `preprocessDigit`)
+ */
+export async function predictDigit(
+  model: DigitClassifier,
+  image: GrayscaleImage | Float32Array
+): Promise<DigitPrediction> {
+  const start = performance.now();
+  const [height, width, channels] = inputShape(model);
+  const pixels = image instanceof Float32Array ? image : image.data;
+  if (pixels.length !== height * width * channels) {
+    throw new Error(
+      `Model expects ${height}×${width}×${channels} = ${height * width * channels} values, received ${pixels.length}`
+    );
+  }
+
+  const output = tf.tidy(() => forwardPass(model, tf.tensor4d(pixels, [1, height, width, channels])));
+  const probabilities = Array.from(await output.probabilities.data());
+  const disagreement = output.disagreement && (await output.disagreement.data())[0];
+  tf.dispose(output);
+
+  return {
+    ...toPrediction(probabilities, performance.now() - start),
+    ...(disagreement !== undefined && { disagreement }),
+  };
+}
+
+/**
+ * Run a batch through `model`, with the disagreement of an ensemble's members
+ */
+export function forwardPass(
+  model: DigitClassifier,
+  batch: tf.Tensor4D
+): { probabilities: tf.Tensor2D; disagreement?: tf.Tensor1D } {
+  if (model.predictWithDisagreement) {
+    return model.predictWithDisagreement(batch);
+  }
+  return { probabilities: model.predict(batch) as tf.Tensor2D };
+}
+
+/**
+ * [height, width, channels] of a single model input
+ */
+export function inputShape(model: DigitClassifier): [number, number, number] {
+  return model.inputs[0].shape.slice(1) as [number, number, number];
+}
+
+/**
+ * Pick the most probable class from one row of softmax output
+ */
+export function toPrediction(probabilities: number[], inferenceTime: number): DigitPrediction {
+  const digit = probabilities.indexOf(Math.max(...probabilities));
+  return {
+    digit,
+    probabilities,
+    confidence: probabilities[digit],
+    inferenceTime,
+  };
+}
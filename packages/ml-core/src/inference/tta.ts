@@ -0,0 +1,121 @@
+/**
+ * Test-Time Augmentation
+ * Classifies a digit as several small, fixed perturbations of it (shifted,
+ * rotated, zoomed) in one forward pass, then averages or votes over them, so
+ * one unlucky rendering of sloppy handwriting matters less
+ */
+import * as tf from '@tensorflow/tfjs';
+import { rotateAugmentation, shiftAugmentation, zoomAugmentation } from '../augmentation';
+import type { GrayscaleImage } from '../preprocessing';
+import { predictBatch } from './batch';
+import { toPrediction, type DigitClassifier, type DigitPrediction } from './predict';
+
+/**
+ * One perturbation, applied as rotation, then zoom, then shift; empty is the
+ * original digit
+ */
+export interface TTAVariant {
+  rotation?: number; // Degrees
+  zoom?: number;
+  shift?: { width: number; height: number }; // Pixels
+}
+
+/**
+ * 'mean' averages the probabilities; 'vote' picks the digit most variants
+ * predict (ties go to the higher mean probability)
+ */
+export type TTAAggregation = 'mean' | 'vote';
+
+export interface TTAOptions {
+  variants?: TTAVariant[]; // Default DEFAULT_TTA_VARIANTS
+  aggregation?: TTAAggregation; // Default 'mean'
+}
+
+/**
+ * Nine deterministic variants: the original, ±1 px shifts, ±8° rotations and
+ * 0.9× / 1.1× zooms, well inside the training augmentation ranges
+ */
+export const DEFAULT_TTA_VARIANTS: readonly TTAVariant[] = [
+  {},
+  { shift: { width: -1, height: 0 } },
+  { shift: { width: 1, height: 0 } },
+  { shift: { width: 0, height: -1 } },
+  { shift: { width: 0, height: 1 } },
+  { rotation: -8 },
+  { rotation: 8 },
+  { zoom: 0.9 },
+  { zoom: 1.1 },
+];
+
+/**
+ * The perturbed copies of a preprocessed 28×28 digit, in `variants` order
+ */
+export function ttaImages(
+  image: GrayscaleImage,
+  variants: readonly TTAVariant[] = DEFAULT_TTA_VARIANTS
+): GrayscaleImage[] {
+  if (image.width !== 28 || image.height !== 28) {
+    throw new Error(`Test-time augmentation needs a 28×28 digit, received ${image.width}×${image.height}`);
+  }
+
+  return tf.tidy(() => {
+    const original = tf.tensor3d(image.data, [28, 28, 1]);
+    return variants.map((variant) => {
+      let augmented = original;
+      if (variant.rotation !== undefined) augmented = rotateAugmentation(augmented, variant.rotation);
+      if (variant.zoom !== undefined) augmented = zoomAugmentation(augmented, variant.zoom);
+      if (variant.shift !== undefined) augmented = shiftAugmentation(augmented, variant.shift);
+      return { data: augmented.dataSync() as Float32Array, width: 28, height: 28 };
+    });
+  });
+}
+
+/**
+ * Combine the predictions for one digit's variants. `inferenceTime` is kept
+ * from the first, as they share a forward pass.
+ */
+export function aggregateTTA(
+  predictions: DigitPrediction[],
+  aggregation: TTAAggregation = 'mean'
+): DigitPrediction {
+  if (predictions.length === 0) {
+    throw new Error('Cannot aggregate an empty set of predictions');
+  }
+
+  const numClasses = predictions[0].probabilities.length;
+  const mean = Array.from(
+    { length: numClasses },
+    (_, c) => predictions.reduce((sum, prediction) => sum + prediction.probabilities[c], 0) / predictions.length
+  );
+  const averaged: DigitPrediction = {
+    ...toPrediction(mean, predictions[0].inferenceTime),
+    // An ensemble's disagreement is averaged like the probabilities
+    ...(predictions[0].disagreement !== undefined && {
+      disagreement:
+        predictions.reduce((sum, prediction) => sum + (prediction.disagreement ?? 0), 0) / predictions.length,
+    }),
+  };
+  if (aggregation === 'mean') return averaged;
+
+  const votes = new Array<number>(numClasses).fill(0);
+  predictions.forEach((prediction) => votes[prediction.digit]++);
+  const digit = votes.reduce(
+    (best, count, c) => (count > votes[best] || (count === votes[best] && mean[c] > mean[best]) ? c : best),
+    0
+  );
+  return { ...averaged, digit, confidence: mean[digit] };
+}
+
+/**
+ * Classify a preprocessed 28×28 digit with test-time augmentation: all
+ * variants run as one batch of K images
+ */
+export async function predictWithTTA(
+  model: DigitClassifier,
+  image: GrayscaleImage,
+  options: TTAOptions = {}
+): Promise<DigitPrediction> {
+  const variants = options.variants ?? DEFAULT_TTA_VARIANTS;
+  const predictions = await predictBatch(model, ttaImages(image, variants));
+  return aggregateTTA(predictions, options.aggregation);
+}
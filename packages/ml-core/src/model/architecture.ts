@@ -0,0 +1,131 @@
+/**
+ * CNN Architecture
+ * Conv2D(32) → Pool → Conv2D(64) → Pool → Dropout → Dense(128) → Dropout → Dense(10)
+ * (see docs/MODEL_CARD.md)
+ */
+import * as tf from '@tensorflow/tfjs';
+
+/**
+ * Model factory configuration
+ */
+export interface ModelConfig {
+  inputShape: [number, number, number];
+  numClasses: number;
+  conv1Filters: number;
+  conv2Filters: number;
+  kernelSize: number;
+  denseUnits: number;
+  convDropout: number;
+  denseDropout: number;
+  learningRate: number;
+  seed?: number; // Weight initialisation seed
+}
+
+/**
+ * Defaults matching the model card
+ */
+export const DEFAULT_MODEL_CONFIG: ModelConfig = {
+  inputShape: [28, 28, 1],
+  numClasses: 10,
+  conv1Filters: 32,
+  conv2Filters: 64,
+  kernelSize: 3,
+  denseUnits: 128,
+  convDropout: 0.25,
+  denseDropout: 0.5,
+  learningRate: 0.001,
+};
+
+/**
+ * Build and compile the digit classifier (Adam + categorical cross-entropy)
+ */
+export function createModel(config: Partial<ModelConfig> = {}): tf.Sequential {
+  const resolved = { ...DEFAULT_MODEL_CONFIG, ...config };
+  validateModelConfig(resolved);
+
+  let { seed } = resolved;
+  const kernelInitializer = () =>
+    tf.initializers.glorotUniform({ seed: seed === undefined ? undefined : seed++ });
+
+  const model = tf.sequential({
+    layers: [
+      tf.layers.conv2d({
+        inputShape: resolved.inputShape,
+        filters: resolved.conv1Filters,
+        kernelSize: resolved.kernelSize,
+        activation: 'relu',
+        kernelInitializer: kernelInitializer(),
+      }),
+      tf.layers.maxPooling2d({ poolSize: 2 }),
+      tf.layers.conv2d({
+        filters: resolved.conv2Filters,
+        kernelSize: resolved.kernelSize,
+        activation: 'relu',
+        kernelInitializer: kernelInitializer(),
+      }),
+      tf.layers.maxPooling2d({ poolSize: 2 }),
+      tf.layers.dropout({ rate: resolved.convDropout, seed: resolved.seed }),
+      tf.layers.flatten(),
+      tf.layers.dense({
+        units: resolved.denseUnits,
+        activation: 'relu',
+        kernelInitializer: kernelInitializer(),
+      }),
+      tf.layers.dropout({ rate: resolved.denseDropout, seed: resolved.seed }),
+      tf.layers.dense({
+        units: resolved.numClasses,
+        activation: 'softmax',
+        kernelInitializer: kernelInitializer(),
+      }),
+    ],
+  });
+
+  model.compile({
+    optimizer: tf.train.adam(resolved.learningRate),
+    loss: 'categoricalCrossentropy',
+    metrics: ['accuracy'],
+  });
+
+  return model;
+}
+
+function validateModelConfig(config: ModelConfig): void {
+  const [height, width, channels] = config.inputShape;
+  const positive = {
+    height,
+    width,
+    channels,
+    numClasses: config.numClasses,
+    conv1Filters: config.conv1Filters,
+    conv2Filters: config.conv2Filters,
+    kernelSize: config.kernelSize,
+    denseUnits: config.denseUnits,
+  };
+  for (const [name, value] of Object.entries(positive)) {
+    if (!Number.isInteger(value) || value < 1) {
+      throw new Error(`Model ${name} must be a positive integer, received ${value}`);
+    }
+  }
+
+  for (const [name, rate] of Object.entries({
+    convDropout: config.convDropout,
+    denseDropout: config.denseDropout,
+  })) {
+    if (!(rate >= 0 && rate < 1)) {
+      throw new Error(`Model ${name} must be in [0, 1), received ${rate}`);
+    }
+  }
+
+  if (!(config.learningRate > 0)) {
+    throw new Error(`Learning rate must be positive, received ${config.learningRate}`);
+  }
+
+  // Two valid convolutions and two 2×2 pools must leave at least one pixel
+  const after = (size: number) =>
+    Math.floor((Math.floor((size - config.kernelSize + 1) / 2) - config.kernelSize + 1) / 2);
+  if (after(height) < 1 || after(width) < 1) {
+    throw new Error(
+      `Input ${height}×${width} is too small for kernel size ${config.kernelSize}`
+    );
+  }
+}
@@ -0,0 +1,134 @@
+/**
+ * Evaluation Reporters
+ * JSON and Markdown renderings of an `EvaluationReport`; the Markdown matches
+ * the tables in docs/MODEL_CARD.md
+ */
+import type { EvaluationReport } from './evaluation';
+import type { TrainingMetrics } from './training';
+
+export const EVALUATION_SECTION_START = '<!-- evaluation:start -->';
+export const EVALUATION_SECTION_END = '<!-- evaluation:end -->';
+
+/**
+ * Machine-readable report
+ */
+export function formatEvaluationJson(report: EvaluationReport): string {
+  return `${JSON.stringify(report, null, 2)}\n`;
+}
+
+/**
+ * Model card tables: training scores (from the model metadata, when given),
+ * test summary, confusion matrix, per-class metrics, calibration
+ */
+export function formatEvaluationMarkdown(report: EvaluationReport, training?: TrainingMetrics): string {
+  const trainingSection = training
+    ? [
+        '### Training',
+        '',
+        table(
+          ['Metric', 'Value'],
+          [
+            ['Training Accuracy', percent(training.accuracy)],
+            ['Validation Accuracy', percent(training.valAccuracy)],
+            ['Final Training Loss', training.loss.toFixed(4)],
+            ['Final Validation Loss', training.valLoss.toFixed(4)],
+            ['Epochs', String(training.epochs)],
+          ]
+        ),
+        '',
+      ]
+    : [];
+
+  const summary = [
+    ['Test Accuracy', percent(report.accuracy)],
+    ...report.topK
+      .filter(({ k }) => k > 1)
+      .map(({ k, accuracy }) => [`Top-${k} Accuracy`, percent(accuracy)]),
+    ['Macro F1-Score', report.macro.f1.toFixed(3)],
+    ['Expected Calibration Error', report.calibration.ece.toFixed(4)],
+    ['Test Samples', String(report.sampleCount)],
+  ];
+
+  const perClass = report.perClass.map((metrics) => [
+    String(metrics.digit),
+    percent(metrics.precision),
+    percent(metrics.recall),
+    metrics.f1.toFixed(3),
+    String(metrics.support),
+  ]);
+
+  const calibration = report.calibration.bins.map((bin) => [
+    `${bin.lower.toFixed(1)}–${bin.upper.toFixed(1)}`,
+    String(bin.count),
+    bin.count ? percent(bin.confidence) : '—',
+    bin.count ? percent(bin.accuracy) : '—',
+    bin.count ? percent(bin.accuracy - bin.confidence) : '—',
+  ]);
+
+  return [
+    ...trainingSection,
+    '### Performance',
+    '',
+    table(['Metric', 'Value'], summary),
+    '',
+    '### Confusion Matrix',
+    '',
+    'Rows are true digits, columns are predicted digits.',
+    '',
+    '```',
+    confusionMatrixText(report.confusionMatrix),
+    '```',
+    '',
+    '### Per-Class Metrics',
+    '',
+    table(['Digit', 'Precision', 'Recall', 'F1-Score', 'Support'], perClass),
+    '',
+    '### Calibration',
+    '',
+    `Expected calibration error: **${report.calibration.ece.toFixed(4)}** ` +
+      '(reliability diagram bins below; gap = accuracy − confidence).',
+    '',
+    table(['Confidence', 'Samples', 'Avg Confidence', 'Accuracy', 'Gap'], calibration),
+    '',
+  ].join('\n');
+}
+
+/**
+ * Replace the generated block between the evaluation markers of a document
+ * (e.g. docs/MODEL_CARD.md) with fresh Markdown
+ */
+export function replaceEvaluationSection(document: string, markdown: string): string {
+  const start = document.indexOf(EVALUATION_SECTION_START);
+  const end = document.indexOf(EVALUATION_SECTION_END);
+  if (start < 0 || end < start) {
+    throw new Error(
+      `Document has no ${EVALUATION_SECTION_START} … ${EVALUATION_SECTION_END} section to replace`
+    );
+  }
+
+  return (
+    document.slice(0, start + EVALUATION_SECTION_START.length) +
+    `\n\n${markdown.trimEnd()}\n\n` +
+    document.slice(end)
+  );
+}
+
+function confusionMatrixText(matrix: number[][]): string {
+  const width = Math.max(4, ...matrix.flat().map((value) => String(value).length)) + 1;
+  const cell = (value: string | number) => String(value).padStart(width);
+  const header = 'Digit' + matrix.map((_, digit) => cell(digit)).join('');
+  const rows = matrix.map((row, digit) => String(digit).padEnd(5) + row.map(cell).join(''));
+  return [header, ...rows].join('\n');
+}
+
+function table(headers: string[], rows: string[][]): string {
+  return [
+    `| ${headers.join(' | ')} |`,
+    `|${headers.map((header) => '-'.repeat(header.length + 2)).join('|')}|`,
+    ...rows.map((row) => `| ${row.join(' | ')} |`),
+  ].join('\n');
+}
+
+function percent(value: number): string {
+  return `${(value * 100).toFixed(1)}%`;
+}
@@ -0,0 +1,179 @@
+/**
+ * Model Evaluation
+ * Confusion matrix, per-class precision/recall/F1, top-k accuracy and
+ * expected calibration error (ECE) with reliability-diagram bins
+ */
+import * as tf from '@tensorflow/tfjs';
+import type { DigitClassifier } from '../inference/predict';
+
+/**
+ * Evaluation options
+ */
+export interface EvaluationOptions {
+  batchSize?: number; // Prediction batch size, default 256
+  topK?: number[]; // Default [1, 3, 5]
+  calibrationBins?: number; // Equal-width confidence bins, default 10
+}
+
+/**
+ * Precision / recall / F1 for one digit
+ */
+export interface ClassMetrics {
+  digit: number;
+  precision: number;
+  recall: number;
+  f1: number;
+  support: number; // Samples whose true label is this digit
+}
+
+/**
+ * One reliability-diagram bin: samples whose top confidence is in [lower, upper)
+ */
+export interface CalibrationBin {
+  lower: number;
+  upper: number;
+  count: number;
+  confidence: number; // Mean top-1 confidence (0 when empty)
+  accuracy: number; // Fraction correct (0 when empty)
+}
+
+/**
+ * Full evaluation result (all rates are fractions in [0, 1])
+ */
+export interface EvaluationReport {
+  sampleCount: number;
+  accuracy: number;
+  confusionMatrix: number[][]; // [true digit][predicted digit]
+  perClass: ClassMetrics[];
+  macro: { precision: number; recall: number; f1: number };
+  topK: { k: number; accuracy: number }[];
+  calibration: { ece: number; bins: CalibrationBin[] };
+}
+
+/**
+ * Run the model over a labelled set and summarise its performance.
+ * `labels` may be one-hot [N, C] or digit indices [N].
+ */
+export async function evaluateModel(
+  model: DigitClassifier,
+  images: tf.Tensor4D,
+  labels: tf.Tensor2D | tf.Tensor1D,
+  options: EvaluationOptions = {}
+): Promise<EvaluationReport> {
+  const count = images.shape[0];
+  if (labels.shape[0] !== count) {
+    throw new Error(`Image count ${count} does not match label count ${labels.shape[0]}`);
+  }
+
+  const probabilities = model.predict(images, { batchSize: options.batchSize ?? 256 }) as tf.Tensor2D;
+  const digits = labels.rank === 2 ? tf.tidy(() => labels.argMax(1)) : labels;
+
+  try {
+    const [values, truth] = await Promise.all([probabilities.data(), digits.data()]);
+    return evaluatePredictions(values as Float32Array, Array.from(truth), options);
+  } finally {
+    probabilities.dispose();
+    if (digits !== labels) {
+      digits.dispose();
+    }
+  }
+}
+
+/**
+ * Evaluate precomputed class probabilities against true digits.
+ * `probabilities` is row-major [N, C] (flat or nested).
+ */
+export function evaluatePredictions(
+  probabilities: ArrayLike<number> | number[][],
+  labels: ArrayLike<number>,
+  options: Omit<EvaluationOptions, 'batchSize'> = {}
+): EvaluationReport {
+  const count = labels.length;
+  const flat = isNested(probabilities) ? probabilities.flat() : probabilities;
+  if (count === 0 || flat.length % count !== 0) {
+    throw new Error(`Expected ${count} rows of class probabilities, received ${flat.length} values`);
+  }
+
+  const numClasses = flat.length / count;
+  const topKs = options.topK ?? [1, 3, 5];
+  const binCount = options.calibrationBins ?? 10;
+  for (const k of topKs) {
+    if (!Number.isInteger(k) || k < 1 || k > numClasses) {
+      throw new Error(`Top-k value ${k} must be an integer between 1 and ${numClasses}`);
+    }
+  }
+  if (!Number.isInteger(binCount) || binCount < 1) {
+    throw new Error(`Calibration bins must be a positive integer, received ${binCount}`);
+  }
+
+  const confusionMatrix = Array.from({ length: numClasses }, () => new Array<number>(numClasses).fill(0));
+  const topKHits = new Array<number>(topKs.length).fill(0);
+  const bins = Array.from({ length: binCount }, () => ({ count: 0, confidence: 0, correct: 0 }));
+
+  for (let n = 0; n < count; n++) {
+    const label = labels[n];
+    if (!Number.isInteger(label) || label < 0 || label >= numClasses) {
+      throw new Error(`Label ${label} at index ${n} is not a class index 0-${numClasses - 1}`);
+    }
+
+    const row = Array.from({ length: numClasses }, (_, c) => flat[n * numClasses + c]);
+    const ranked = row.map((p, c) => [p, c]).sort((a, b) => b[0] - a[0]);
+    const [confidence, predicted] = ranked[0];
+
+    confusionMatrix[label][predicted]++;
+    topKs.forEach((k, i) => {
+      if (ranked.slice(0, k).some(([, c]) => c === label)) {
+        topKHits[i]++;
+      }
+    });
+
+    const bin = bins[Math.min(Math.floor(confidence * binCount), binCount - 1)];
+    bin.count++;
+    bin.confidence += confidence;
+    bin.correct += predicted === label ? 1 : 0;
+  }
+
+  const perClass = confusionMatrix.map((row, digit) => {
+    const truePositives = row[digit];
+    const support = row.reduce((sum, value) => sum + value, 0);
+    const predictedCount = confusionMatrix.reduce((sum, other) => sum + other[digit], 0);
+    const precision = ratio(truePositives, predictedCount);
+    const recall = ratio(truePositives, support);
+    const f1 = ratio(2 * precision * recall, precision + recall);
+    return { digit, precision, recall, f1, support };
+  });
+
+  const mean = (key: 'precision' | 'recall' | 'f1') =>
+    perClass.reduce((sum, metrics) => sum + metrics[key], 0) / numClasses;
+  const correct = confusionMatrix.reduce((sum, row, digit) => sum + row[digit], 0);
+
+  const calibrationBins = bins.map((bin, i) => ({
+    lower: i / binCount,
+    upper: (i + 1) / binCount,
+    count: bin.count,
+    confidence: ratio(bin.confidence, bin.count),
+    accuracy: ratio(bin.correct, bin.count),
+  }));
+  const ece = calibrationBins.reduce(
+    (sum, bin) => sum + (bin.count / count) * Math.abs(bin.accuracy - bin.confidence),
+    0
+  );
+
+  return {
+    sampleCount: count,
+    accuracy: correct / count,
+    confusionMatrix,
+    perClass,
+    macro: { precision: mean('precision'), recall: mean('recall'), f1: mean('f1') },
+    topK: topKs.map((k, i) => ({ k, accuracy: topKHits[i] / count })),
+    calibration: { ece, bins: calibrationBins },
+  };
+}
+
+function isNested(values: ArrayLike<number> | number[][]): values is number[][] {
+  return Array.isArray(values) && Array.isArray(values[0]);
+}
+
+function ratio(numerator: number, denominator: number): number {
+  return denominator === 0 ? 0 : numerator / denominator;
+}
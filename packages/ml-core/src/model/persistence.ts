@@ -0,0 +1,308 @@
+/**
+ * Model Persistence
+ * Node filesystem IOHandler writing `<name>.json`, `<name>-weights.bin` and a
+ * `<name>-metadata.json` sidecar, with integrity checks on load
+ */
+import { createHash } from 'node:crypto';
+import { mkdir, readFile, writeFile } from 'node:fs/promises';
+import { basename, dirname } from 'node:path';
+import * as tf from '@tensorflow/tfjs';
+import { z } from 'zod';
+import type { IdxDataset } from '../data/idx';
+import { AbstainThresholdsSchema } from '../inference/abstain';
+
+/**
+ * Bump whenever the saved layout or metadata fields change incompatibly
+ */
+export const MODEL_SCHEMA_VERSION = 1;
+
+const EpochMetricsSchema = z.object({
+  epoch: z.number().int().positive(),
+  accuracy: z.number(),
+  loss: z.number(),
+  valAccuracy: z.number(),
+  valLoss: z.number(),
+});
+
+const TrainingMetricsSchema = z.object({
+  accuracy: z.number(),
+  loss: z.number(),
+  valAccuracy: z.number(),
+  valLoss: z.number(),
+  epochs: z.number().int().nonnegative(),
+  trainingTime: z.number().nonnegative(),
+  metricsHistory: z.array(EpochMetricsSchema),
+});
+
+export const ModelMetadataSchema = z
+  .object({
+    schemaVersion: z.number().int().positive(),
+    createdAt: z.string().datetime(),
+    inputShape: z.array(z.number().int().positive()).length(3),
+    numClasses: z.number().int().positive(),
+    weightsBytes: z.number().int().nonnegative(),
+    weightsSha256: z.string().regex(/^[0-9a-f]{64}$/),
+    datasetHash: z.string().regex(/^[0-9a-f]{64}$/).optional(),
+    trainingConfig: z.record(z.unknown()).optional(),
+    metrics: TrainingMetricsSchema.optional(),
+    temperature: z.number().positive().optional(), // Set by `pnpm calibrate:temperature`
+    abstain: AbstainThresholdsSchema.optional(), // Set by `pnpm calibrate:abstain`
+  })
+  .strict();
+
+export type ModelMetadata = z.infer<typeof ModelMetadataSchema>;
+
+/**
+ * Fields calibrated after training, which `updateModelMetadata` may change
+ */
+export type ModelMetadataUpdate = Partial<Pick<ModelMetadata, 'temperature' | 'abstain'>>;
+
+/**
+ * Caller-supplied metadata; sizes, hashes and the schema version are filled in on save
+ */
+export type ModelMetadataInput = Pick<ModelMetadata, 'datasetHash' | 'trainingConfig' | 'metrics'>;
+
+/**
+ * Expectations checked against the sidecar when loading
+ */
+export interface LoadModelOptions {
+  datasetHash?: string;
+  inputShape?: [number, number, number];
+  numClasses?: number;
+}
+
+/**
+ * Paths written for a model saved under `basePath`
+ */
+export function modelPaths(basePath: string) {
+  const base = basePath.replace(/\.json$/, '');
+  return {
+    model: `${base}.json`,
+    weights: `${base}-weights.bin`,
+    metadata: `${base}-metadata.json`,
+  };
+}
+
+/**
+ * `tf.io.IOHandler` for the local filesystem (`@tensorflow/tfjs` ships none
+ * outside tfjs-node). Saving also writes the metadata sidecar; loading checks
+ * the weights against `sidecar`, reading it from disk only when not given.
+ */
+export function fileSystemHandler(
+  basePath: string,
+  metadata: ModelMetadataInput = {},
+  sidecar?: ModelMetadata
+): tf.io.IOHandler {
+  const paths = modelPaths(basePath);
+
+  return {
+    async save(artifacts: tf.io.ModelArtifacts): Promise<tf.io.SaveResult> {
+      if (artifacts.modelTopology instanceof ArrayBuffer || !artifacts.modelTopology) {
+        throw new Error('Only JSON model topologies can be saved to the filesystem');
+      }
+
+      const weights = new Uint8Array(
+        tf.io.CompositeArrayBuffer.join(artifacts.weightData ?? new ArrayBuffer(0))
+      );
+      const modelJSON: tf.io.ModelJSON = {
+        modelTopology: artifacts.modelTopology,
+        format: artifacts.format,
+        generatedBy: artifacts.generatedBy,
+        convertedBy: artifacts.convertedBy,
+        weightsManifest: [
+          { paths: [basename(paths.weights)], weights: artifacts.weightSpecs ?? [] },
+        ],
+      };
+      const sidecar: ModelMetadata = {
+        schemaVersion: MODEL_SCHEMA_VERSION,
+        createdAt: new Date().toISOString(),
+        ...topologyShape(artifacts.modelTopology),
+        weightsBytes: weights.byteLength,
+        weightsSha256: sha256(weights),
+        ...metadata,
+      };
+      ModelMetadataSchema.parse(sidecar);
+
+      await mkdir(dirname(paths.model), { recursive: true });
+      await writeFile(paths.weights, weights);
+      await writeFile(paths.model, JSON.stringify(modelJSON));
+      await writeFile(paths.metadata, JSON.stringify(sidecar, null, 2));
+
+      return { modelArtifactsInfo: tf.io.getModelArtifactsInfoForJSON(artifacts) };
+    },
+
+    async load(): Promise<tf.io.ModelArtifacts> {
+      const modelJSON = JSON.parse(await readModelFile(paths.model, 'utf8')) as tf.io.ModelJSON;
+      const metadata = sidecar ?? (await readModelMetadata(basePath));
+
+      return tf.io.getModelArtifactsForJSON(modelJSON, async (manifest) => {
+        const specs = manifest.flatMap((group) => group.weights);
+        const weights = new Uint8Array(await readModelFile(paths.weights));
+        verifyWeights(weights, metadata, paths.weights);
+        return [specs, weights.slice().buffer];
+      });
+    },
+  };
+}
+
+/**
+ * Save a model as `<basePath>.json`, `<basePath>-weights.bin` and
+ * `<basePath>-metadata.json`
+ */
+export async function saveModel(
+  model: tf.LayersModel,
+  basePath: string,
+  metadata: ModelMetadataInput = {}
+): Promise<ModelMetadata> {
+  await model.save(fileSystemHandler(basePath, metadata));
+  return readModelMetadata(basePath);
+}
+
+/**
+ * Load a model saved by `saveModel`.
+ *
+ * Throws if any file is missing, the metadata schema version differs, the
+ * weights do not match their recorded size / SHA-256, or the architecture or
+ * dataset hash disagree with the sidecar or `expected`. The model is returned
+ * uncompiled.
+ */
+export async function loadModel(
+  basePath: string,
+  expected: LoadModelOptions = {}
+): Promise<tf.LayersModel> {
+  const metadata = await readModelMetadata(basePath);
+  if (expected.datasetHash !== undefined && expected.datasetHash !== metadata.datasetHash) {
+    throw new Error(
+      `Model ${basePath} was trained on dataset ${metadata.datasetHash ?? '(unrecorded)'}, ` +
+        `expected ${expected.datasetHash}`
+    );
+  }
+
+  const model = await tf.loadLayersModel(fileSystemHandler(basePath, {}, metadata));
+  try {
+    const inputShape = model.inputs[0].shape.slice(1);
+    const numClasses = model.outputs[0].shape[model.outputs[0].shape.length - 1];
+    assertSame('input shape', inputShape, metadata.inputShape, basePath);
+    assertSame('class count', numClasses, metadata.numClasses, basePath);
+    if (expected.inputShape) {
+      assertSame('input shape', inputShape, expected.inputShape, basePath);
+    }
+    if (expected.numClasses !== undefined) {
+      assertSame('class count', numClasses, expected.numClasses, basePath);
+    }
+  } catch (error) {
+    model.dispose();
+    throw error;
+  }
+
+  return model;
+}
+
+/**
+ * Read and validate the metadata sidecar of a saved model
+ */
+export async function readModelMetadata(basePath: string): Promise<ModelMetadata> {
+  const path = modelPaths(basePath).metadata;
+  let raw: unknown;
+  try {
+    raw = JSON.parse(await readModelFile(path, 'utf8'));
+  } catch (error) {
+    if (error instanceof SyntaxError) {
+      throw new Error(`Model metadata ${path} is not valid JSON: ${error.message}`);
+    }
+    throw error;
+  }
+
+  const version = (raw as { schemaVersion?: unknown } | null)?.schemaVersion;
+  if (version !== MODEL_SCHEMA_VERSION) {
+    throw new Error(
+      `Model metadata ${path} has schema version ${String(version)}, expected ${MODEL_SCHEMA_VERSION}`
+    );
+  }
+
+  const parsed = ModelMetadataSchema.safeParse(raw);
+  if (!parsed.success) {
+    const issues = parsed.error.issues
+      .map((issue) => `${issue.path.join('.') || '(root)'}: ${issue.message}`)
+      .join('; ');
+    throw new Error(`Model metadata ${path} is invalid: ${issues}`);
+  }
+  return parsed.data;
+}
+
+/**
+ * Merge post-training calibration into a saved model's sidecar, leaving the
+ * weights and their checksum untouched
+ */
+export async function updateModelMetadata(
+  basePath: string,
+  update: ModelMetadataUpdate
+): Promise<ModelMetadata> {
+  const metadata = ModelMetadataSchema.parse({ ...(await readModelMetadata(basePath)), ...update });
+  await writeFile(modelPaths(basePath).metadata, JSON.stringify(metadata, null, 2));
+  return metadata;
+}
+
+/**
+ * SHA-256 of a dataset's pixel and label values, to tie a model to its training data
+ */
+export function hashDataset({ images, labels }: IdxDataset): string {
+  const hash = createHash('sha256');
+  for (const tensor of [images, labels]) {
+    hash.update(tensor.shape.join('x'));
+    const values = tensor.dataSync();
+    hash.update(new Uint8Array(values.buffer, values.byteOffset, values.byteLength));
+  }
+  return hash.digest('hex');
+}
+
+async function readModelFile(path: string): Promise<Buffer>;
+async function readModelFile(path: string, encoding: 'utf8'): Promise<string>;
+async function readModelFile(path: string, encoding?: 'utf8'): Promise<Buffer | string> {
+  try {
+    return encoding ? await readFile(path, encoding) : await readFile(path);
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+      throw new Error(`Model file ${path} not found`);
+    }
+    throw error;
+  }
+}
+
+function verifyWeights(weights: Uint8Array, metadata: ModelMetadata, path: string): void {
+  if (weights.byteLength !== metadata.weightsBytes) {
+    throw new Error(
+      `Model weights ${path} are ${weights.byteLength} bytes, metadata records ${metadata.weightsBytes}`
+    );
+  }
+  if (sha256(weights) !== metadata.weightsSha256) {
+    throw new Error(`Model weights ${path} do not match the SHA-256 recorded in the metadata`);
+  }
+}
+
+function topologyShape(topology: object): Pick<ModelMetadata, 'inputShape' | 'numClasses'> {
+  const layers = (topology as { config?: { layers?: { config?: Record<string, unknown> }[] } })
+    .config?.layers ?? [];
+  const first = layers[0]?.config;
+  const last = layers[layers.length - 1]?.config;
+  const batchInputShape = (first?.batch_input_shape ?? first?.batchInputShape) as
+    | (number | null)[]
+    | undefined;
+
+  return {
+    inputShape: (batchInputShape?.slice(1) ?? []) as number[],
+    numClasses: last?.units as number,
+  };
+}
+
+function assertSame(what: string, actual: unknown, expected: unknown, basePath: string): void {
+  if (JSON.stringify(actual) !== JSON.stringify(expected)) {
+    throw new Error(
+      `Model ${basePath} ${what} ${JSON.stringify(actual)} does not match ${JSON.stringify(expected)}`
+    );
+  }
+}
+
+function sha256(bytes: Uint8Array): string {
+  return createHash('sha256').update(bytes).digest('hex');
+}
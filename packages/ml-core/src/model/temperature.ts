@@ -0,0 +1,118 @@
+/**
+ * Temperature Scaling
+ * Post-hoc confidence calibration: one temperature T divides the logits, so
+ * the predicted digit never changes but an overconfident softmax (T > 1) is
+ * softened. The model ends in a softmax, whose log equals the logits up to a
+ * constant, so T can be applied to saved probabilities.
+ */
+import type { DigitPrediction } from '../inference/predict';
+import { evaluatePredictions } from './evaluation';
+
+export interface TemperatureFitOptions {
+  min?: number; // Search range, default 0.05-20
+  max?: number;
+  calibrationBins?: number; // For the reported ECE, default 10
+}
+
+/**
+ * Negative log-likelihood and expected calibration error at one temperature
+ */
+export interface CalibrationScore {
+  nll: number; // Mean over the samples
+  ece: number;
+}
+
+export interface TemperatureFit {
+  temperature: number;
+  before: CalibrationScore; // At T = 1
+  after: CalibrationScore; // At the fitted temperature
+}
+
+// Floor for log(p), so a probability that underflowed to 0 stays finite
+const MIN_PROBABILITY = 1e-12;
+
+/**
+ * Rescale one probability vector: softmax(log(p) / T)
+ */
+export function applyTemperature(probabilities: number[], temperature: number): number[] {
+  if (!(temperature > 0)) {
+    throw new Error(`Temperature ${temperature} must be positive`);
+  }
+  if (temperature === 1) return probabilities;
+
+  const logits = probabilities.map((p) => Math.log(Math.max(p, MIN_PROBABILITY)) / temperature);
+  const max = Math.max(...logits);
+  const exps = logits.map((logit) => Math.exp(logit - max));
+  const sum = exps.reduce((total, value) => total + value, 0);
+  return exps.map((value) => value / sum);
+}
+
+/**
+ * `prediction` with calibrated probabilities and confidence
+ */
+export function scalePrediction(prediction: DigitPrediction, temperature: number): DigitPrediction {
+  const probabilities = applyTemperature(prediction.probabilities, temperature);
+  return { ...prediction, probabilities, confidence: probabilities[prediction.digit] };
+}
+
+/**
+ * Find the temperature minimising the negative log-likelihood of `labels`
+ * (golden-section search over log T: the NLL is convex in 1/T, so it is
+ * unimodal in log T, which is all the search needs), and score the
+ * probabilities before and after scaling
+ */
+export function fitTemperature(
+  probabilities: number[][],
+  labels: ArrayLike<number>,
+  options: TemperatureFitOptions = {}
+): TemperatureFit {
+  const { min = 0.05, max = 20, calibrationBins = 10 } = options;
+  if (probabilities.length === 0 || probabilities.length !== labels.length) {
+    throw new Error(
+      `Expected one probability row per label, received ${probabilities.length} rows for ${labels.length} labels`
+    );
+  }
+  if (!(min > 0 && max > min)) {
+    throw new Error(`Temperature range [${min}, ${max}] is invalid`);
+  }
+
+  const nll = (temperature: number) =>
+    probabilities.reduce((sum, row, i) => {
+      const scaled = applyTemperature(row, temperature);
+      return sum - Math.log(Math.max(scaled[labels[i]], MIN_PROBABILITY));
+    }, 0) / probabilities.length;
+
+  const ratio = (Math.sqrt(5) - 1) / 2;
+  let low = Math.log(min);
+  let high = Math.log(max);
+  let left = high - ratio * (high - low);
+  let right = low + ratio * (high - low);
+  let leftLoss = nll(Math.exp(left));
+  let rightLoss = nll(Math.exp(right));
+  while (high - low > 1e-4) {
+    if (leftLoss < rightLoss) {
+      high = right;
+      right = left;
+      rightLoss = leftLoss;
+      left = high - ratio * (high - low);
+      leftLoss = nll(Math.exp(left));
+    } else {
+      low = left;
+      left = right;
+      leftLoss = rightLoss;
+      right = low + ratio * (high - low);
+      rightLoss = nll(Math.exp(right));
+    }
+  }
+  const temperature = Math.exp((low + high) / 2);
+
+  const score = (t: number): CalibrationScore => ({
+    nll: nll(t),
+    ece: evaluatePredictions(
+      probabilities.map((row) => applyTemperature(row, t)),
+      labels,
+      { topK: [1], calibrationBins }
+    ).calibration.ece,
+  });
+  return { temperature, before: score(1), after: score(temperature) };
+}
@@ -0,0 +1,195 @@
+/**
+ * Training Loop
+ * Shuffled mini-batches through `tf.data`, with optional on-the-fly
+ * augmentation and a held-out validation split
+ */
+import * as tf from '@tensorflow/tfjs';
+import type { AugmentationConfig } from '../augmentation';
+import { createAugmentationMapFn } from '../augmentation-batch';
+import type { IdxDataset } from '../data/idx';
+import { loadMnist } from '../data/mnist';
+import { createSeededRandom, type RandomSource } from '../random';
+import { createModel, type ModelConfig } from './architecture';
+
+/**
+ * Training configuration
+ */
+export interface TrainingConfig {
+  epochs?: number; // Default 15
+  batchSize?: number; // Default 128
+  learningRate?: number; // Default 0.001; ignored when `model` is already compiled
+  valSplit?: number; // Fraction held out for validation, default 0.2
+  augmentation?: boolean | AugmentationConfig; // Augment training batches each epoch
+  seed?: number; // Shuffling, augmentation and weight initialisation
+  model?: tf.LayersModel; // Train this model in place (default: a fresh `createModel`)
+  architecture?: Partial<ModelConfig>; // Used when `model` is not given
+  data?: IdxDataset; // Training data (default: MNIST files under `datasetPath`)
+  datasetPath?: string; // Default: DATASET_PATH or ./data/mnist
+  onEpochEnd?: (metrics: EpochMetrics) => void;
+}
+
+/**
+ * Metrics recorded after each epoch
+ */
+export interface EpochMetrics {
+  epoch: number;
+  accuracy: number;
+  loss: number;
+  valAccuracy: number;
+  valLoss: number;
+}
+
+/**
+ * Final training metrics
+ */
+export interface TrainingMetrics {
+  accuracy: number;
+  loss: number;
+  valAccuracy: number;
+  valLoss: number;
+  epochs: number;
+  trainingTime: number; // Milliseconds
+  metricsHistory: EpochMetrics[];
+}
+
+/**
+ * Train the digit classifier and report per-epoch metrics.
+ *
+ * The last `valSplit` of the samples is held out for validation and never
+ * augmented. Pass `model` to keep the trained weights; a model built here
+ * is disposed once training finishes.
+ */
+export async function trainModel(config: TrainingConfig = {}): Promise<TrainingMetrics> {
+  const epochs = config.epochs ?? 15;
+  const batchSize = config.batchSize ?? 128;
+  const valSplit = config.valSplit ?? 0.2;
+  validateTrainingConfig(epochs, batchSize, valSplit);
+
+  const data = config.data ?? (await loadMnist(config.datasetPath ?? defaultDatasetPath()));
+  const total = data.images.shape[0];
+  const trainSize = Math.round(total * (1 - valSplit));
+  const owned: tf.TensorContainer[] = config.data ? [] : [data.images, data.labels];
+
+  const countMismatch = data.labels.shape[0] !== total;
+  if (countMismatch || trainSize < 1 || trainSize >= total) {
+    tf.dispose(owned);
+    throw new Error(
+      countMismatch
+        ? `Image count ${total} does not match label count ${data.labels.shape[0]}`
+        : `Validation split ${valSplit} of ${total} samples leaves an empty training or validation set`
+    );
+  }
+
+  const model = config.model ?? createModel({
+    ...config.architecture,
+    ...(config.learningRate !== undefined && { learningRate: config.learningRate }),
+    ...(config.seed !== undefined && { seed: config.seed }),
+  });
+  const [trainX, trainY, valX, valY] = splitDataset(data, trainSize);
+  const random = config.seed === undefined ? Math.random : createSeededRandom(config.seed);
+
+  try {
+    let batches = shuffledBatches(trainX, trainY, batchSize, random);
+    if (config.augmentation) {
+      const augmentation = config.augmentation === true ? {} : config.augmentation;
+      const seed = config.seed === undefined ? undefined : config.seed + 1;
+      batches = batches.map(createAugmentationMapFn({ seed, ...augmentation }));
+    }
+
+    const metricsHistory: EpochMetrics[] = [];
+    const start = performance.now();
+
+    await model.fitDataset(batches, {
+      epochs,
+      validationData: [valX, valY],
+      verbose: 0,
+      callbacks: {
+        onEpochEnd: async (epoch, logs = {}) => {
+          const entry: EpochMetrics = {
+            epoch: epoch + 1,
+            accuracy: logs.acc ?? logs.accuracy,
+            loss: logs.loss,
+            valAccuracy: logs.val_acc ?? logs.val_accuracy,
+            valLoss: logs.val_loss,
+          };
+          metricsHistory.push(entry);
+          config.onEpochEnd?.(entry);
+        },
+      },
+    });
+
+    const last = metricsHistory[metricsHistory.length - 1];
+    return {
+      accuracy: last.accuracy,
+      loss: last.loss,
+      valAccuracy: last.valAccuracy,
+      valLoss: last.valLoss,
+      epochs: metricsHistory.length,
+      trainingTime: performance.now() - start,
+      metricsHistory,
+    };
+  } finally {
+    tf.dispose([trainX, trainY, valX, valY, ...owned]);
+    if (!config.model) {
+      // The optimizer was passed in as an instance, so the model does not own it
+      model.optimizer.dispose();
+      model.dispose();
+    }
+  }
+}
+
+function defaultDatasetPath(): string {
+  return process.env.DATASET_PATH ?? './data/mnist';
+}
+
+function validateTrainingConfig(epochs: number, batchSize: number, valSplit: number): void {
+  if (!Number.isInteger(epochs) || epochs < 1) {
+    throw new Error(`Epochs must be a positive integer, received ${epochs}`);
+  }
+  if (!Number.isInteger(batchSize) || batchSize < 1) {
+    throw new Error(`Batch size must be a positive integer, received ${batchSize}`);
+  }
+  if (!(valSplit > 0 && valSplit < 1)) {
+    throw new Error(`Validation split must be in (0, 1), received ${valSplit}`);
+  }
+}
+
+function splitDataset(
+  { images, labels }: IdxDataset,
+  trainSize: number
+): [tf.Tensor4D, tf.Tensor2D, tf.Tensor4D, tf.Tensor2D] {
+  const total = images.shape[0];
+  return [
+    images.slice(0, trainSize),
+    labels.slice(0, trainSize),
+    images.slice(trainSize, total - trainSize),
+    labels.slice(trainSize, total - trainSize),
+  ];
+}
+
+/**
+ * Mini-batches in a fresh random order every epoch
+ */
+function shuffledBatches(
+  images: tf.Tensor4D,
+  labels: tf.Tensor2D,
+  batchSize: number,
+  random: RandomSource
+): tf.data.Dataset<{ xs: tf.Tensor4D; ys: tf.Tensor2D }> {
+  const count = images.shape[0];
+
+  return tf.data.generator(function* () {
+    const order = Array.from({ length: count }, (_, i) => i);
+    for (let i = count - 1; i > 0; i--) {
+      const j = Math.floor(random() * (i + 1));
+      [order[i], order[j]] = [order[j], order[i]];
+    }
+
+    for (let start = 0; start < count; start += batchSize) {
+      yield tf.tidy(() => {
+        const indices = tf.tensor1d(order.slice(start, start + batchSize), 'int32');
+        return { xs: images.gather(indices), ys: labels.gather(indices) };
+      });
+    }
+  });
+}
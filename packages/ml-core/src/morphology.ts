@@ -0,0 +1,25 @@
+/**
+ * Stroke Morphology
+ * Grey-scale dilation / erosion via max pooling, for stroke thickness changes
+ */
+import * as tf from '@tensorflow/tfjs';
+
+/**
+ * Thicken (positive radius) or thin (negative radius) strokes.
+ * A radius of r uses a (2r+1)×(2r+1) square structuring element.
+ */
+export function adjustStrokeWidth(images: tf.Tensor4D, radius: number): tf.Tensor4D {
+  if (radius === 0) {
+    return images.clone();
+  }
+
+  const size = 2 * Math.abs(radius) + 1;
+  return tf.tidy(() => {
+    if (radius > 0) {
+      // Dilation: each pixel takes the brightest value in its window
+      return tf.maxPool(images, size, 1, 'same');
+    }
+    // Erosion: each pixel takes the darkest value in its window
+    return tf.maxPool(images.neg(), size, 1, 'same').neg() as tf.Tensor4D;
+  });
+}
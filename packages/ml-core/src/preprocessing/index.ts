@@ -0,0 +1,25 @@
+/**
+ * Preprocessing entry point (`@repo/ml-core/preprocessing`)
+ * Dependency-free, so browser bundles can import it without TensorFlow.js
+ */
+export {
+  normalizeImage,
+  fromImageData,
+  type GrayscaleImage,
+  type NormalizeOptions,
+} from './normalize';
+export { resizeImage } from './resize';
+export {
+  preprocessDigit,
+  boundingBox,
+  centreOfMass,
+  type BoundingBox,
+  type MnistPreprocessOptions,
+} from './mnist';
+export {
+  segmentDigits,
+  findComponents,
+  type DigitSegment,
+  type InkComponent,
+  type SegmentOptions,
+} from './segment';
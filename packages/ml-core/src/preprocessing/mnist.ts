@@ -0,0 +1,132 @@
+/**
+ * MNIST Digit Normalisation
+ * Same steps as the original dataset: crop to the ink's bounding box, scale
+ * to fit 20×20 keeping the aspect ratio, then place in a 28×28 frame with the
+ * centre of mass at the centre
+ */
+import type { GrayscaleImage } from './normalize';
+import { resizeImage } from './resize';
+
+export interface MnistPreprocessOptions {
+  threshold?: number; // Minimum value counted as ink, default 0.1
+  fitSize?: number; // Longest side after scaling, default 20
+  frameSize?: number; // Output width and height, default 28
+}
+
+export interface BoundingBox {
+  left: number;
+  top: number;
+  width: number;
+  height: number;
+}
+
+/**
+ * Smallest box containing every pixel above `threshold`, or null for a blank image
+ */
+export function boundingBox(image: GrayscaleImage, threshold = 0.1): BoundingBox | null {
+  let left = image.width;
+  let right = -1;
+  let top = image.height;
+  let bottom = -1;
+
+  for (let y = 0; y < image.height; y++) {
+    for (let x = 0; x < image.width; x++) {
+      if (image.data[y * image.width + x] > threshold) {
+        left = Math.min(left, x);
+        right = Math.max(right, x);
+        top = Math.min(top, y);
+        bottom = Math.max(bottom, y);
+      }
+    }
+  }
+
+  return right < 0 ? null : { left, top, width: right - left + 1, height: bottom - top + 1 };
+}
+
+/**
+ * Intensity-weighted centroid in pixel coordinates, or null for a blank image
+ */
+export function centreOfMass(image: GrayscaleImage): { x: number; y: number } | null {
+  let mass = 0;
+  let sumX = 0;
+  let sumY = 0;
+
+  for (let y = 0; y < image.height; y++) {
+    for (let x = 0; x < image.width; x++) {
+      const value = image.data[y * image.width + x];
+      mass += value;
+      sumX += value * x;
+      sumY += value * y;
+    }
+  }
+
+  return mass > 0 ? { x: sumX / mass, y: sumY / mass } : null;
+}
+
+/**
+ * Turn any-size drawing into an MNIST-style 28×28 digit.
+ * A blank input yields a blank frame.
+ */
+export function preprocessDigit(
+  image: GrayscaleImage,
+  options: MnistPreprocessOptions = {}
+): GrayscaleImage {
+  const { threshold = 0.1, fitSize = 20, frameSize = 28 } = options;
+  if (!(fitSize >= 1 && fitSize <= frameSize)) {
+    throw new Error(`Fit size ${fitSize} must be between 1 and the frame size ${frameSize}`);
+  }
+  if (image.data.length !== image.width * image.height) {
+    throw new Error(
+      `Image data has ${image.data.length} values, expected ${image.width}×${image.height}`
+    );
+  }
+
+  const frame: GrayscaleImage = {
+    data: new Float32Array(frameSize * frameSize),
+    width: frameSize,
+    height: frameSize,
+  };
+
+  const box = boundingBox(image, threshold);
+  if (!box) {
+    return frame;
+  }
+
+  // 1. Crop to the bounding box
+  const cropped = crop(image, box);
+
+  // 2. Fit the longest side to `fitSize`, keeping the aspect ratio
+  const scale = fitSize / Math.max(box.width, box.height);
+  const fitted = resizeImage(
+    cropped,
+    Math.max(1, Math.round(box.width * scale)),
+    Math.max(1, Math.round(box.height * scale))
+  );
+
+  // 3. Paste into the frame, shifted so the centre of mass lands in the middle
+  const centre = centreOfMass(fitted) ?? { x: (fitted.width - 1) / 2, y: (fitted.height - 1) / 2 };
+  const offsetX = Math.round((frameSize - 1) / 2 - centre.x);
+  const offsetY = Math.round((frameSize - 1) / 2 - centre.y);
+
+  for (let y = 0; y < fitted.height; y++) {
+    const frameY = y + offsetY;
+    if (frameY < 0 || frameY >= frameSize) continue;
+
+    for (let x = 0; x < fitted.width; x++) {
+      const frameX = x + offsetX;
+      if (frameX < 0 || frameX >= frameSize) continue;
+      frame.data[frameY * frameSize + frameX] = fitted.data[y * fitted.width + x];
+    }
+  }
+
+  return frame;
+}
+
+function crop(image: GrayscaleImage, box: BoundingBox): GrayscaleImage {
+  const data = new Float32Array(box.width * box.height);
+  for (let y = 0; y < box.height; y++) {
+    const start = (box.top + y) * image.width + box.left;
+    data.set(image.data.subarray(start, start + box.width), y * box.width);
+  }
+  return { data, width: box.width, height: box.height };
+}
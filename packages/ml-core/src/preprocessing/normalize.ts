@@ -0,0 +1,66 @@
+/**
+ * Pixel Normalisation
+ * Raw 0-255 pixels (grayscale, RGB or RGBA) → one [0, 1] value per pixel
+ *
+ * Plain TypeScript with no TensorFlow.js or Node imports, so the browser and
+ * the API share it.
+ */
+
+/**
+ * Single-channel image, row-major, values in [0, 1] with ink = 1
+ * (white digit on black, like MNIST)
+ */
+export interface GrayscaleImage {
+  data: Float32Array;
+  width: number;
+  height: number;
+}
+
+export interface NormalizeOptions {
+  min?: number; // Input value mapped to 0, default 0
+  max?: number; // Input value mapped to 1, default 255
+  channels?: 1 | 3 | 4; // Interleaved channels per pixel; RGB is averaged, alpha ignored
+  invert?: boolean; // Dark ink on a light background
+}
+
+/**
+ * Convert pixel values to the [0, 1] range, one value per pixel
+ */
+export function normalizeImage(
+  pixels: ArrayLike<number>,
+  options: NormalizeOptions = {}
+): Float32Array {
+  const { min = 0, max = 255, channels = 1, invert = false } = options;
+  if (!(max > min)) {
+    throw new Error(`Normalisation range [${min}, ${max}] is empty`);
+  }
+  if (pixels.length % channels !== 0) {
+    throw new Error(`${pixels.length} values is not a whole number of ${channels}-channel pixels`);
+  }
+
+  const colours = Math.min(channels, 3);
+  const output = new Float32Array(pixels.length / channels);
+  for (let pixel = 0; pixel < output.length; pixel++) {
+    let sum = 0;
+    for (let channel = 0; channel < colours; channel++) {
+      sum += pixels[pixel * channels + channel];
+    }
+    const value = Math.min(1, Math.max(0, (sum / colours - min) / (max - min)));
+    output[pixel] = invert ? 1 - value : value;
+  }
+  return output;
+}
+
+/**
+ * Grayscale image from RGBA pixels (`ImageData` or a decoded PNG)
+ */
+export function fromImageData(
+  imageData: { data: ArrayLike<number>; width: number; height: number },
+  options: Omit<NormalizeOptions, 'channels'> = {}
+): GrayscaleImage {
+  const { data, width, height } = imageData;
+  if (data.length !== width * height * 4) {
+    throw new Error(`Expected ${width * height * 4} RGBA values for ${width}×${height}, got ${data.length}`);
+  }
+  return { data: normalizeImage(data, { ...options, channels: 4 }), width, height };
+}
@@ -0,0 +1,69 @@
+/**
+ * Image Resizing
+ * Separable resampling of grayscale images: area averaging when shrinking
+ * (anti-aliased, like MNIST's own downsampling), linear when enlarging
+ */
+import type { GrayscaleImage } from './normalize';
+
+/**
+ * Resize a grayscale image to `width` × `height`
+ */
+export function resizeImage(image: GrayscaleImage, width: number, height: number): GrayscaleImage {
+  if (!Number.isInteger(width) || !Number.isInteger(height) || width < 1 || height < 1) {
+    throw new Error(`Target size ${width}×${height} must be positive integers`);
+  }
+
+  // Rows first, then columns
+  const rows = new Float32Array(width * image.height);
+  for (let y = 0; y < image.height; y++) {
+    resampleLine(image.data, y * image.width, 1, image.width, rows, y * width, 1, width);
+  }
+
+  const output = new Float32Array(width * height);
+  for (let x = 0; x < width; x++) {
+    resampleLine(rows, x, width, image.height, output, x, width, height);
+  }
+
+  return { data: output, width, height };
+}
+
+/**
+ * Resample `sourceLength` strided values into `targetLength` strided values
+ */
+function resampleLine(
+  source: Float32Array,
+  sourceStart: number,
+  sourceStride: number,
+  sourceLength: number,
+  target: Float32Array,
+  targetStart: number,
+  targetStride: number,
+  targetLength: number
+): void {
+  const scale = sourceLength / targetLength;
+  const at = (index: number) => source[sourceStart + index * sourceStride];
+
+  for (let i = 0; i < targetLength; i++) {
+    let value: number;
+
+    if (scale > 1) {
+      // Average over [i·scale, (i+1)·scale), weighting partially covered pixels
+      const from = i * scale;
+      const to = from + scale;
+      let sum = 0;
+      for (let j = Math.floor(from); j < Math.min(Math.ceil(to), sourceLength); j++) {
+        sum += at(j) * (Math.min(to, j + 1) - Math.max(from, j));
+      }
+      value = sum / scale;
+    } else {
+      // Linear interpolation between pixel centres, clamped at the edges
+      const position = Math.min(Math.max((i + 0.5) * scale - 0.5, 0), sourceLength - 1);
+      const left = Math.floor(position);
+      const right = Math.min(left + 1, sourceLength - 1);
+      const weight = position - left;
+      value = at(left) * (1 - weight) + at(right) * weight;
+    }
+
+    target[targetStart + i * targetStride] = value;
+  }
+}
@@ -0,0 +1,150 @@
+/**
+ * Multi-Digit Segmentation
+ * Splits a drawing of a whole number into one image per digit: connected ink
+ * components, with fragments of the same digit (the bar of a 5, the stroke
+ * through a 7) merged, ordered left to right
+ */
+import type { BoundingBox } from './mnist';
+import type { GrayscaleImage } from './normalize';
+
+export interface SegmentOptions {
+  threshold?: number; // Minimum value counted as ink, default 0.1
+  mergeOverlap?: number; // Horizontal overlap, relative to the narrower box, to merge; default 0.5
+  minInkRatio?: number; // Digits with less ink, relative to the largest, are specks; default 0.05
+}
+
+/**
+ * Connected ink pixels (8-neighbourhood)
+ */
+export interface InkComponent {
+  box: BoundingBox;
+  pixels: number[]; // Indices into the image data
+}
+
+/**
+ * One digit: its box on the canvas and a crop of that box holding only the
+ * digit's own ink (a neighbour reaching into the box is left out)
+ */
+export interface DigitSegment {
+  box: BoundingBox;
+  image: GrayscaleImage;
+}
+
+/**
+ * Label the connected components of the pixels above `threshold`, in scan order
+ */
+export function findComponents(image: GrayscaleImage, threshold = 0.1): InkComponent[] {
+  const { data, width, height } = image;
+  const visited = new Uint8Array(width * height);
+  const components: InkComponent[] = [];
+
+  for (let start = 0; start < data.length; start++) {
+    if (visited[start] || data[start] <= threshold) continue;
+
+    const pixels: number[] = [];
+    const stack = [start];
+    visited[start] = 1;
+    let left = width;
+    let right = -1;
+    let top = height;
+    let bottom = -1;
+
+    while (stack.length > 0) {
+      const index = stack.pop() as number;
+      pixels.push(index);
+      const x = index % width;
+      const y = (index - x) / width;
+      left = Math.min(left, x);
+      right = Math.max(right, x);
+      top = Math.min(top, y);
+      bottom = Math.max(bottom, y);
+
+      for (let ny = Math.max(0, y - 1); ny <= Math.min(height - 1, y + 1); ny++) {
+        for (let nx = Math.max(0, x - 1); nx <= Math.min(width - 1, x + 1); nx++) {
+          const neighbour = ny * width + nx;
+          if (!visited[neighbour] && data[neighbour] > threshold) {
+            visited[neighbour] = 1;
+            stack.push(neighbour);
+          }
+        }
+      }
+    }
+
+    components.push({
+      box: { left, top, width: right - left + 1, height: bottom - top + 1 },
+      pixels,
+    });
+  }
+
+  return components;
+}
+
+/**
+ * Split a drawing into digits, left to right. A blank drawing yields none.
+ */
+export function segmentDigits(image: GrayscaleImage, options: SegmentOptions = {}): DigitSegment[] {
+  const { threshold = 0.1, mergeOverlap = 0.5, minInkRatio = 0.05 } = options;
+  if (image.data.length !== image.width * image.height) {
+    throw new Error(
+      `Image data has ${image.data.length} values, expected ${image.width}×${image.height}`
+    );
+  }
+
+  const digits = mergeFragments(findComponents(image, threshold), mergeOverlap);
+  const largest = digits.reduce((max, digit) => Math.max(max, digit.pixels.length), 0);
+
+  return digits
+    .filter((digit) => digit.pixels.length >= largest * minInkRatio)
+    .sort((a, b) => a.box.left + a.box.width / 2 - (b.box.left + b.box.width / 2))
+    .map(({ box, pixels }) => ({ box, image: cropPixels(image, box, pixels) }));
+}
+
+/**
+ * Merge components stacked above one another, so that no two digits overlap
+ * horizontally by more than `mergeOverlap` of the narrower one
+ */
+function mergeFragments(components: InkComponent[], mergeOverlap: number): InkComponent[] {
+  const merged: InkComponent[] = [];
+  for (const component of [...components].sort((a, b) => a.box.left - b.box.left)) {
+    let digit = component;
+    // A grown digit may reach others already placed, so rescan after each merge
+    for (let i = merged.length - 1; i >= 0; i--) {
+      if (overlaps(merged[i].box, digit.box, mergeOverlap)) {
+        digit = {
+          box: union(merged[i].box, digit.box),
+          pixels: merged[i].pixels.concat(digit.pixels),
+        };
+        merged.splice(i, 1);
+        i = merged.length;
+      }
+    }
+    merged.push(digit);
+  }
+  return merged;
+}
+
+function overlaps(a: BoundingBox, b: BoundingBox, mergeOverlap: number): boolean {
+  const overlap = Math.min(a.left + a.width, b.left + b.width) - Math.max(a.left, b.left);
+  return overlap > mergeOverlap * Math.min(a.width, b.width);
+}
+
+function union(a: BoundingBox, b: BoundingBox): BoundingBox {
+  const left = Math.min(a.left, b.left);
+  const top = Math.min(a.top, b.top);
+  return {
+    left,
+    top,
+    width: Math.max(a.left + a.width, b.left + b.width) - left,
+    height: Math.max(a.top + a.height, b.top + b.height) - top,
+  };
+}
+
+function cropPixels(image: GrayscaleImage, box: BoundingBox, pixels: number[]): GrayscaleImage {
+  const data = new Float32Array(box.width * box.height);
+  for (const index of pixels) {
+    const x = index % image.width;
+    const y = (index - x) / image.width;
+    data[(y - box.top) * box.width + (x - box.left)] = image.data[index];
+  }
+  return { data, width: box.width, height: box.height };
+}
@@ -0,0 +1,37 @@
+/**
+ * Random number source: returns a float in [0, 1), like Math.random
+ */
+export type RandomSource = () => number;
+
+/**
+ * Seeded PRNG (mulberry32)
+ * Same seed → same sequence, so augmentation runs can be reproduced exactly
+ */
+export function createSeededRandom(seed: number): RandomSource {
+  if (!Number.isFinite(seed)) {
+    throw new Error(`Seed ${seed} must be a finite number`);
+  }
+
+  let state = Math.floor(seed) >>> 0;
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+/**
+ * Uniform float in [min, max)
+ */
+export function uniform(random: RandomSource, min: number, max: number): number {
+  return random() * (max - min) + min;
+}
+
+/**
+ * Uniform integer in [-range, range]
+ */
+export function symmetricInt(random: RandomSource, range: number): number {
+  return Math.floor(random() * (range * 2 + 1)) - range;
+}
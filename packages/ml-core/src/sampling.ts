@@ -0,0 +1,224 @@
+/**
+ * Bilinear Resampling
+ * Batched pixel remapping shared by the affine warp and elastic distortion
+ */
+
+import * as tf from '@tensorflow/tfjs';
+import type { ProjectiveTransform } from './transforms';
+
+/**
+ * Resample every image at per-pixel source coordinates.
+ *
+ * `sourceX` / `sourceY` hold N·H·W entries (sample-major, then row-major
+ * output order) and give the input location each output pixel reads from;
+ * locations outside the image read `fillValue`. Same sampling rules as `tf.image.transform` in
+ * 'bilinear' / 'constant' mode.
+ *
+ * On the CPU backend this runs as one pass over the typed arrays (gather is
+ * slow there); other backends use vectorised gather ops.
+ */
+export function remapBatch(
+  images: tf.Tensor4D,
+  sourceX: Float32Array,
+  sourceY: Float32Array,
+  fillValue = 0
+): tf.Tensor4D {
+  return tf.getBackend() === 'cpu'
+    ? remapOnCpu(images, sourceX, sourceY, fillValue)
+    : remapWithGather(images, sourceX, sourceY, fillValue);
+}
+
+/**
+ * Bilinear warp of a whole batch with one inverse projective transform per
+ * sample.
+ *
+ * `tf.image.transform` is not used directly: its CPU kernel returns after the
+ * first image of a batch and leaves the rest filled.
+ */
+export function warpBatch(
+  images: tf.Tensor4D,
+  transforms: ProjectiveTransform[],
+  fillValue = 0
+): tf.Tensor4D {
+  const [batchSize, height, width] = images.shape;
+  const pixels = height * width;
+  const sourceX = new Float32Array(batchSize * pixels);
+  const sourceY = new Float32Array(batchSize * pixels);
+
+  transforms.forEach(([a0, a1, a2, b0, b1, b2, c0, c1], n) => {
+    for (let y = 0; y < height; y++) {
+      for (let x = 0; x < width; x++) {
+        const index = n * pixels + y * width + x;
+        const k = c0 * x + c1 * y + 1;
+        sourceX[index] = (a0 * x + a1 * y + a2) / k;
+        sourceY[index] = (b0 * x + b1 * y + b2) / k;
+      }
+    }
+  });
+
+  return remapBatch(images, sourceX, sourceY, fillValue);
+}
+
+/**
+ * Elastic distortion (Simard et al., 2003) of a whole batch.
+ *
+ * Each sample gets a random displacement field drawn from its own `seed`
+ * (x from `2·seed`, y from `2·seed + 1`, so no two seeds share a field),
+ * smoothed with a Gaussian of width `sigma` and scaled by `alpha` pixels.
+ * Samples with `alpha` 0 are left unchanged.
+ */
+export function elasticBatch(
+  images: tf.Tensor4D,
+  fields: { alpha: number; sigma: number; seed: number }[],
+  fillValue = 0
+): tf.Tensor4D {
+  const [batchSize, height, width] = images.shape;
+  const pixels = height * width;
+
+  return tf.tidy(() => {
+    // Raw uniform(−1, 1) displacements, x and y per sample: [N·2, H, W, 1]
+    const raw = tf.stack(
+      fields.flatMap(({ seed }) => [
+        tf.randomUniform([height, width, 1], -1, 1, 'float32', seed * 2),
+        tf.randomUniform([height, width, 1], -1, 1, 'float32', seed * 2 + 1),
+      ])
+    ) as tf.Tensor4D;
+
+    // Smooth each field with its own separable Gaussian
+    const smoothed = tf.concat(
+      fields.map(({ sigma }, n) => {
+        const kernel = gaussianKernel(sigma);
+        const pair = raw.slice([n * 2, 0, 0, 0], [2, height, width, 1]);
+        return pair
+          .conv2d(kernel.reshape([kernel.size, 1, 1, 1]) as tf.Tensor4D, 1, 'same')
+          .conv2d(kernel.reshape([1, kernel.size, 1, 1]) as tf.Tensor4D, 1, 'same');
+      })
+    ).reshape([batchSize, 2, pixels]);
+
+    // Source coordinates: output grid plus the scaled displacement
+    const displacement = smoothed.dataSync();
+    const sourceX = new Float32Array(batchSize * pixels);
+    const sourceY = new Float32Array(batchSize * pixels);
+    fields.forEach(({ alpha }, n) => {
+      for (let pixel = 0; pixel < pixels; pixel++) {
+        const index = n * pixels + pixel;
+        sourceX[index] = (pixel % width) + alpha * displacement[(n * 2) * pixels + pixel];
+        sourceY[index] = Math.floor(pixel / width) + alpha * displacement[(n * 2 + 1) * pixels + pixel];
+      }
+    });
+
+    return remapBatch(images, sourceX, sourceY, fillValue);
+  });
+}
+
+/**
+ * Normalised 1-D Gaussian covering ±3σ
+ */
+function gaussianKernel(sigma: number): tf.Tensor1D {
+  return tf.tidy(() => {
+    const radius = Math.ceil(3 * sigma);
+    const offsets = tf.range(-radius, radius + 1);
+    const weights = offsets.square().div(-2 * sigma * sigma).exp();
+    return weights.div(weights.sum()) as tf.Tensor1D;
+  });
+}
+
+function remapOnCpu(
+  images: tf.Tensor4D,
+  xs: Float32Array,
+  ys: Float32Array,
+  fillValue: number
+): tf.Tensor4D {
+  const [batchSize, height, width, channels] = images.shape;
+  const pixels = height * width;
+  const source = images.dataSync();
+  const output = new Float32Array(source.length);
+
+  // Pixel at integer (x, y), or the fill value outside the image
+  const read = (base: number, y: number, x: number, channel: number): number =>
+    x < 0 || x >= width || y < 0 || y >= height
+      ? fillValue
+      : source[base + (y * width + x) * channels + channel];
+
+  for (let n = 0; n < batchSize; n++) {
+    const base = n * pixels * channels;
+
+    for (let pixel = 0; pixel < pixels; pixel++) {
+      const inX = xs[n * pixels + pixel];
+      const inY = ys[n * pixels + pixel];
+      const target = base + pixel * channels;
+      if (!Number.isFinite(inX) || !Number.isFinite(inY)) {
+        output.fill(fillValue, target, target + channels);
+        continue;
+      }
+
+      const x0 = Math.floor(inX);
+      const y0 = Math.floor(inY);
+      const wx = inX - x0;
+      const wy = inY - y0;
+
+      for (let channel = 0; channel < channels; channel++) {
+        const top = (1 - wx) * read(base, y0, x0, channel) + wx * read(base, y0, x0 + 1, channel);
+        const bottom = (1 - wx) * read(base, y0 + 1, x0, channel) + wx * read(base, y0 + 1, x0 + 1, channel);
+        output[target + channel] = (1 - wy) * top + wy * bottom;
+      }
+    }
+  }
+
+  return tf.tensor4d(output, images.shape);
+}
+
+function remapWithGather(
+  images: tf.Tensor4D,
+  xs: Float32Array,
+  ys: Float32Array,
+  fillValue: number
+): tf.Tensor4D {
+  const [batchSize, height, width, channels] = images.shape;
+  const pixels = height * width;
+  const paddedWidth = width + 2;
+  const paddedPixels = (height + 2) * paddedWidth;
+
+  return tf.tidy(() => {
+    const sourceX = tf.tensor2d(xs, [batchSize, pixels]);
+    const sourceY = tf.tensor2d(ys, [batchSize, pixels]);
+    const x0 = sourceX.floor();
+    const y0 = sourceY.floor();
+    const wx = sourceX.sub(x0);
+    const wy = sourceY.sub(y0);
+
+    // A one-pixel border of fill value: clamping any outside coordinate onto
+    // it reads the fill value, so no bounds masks are needed
+    const padded = images
+      .pad([[0, 0], [1, 1], [1, 1], [0, 0]], fillValue)
+      .reshape([batchSize * paddedPixels, channels]);
+    const batchOffset = tf.range(0, batchSize).mul(paddedPixels).reshape([batchSize, 1]);
+
+    // Flat indices stay in float32 (exact below 2^24) until the gather
+    const column = (x: tf.Tensor) => x.clipByValue(-1, width).add(1);
+    const row = (y: tf.Tensor) => y.clipByValue(-1, height).add(1).mul(paddedWidth).add(batchOffset);
+    const left = column(x0);
+    const right = column(x0.add(1));
+    const top = row(y0);
+    const bottom = row(y0.add(1));
+
+    // Gather all four neighbours in one pass: [4, N, H·W, C]
+    const corners = tf.gather(
+      padded,
+      tf.stack([top.add(left), top.add(right), bottom.add(left), bottom.add(right)])
+        .flatten()
+        .toInt()
+    ).reshape([4, batchSize, pixels, channels]);
+
+    const invX = tf.sub(1, wx);
+    const invY = tf.sub(1, wy);
+    const weights = tf.stack([
+      invX.mul(invY),
+      wx.mul(invY),
+      invX.mul(wy),
+      wx.mul(wy),
+    ]).expandDims(3);
+
+    return corners.mul(weights).sum(0).reshape([batchSize, height, width, channels]) as tf.Tensor4D;
+  });
+}
@@ -0,0 +1,72 @@
+/**
+ * Augmentation throughput benchmark
+ * Compares the per-image `augmentImage` loop with batched `augmentBatch`
+ *
+ * Usage: pnpm benchmark:augmentation -- [--images 2048] [--batch-size 256]
+ */
+import * as tf from '@tensorflow/tfjs';
+import { augmentImage } from '../augmentation';
+import { augmentBatch } from '../augmentation-batch';
+import { createSeededRandom } from '../random';
+
+function readFlag(name: string, fallback: number): number {
+  const index = process.argv.indexOf(`--${name}`);
+  return index >= 0 ? parseInt(process.argv[index + 1], 10) : fallback;
+}
+
+function timeIt(run: () => void): number {
+  const start = performance.now();
+  run();
+  return performance.now() - start;
+}
+
+async function main() {
+  const totalImages = readFlag('images', 2048);
+  const batchSize = readFlag('batch-size', 256);
+
+  await tf.ready();
+  const images = tf.randomUniform([totalImages, 28, 28, 1]) as tf.Tensor4D;
+  const singles = tf.unstack(images) as tf.Tensor3D[];
+
+  // Warm up both paths so kernel setup is not measured
+  tf.tidy(() => {
+    augmentImage(singles[0]);
+    augmentBatch(images.slice(0, 2) as tf.Tensor4D);
+  });
+
+  // One stream per path, so each image gets its own transform
+  let random = createSeededRandom(1);
+  const perImageMs = timeIt(() => {
+    for (const image of singles) {
+      tf.tidy(() => {
+        augmentImage(image, { random }).dataSync();
+      });
+    }
+  });
+
+  random = createSeededRandom(1);
+  const batchedMs = timeIt(() => {
+    for (let start = 0; start < totalImages; start += batchSize) {
+      const size = Math.min(batchSize, totalImages - start);
+      tf.tidy(() => {
+        const chunk = images.slice([start, 0, 0, 0], [size, 28, 28, 1]);
+        augmentBatch(chunk, { random }).dataSync();
+      });
+    }
+  });
+
+  const perImageRate = (totalImages / perImageMs) * 1000;
+  const batchedRate = (totalImages / batchedMs) * 1000;
+
+  console.log(`Backend: ${tf.getBackend()} · ${totalImages} images · batch size ${batchSize}`);
+  console.log(`Per-image loop: ${perImageMs.toFixed(0)} ms (${perImageRate.toFixed(0)} images/s)`);
+  console.log(`Batched:        ${batchedMs.toFixed(0)} ms (${batchedRate.toFixed(0)} images/s)`);
+  console.log(`Speed-up:       ${(perImageMs / batchedMs).toFixed(1)}×`);
+
+  tf.dispose([images, singles]);
+}
+
+main().catch((error) => {
+  console.error(error);
+  process.exit(1);
+});
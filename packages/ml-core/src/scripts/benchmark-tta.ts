@@ -0,0 +1,82 @@
+/**
+ * Test-time augmentation benchmark
+ * Compares single predictions with TTA (mean and vote) on the MNIST test
+ * split: accuracy against per-digit latency
+ *
+ * Usage: pnpm benchmark:tta -- [--model ./trained-models/mnist-cnn] [--data ./data/mnist]
+ *                              [--limit 1000]
+ */
+import { join } from 'node:path';
+import * as tf from '@tensorflow/tfjs';
+import { loadMnist } from '../data/mnist';
+import { predictBatch } from '../inference/batch';
+import { predictDigit } from '../inference/predict';
+import { aggregateTTA, DEFAULT_TTA_VARIANTS, ttaImages } from '../inference/tta';
+import { loadModel } from '../model/persistence';
+import type { GrayscaleImage } from '../preprocessing';
+
+function readFlag(name: string): string | undefined {
+  const index = process.argv.indexOf(`--${name}`);
+  return index >= 0 ? process.argv[index + 1] : undefined;
+}
+
+async function main() {
+  const modelPath =
+    readFlag('model') ?? join(process.env.MODEL_OUTPUT_PATH ?? './trained-models', 'mnist-cnn');
+  const datasetPath = readFlag('data') ?? process.env.DATASET_PATH ?? './data/mnist';
+  const limit = readFlag('limit');
+
+  await tf.ready();
+  console.log(`📂 Loading model ${modelPath} and MNIST test split from ${datasetPath}`);
+  const model = await loadModel(modelPath);
+  const test = await loadMnist(datasetPath, 'test');
+  const count = Math.min(limit ? parseInt(limit, 10) : 1000, test.images.shape[0]);
+  const pixels = test.images.slice(0, count).dataSync() as Float32Array;
+  const labels = Array.from(test.labels.slice(0, count).argMax(1).dataSync());
+  tf.dispose([test.images, test.labels]);
+  const digits: GrayscaleImage[] = labels.map((_, i) => ({
+    data: pixels.subarray(i * 784, (i + 1) * 784),
+    width: 28,
+    height: 28,
+  }));
+
+  // Warm up so kernel setup is not measured
+  await predictBatch(model, ttaImages(digits[0]));
+
+  // One request at a time, as the API serves them
+  const correct = { single: 0, mean: 0, vote: 0 };
+  let singleMs = 0;
+  let ttaMs = 0;
+  for (let i = 0; i < count; i++) {
+    let start = performance.now();
+    const single = await predictDigit(model, digits[i]);
+    singleMs += performance.now() - start;
+
+    start = performance.now();
+    const variants = await predictBatch(model, ttaImages(digits[i]));
+    const mean = aggregateTTA(variants, 'mean');
+    ttaMs += performance.now() - start;
+    const vote = aggregateTTA(variants, 'vote');
+
+    if (single.digit === labels[i]) correct.single++;
+    if (mean.digit === labels[i]) correct.mean++;
+    if (vote.digit === labels[i]) correct.vote++;
+  }
+  model.dispose();
+
+  const row = (mode: string, hits: number, ms: number) =>
+    `| ${mode} | ${((hits / count) * 100).toFixed(2)}% | ${(ms / count).toFixed(2)} ms |`;
+  console.log(
+    `\nBackend: ${tf.getBackend()} · ${count} test digits · ${DEFAULT_TTA_VARIANTS.length} TTA variants\n`
+  );
+  console.log('| Mode | Accuracy | Latency per digit |');
+  console.log('|------|----------|-------------------|');
+  console.log(row('single', correct.single, singleMs));
+  console.log(row('tta (mean)', correct.mean, ttaMs));
+  console.log(row('tta (vote)', correct.vote, ttaMs));
+}
+
+main().catch((error) => {
+  console.error('❌ Benchmark failed:', error instanceof Error ? error.message : error);
+  process.exit(1);
+});
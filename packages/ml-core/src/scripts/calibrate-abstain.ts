@@ -0,0 +1,172 @@
+/**
+ * Abstention calibration entry point
+ * Tunes the "no digit" thresholds on the validation split the model was
+ * trained with and stores them in the model metadata
+ *
+ * Usage: pnpm calibrate:abstain -- [--model ./trained-models/mnist-cnn] [--data ./data/mnist]
+ *                                  [--reject-rate 0.01] [--val-split 0.1667] [--samples 60000]
+ *                                  [--limit 10000] [--dry-run]
+ *
+ * The validation split is the last `valSplit` of the first `samples` training
+ * images, as in `pnpm train`; both default to the model's training config.
+ * The MNIST test split (its first `limit` digits) only measures the result,
+ * alongside blank and random-noise images that should all be rejected.
+ * Predictions are scaled by the model's temperature, as at inference time, so
+ * run `pnpm calibrate:temperature` first.
+ */
+import { join } from 'node:path';
+import * as tf from '@tensorflow/tfjs';
+import { loadMnist } from '../data/mnist';
+import {
+  abstainReason,
+  abstainSample,
+  calibrateAbstainThresholds,
+  evaluateAbstention,
+  type AbstainThresholds,
+  type AbstentionReport,
+} from '../inference/abstain';
+import { predictBatch } from '../inference/batch';
+import type { DigitPrediction } from '../inference/predict';
+import { loadModel, readModelMetadata, updateModelMetadata } from '../model/persistence';
+import { scalePrediction } from '../model/temperature';
+import type { GrayscaleImage } from '../preprocessing';
+import { createSeededRandom } from '../random';
+
+function readFlag(name: string): string | undefined {
+  const index = process.argv.indexOf(`--${name}`);
+  return index >= 0 ? process.argv[index + 1] : undefined;
+}
+
+function readNumber(name: string, fallback: unknown): number {
+  const raw = readFlag(name) ?? fallback;
+  const value = Number(raw);
+  if (raw === undefined || !Number.isFinite(value)) {
+    throw new Error(`--${name} must be a number, received "${raw}" (and the training config has none)`);
+  }
+  return value;
+}
+
+const percent = (value: number) => `${(value * 100).toFixed(2)}%`;
+
+function formatReport(title: string, report: AbstentionReport): string {
+  const reasons = Object.entries(report.rejectedBy)
+    .map(([reason, count]) => `${reason} ${count}`)
+    .join(', ');
+  return (
+    `${title}: ${report.count} samples, rejected ${percent(report.rejectRate)} (${reasons}), ` +
+    `accuracy ${percent(report.accuracy)} → ${percent(report.acceptedAccuracy)} on accepted`
+  );
+}
+
+/**
+ * Digits `start` to `end` of a split with their labels and the model's
+ * temperature-scaled predictions
+ */
+async function labelledPredictions(
+  model: tf.LayersModel,
+  split: { images: tf.Tensor; labels: tf.Tensor },
+  start: number,
+  end: number,
+  temperature: number
+): Promise<{ digit: GrayscaleImage; prediction: DigitPrediction; label: number }[]> {
+  const pixels = split.images.dataSync();
+  const labelIndices = split.labels.argMax(1);
+  const labels = labelIndices.dataSync();
+  labelIndices.dispose();
+
+  const samples = [];
+  for (let batchStart = start; batchStart < end; batchStart += 256) {
+    const digits: GrayscaleImage[] = [];
+    for (let i = batchStart; i < Math.min(batchStart + 256, end); i++) {
+      digits.push({ data: pixels.slice(i * 784, (i + 1) * 784) as Float32Array, width: 28, height: 28 });
+    }
+    const predictions = await predictBatch(model, digits);
+    samples.push(
+      ...digits.map((digit, i) => ({
+        digit,
+        prediction: scalePrediction(predictions[i], temperature),
+        label: labels[batchStart + i],
+      }))
+    );
+  }
+  return samples;
+}
+
+/**
+ * Share of images that are not digits at all which the thresholds reject
+ */
+async function outOfDistributionRejectRate(
+  model: tf.LayersModel,
+  images: GrayscaleImage[],
+  thresholds: AbstainThresholds,
+  temperature: number
+): Promise<number> {
+  const predictions = (await predictBatch(model, images)).map((p) => scalePrediction(p, temperature));
+  const rejected = predictions.filter((prediction, i) => abstainReason(prediction, images[i], null, thresholds));
+  return rejected.length / images.length;
+}
+
+async function main() {
+  const modelPath =
+    readFlag('model') ?? join(process.env.MODEL_OUTPUT_PATH ?? './trained-models', 'mnist-cnn');
+  const datasetPath = readFlag('data') ?? process.env.DATASET_PATH ?? './data/mnist';
+  const rejectRate = Number(readFlag('reject-rate') ?? 0.01);
+  const limit = readFlag('limit');
+  const dryRun = process.argv.includes('--dry-run');
+
+  await tf.ready();
+  const metadata = await readModelMetadata(modelPath);
+  const temperature = metadata.temperature ?? 1;
+  const valSplit = readNumber('val-split', metadata.trainingConfig?.valSplit);
+
+  console.log(`📂 Loading model ${modelPath} and MNIST from ${datasetPath}`);
+  const model = await loadModel(modelPath);
+  const train = await loadMnist(datasetPath, 'train');
+  const total = train.images.shape[0];
+  const samples = Math.min(readNumber('samples', metadata.trainingConfig?.samples ?? total), total);
+  const start = Math.round(samples * (1 - valSplit));
+  if (start < 0 || start >= samples) {
+    throw new Error(`Validation split ${valSplit} of ${samples} samples is empty`);
+  }
+  const calibration = await labelledPredictions(model, train, start, samples, temperature);
+  tf.dispose([train.images, train.labels]);
+
+  console.log(`🎚️  Fitting thresholds on ${calibration.length} validation samples`);
+  const thresholds = calibrateAbstainThresholds(
+    calibration.map(({ digit, prediction }) => abstainSample(digit, prediction)),
+    rejectRate
+  );
+  console.log('🎚️  Thresholds', JSON.stringify(thresholds, null, 2));
+  console.log(formatReport('📊 Validation digits', evaluateAbstention(calibration, thresholds)));
+
+  const test = await loadMnist(datasetPath, 'test');
+  const count = Math.min(limit ? parseInt(limit, 10) : Infinity, test.images.shape[0]);
+  const holdout = await labelledPredictions(model, test, 0, count, temperature);
+  tf.dispose([test.images, test.labels]);
+  console.log(formatReport('📊 Test digits', evaluateAbstention(holdout, thresholds)));
+
+  const random = createSeededRandom(42);
+  const blank = Array.from({ length: 20 }, () => ({ data: new Float32Array(784), width: 28, height: 28 }));
+  const noise = Array.from({ length: 200 }, () => ({
+    data: Float32Array.from({ length: 784 }, () => (random() < 0.3 ? random() : 0)),
+    width: 28,
+    height: 28,
+  }));
+  const blankRejected = await outOfDistributionRejectRate(model, blank, thresholds, temperature);
+  const noiseRejected = await outOfDistributionRejectRate(model, noise, thresholds, temperature);
+  console.log(`🚫 Blank images rejected: ${percent(blankRejected)}`);
+  console.log(`🚫 Noise images rejected: ${percent(noiseRejected)}`);
+
+  if (dryRun) {
+    console.log('🔍 Dry run: metadata not updated');
+  } else {
+    await updateModelMetadata(modelPath, { abstain: thresholds });
+    console.log(`💾 Stored thresholds in the metadata of ${modelPath}`);
+  }
+  model.dispose();
+}
+
+main().catch((error) => {
+  console.error('❌ Calibration failed:', error instanceof Error ? error.message : error);
+  process.exit(1);
+});
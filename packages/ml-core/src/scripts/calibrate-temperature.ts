@@ -0,0 +1,83 @@
+/**
+ * Temperature calibration entry point
+ * Fits the temperature that calibrates the model's confidences on the
+ * validation split it was trained with, and stores it in the model metadata
+ *
+ * Usage: pnpm calibrate:temperature -- [--model ./trained-models/mnist-cnn] [--data ./data/mnist]
+ *                                      [--val-split 0.1667] [--samples 60000] [--dry-run]
+ *
+ * The validation split is the last `valSplit` of the first `samples` training
+ * images, as in `pnpm train`; both default to the model's training config.
+ */
+import { join } from 'node:path';
+import * as tf from '@tensorflow/tfjs';
+import { loadMnist } from '../data/mnist';
+import { loadModel, readModelMetadata, updateModelMetadata } from '../model/persistence';
+import { fitTemperature, type CalibrationScore } from '../model/temperature';
+
+function readFlag(name: string): string | undefined {
+  const index = process.argv.indexOf(`--${name}`);
+  return index >= 0 ? process.argv[index + 1] : undefined;
+}
+
+function readNumber(name: string, fallback: unknown): number {
+  const raw = readFlag(name) ?? fallback;
+  const value = Number(raw);
+  if (raw === undefined || !Number.isFinite(value)) {
+    throw new Error(`--${name} must be a number, received "${raw}" (and the training config has none)`);
+  }
+  return value;
+}
+
+const formatScore = (score: CalibrationScore) =>
+  `ECE ${(score.ece * 100).toFixed(2)}% · NLL ${score.nll.toFixed(4)}`;
+
+async function main() {
+  const modelPath =
+    readFlag('model') ?? join(process.env.MODEL_OUTPUT_PATH ?? './trained-models', 'mnist-cnn');
+  const datasetPath = readFlag('data') ?? process.env.DATASET_PATH ?? './data/mnist';
+  const dryRun = process.argv.includes('--dry-run');
+
+  await tf.ready();
+  const metadata = await readModelMetadata(modelPath);
+  const valSplit = readNumber('val-split', metadata.trainingConfig?.valSplit);
+
+  console.log(`📂 Loading model ${modelPath} and MNIST training split from ${datasetPath}`);
+  const model = await loadModel(modelPath);
+  const train = await loadMnist(datasetPath, 'train');
+  const total = train.images.shape[0];
+  const samples = Math.min(readNumber('samples', metadata.trainingConfig?.samples ?? total), total);
+  const start = Math.round(samples * (1 - valSplit));
+  if (start < 0 || start >= samples) {
+    throw new Error(`Validation split ${valSplit} of ${samples} samples is empty`);
+  }
+
+  const images = train.images.slice(start, samples - start);
+  const probabilities = model.predict(images, { batchSize: 256 }) as tf.Tensor2D;
+  const labelIndices = train.labels.slice(start, samples - start).argMax(1);
+  const rows = (await probabilities.array()) as number[][];
+  const labels = Array.from(await labelIndices.data());
+  tf.dispose([train.images, train.labels, images, probabilities, labelIndices]);
+  model.dispose();
+
+  console.log(`🌡️  Fitting the temperature on ${labels.length} validation samples`);
+  const fit = fitTemperature(rows, labels);
+  console.log(`Temperature: ${fit.temperature.toFixed(4)}`);
+  console.log(`Before: ${formatScore(fit.before)}`);
+  console.log(`After:  ${formatScore(fit.after)}`);
+
+  if (dryRun) {
+    console.log('🔍 Dry run: metadata not updated');
+    return;
+  }
+  await updateModelMetadata(modelPath, { temperature: fit.temperature });
+  console.log(`💾 Stored the temperature in the metadata of ${modelPath}`);
+  if (metadata.abstain) {
+    console.log('⚠️  Abstention thresholds predate this temperature: re-run pnpm calibrate:abstain');
+  }
+}
+
+main().catch((error) => {
+  console.error('❌ Calibration failed:', error instanceof Error ? error.message : error);
+  process.exit(1);
+});
@@ -0,0 +1,72 @@
+/**
+ * Evaluation entry point
+ * Scores a saved model on the MNIST test split and writes JSON / Markdown reports
+ *
+ * Usage: pnpm evaluate -- [--model ./trained-models/mnist-cnn] [--data ./data/mnist]
+ *                         [--output ./reports/evaluation] [--limit 1000]
+ *                         [--model-card ../../docs/MODEL_CARD.md]
+ *
+ * `--model-card` rewrites the generated evaluation section of the model card.
+ * A single model's training scores come from its metadata.
+ * A comma-separated `--model` list is evaluated as an equally weighted ensemble.
+ */
+import { mkdir, readFile, writeFile } from 'node:fs/promises';
+import { dirname, join } from 'node:path';
+import * as tf from '@tensorflow/tfjs';
+import { loadMnist } from '../data/mnist';
+import { evaluateModel } from '../model/evaluation';
+import {
+  formatEvaluationJson,
+  formatEvaluationMarkdown,
+  replaceEvaluationSection,
+} from '../model/evaluation-report';
+import { loadEnsemble } from '../inference/ensemble';
+import { loadModel, readModelMetadata } from '../model/persistence';
+
+function readFlag(name: string): string | undefined {
+  const index = process.argv.indexOf(`--${name}`);
+  return index >= 0 ? process.argv[index + 1] : undefined;
+}
+
+async function main() {
+  const modelPath =
+    readFlag('model') ?? join(process.env.MODEL_OUTPUT_PATH ?? './trained-models', 'mnist-cnn');
+  const datasetPath = readFlag('data') ?? process.env.DATASET_PATH ?? './data/mnist';
+  const outputPath = readFlag('output') ?? './reports/evaluation';
+  const modelCardPath = readFlag('model-card');
+  const limit = readFlag('limit');
+
+  await tf.ready();
+  console.log(`📂 Loading model ${modelPath} and MNIST test split from ${datasetPath}`);
+  const memberPaths = modelPath.split(',');
+  const model =
+    memberPaths.length > 1 ? await loadEnsemble(memberPaths) : await loadModel(modelPath);
+  const test = await loadMnist(datasetPath, 'test');
+  const count = Math.min(limit ? parseInt(limit, 10) : Infinity, test.images.shape[0]);
+  const images = test.images.slice(0, count);
+  const labels = test.labels.slice(0, count);
+
+  const report = await evaluateModel(model, images, labels);
+  const training = memberPaths.length > 1 ? undefined : (await readModelMetadata(modelPath)).metrics;
+  const markdown = formatEvaluationMarkdown(report, training);
+
+  await mkdir(dirname(outputPath), { recursive: true });
+  await writeFile(`${outputPath}.json`, formatEvaluationJson(report));
+  await writeFile(`${outputPath}.md`, markdown);
+  console.log(markdown);
+  console.log(`💾 Wrote ${outputPath}.json and ${outputPath}.md`);
+
+  if (modelCardPath) {
+    const card = await readFile(modelCardPath, 'utf8');
+    await writeFile(modelCardPath, replaceEvaluationSection(card, markdown));
+    console.log(`📝 Updated evaluation section of ${modelCardPath}`);
+  }
+
+  tf.dispose([test.images, test.labels, images, labels]);
+  model.dispose();
+}
+
+main().catch((error) => {
+  console.error('❌ Evaluation failed:', error instanceof Error ? error.message : error);
+  process.exit(1);
+});
@@ -0,0 +1,102 @@
+/**
+ * Training entry point
+ * Trains the CNN on local MNIST IDX files and saves it with its metadata
+ *
+ * Usage: pnpm train -- [--epochs 15] [--batch-size 128] [--learning-rate 0.001]
+ *                      [--val-split 0.2] [--seed 42] [--limit 5000]
+ *                      [--data ./data/mnist] [--output ./trained-models/mnist-cnn]
+ *                      [--no-augmentation]
+ *
+ * DATASET_PATH, MODEL_OUTPUT_PATH, EPOCHS, BATCH_SIZE and LEARNING_RATE set the defaults.
+ */
+import { join } from 'node:path';
+import * as tf from '@tensorflow/tfjs';
+import { loadMnist } from '../data/mnist';
+import { createModel } from '../model/architecture';
+import { hashDataset, saveModel } from '../model/persistence';
+import { trainModel } from '../model/training';
+
+function readFlag(name: string): string | undefined {
+  const index = process.argv.indexOf(`--${name}`);
+  return index >= 0 ? process.argv[index + 1] : undefined;
+}
+
+function readNumber(name: string, envName: string | null, fallback?: number): number | undefined {
+  const raw = readFlag(name) ?? (envName ? process.env[envName] : undefined);
+  if (raw === undefined) {
+    return fallback;
+  }
+  const value = Number(raw);
+  if (!Number.isFinite(value)) {
+    throw new Error(`--${name} must be a number, received "${raw}"`);
+  }
+  return value;
+}
+
+async function main() {
+  const datasetPath = readFlag('data') ?? process.env.DATASET_PATH ?? './data/mnist';
+  const outputPath =
+    readFlag('output') ?? join(process.env.MODEL_OUTPUT_PATH ?? './trained-models', 'mnist-cnn');
+  const epochs = readNumber('epochs', 'EPOCHS', 15)!;
+  const batchSize = readNumber('batch-size', 'BATCH_SIZE', 128)!;
+  const learningRate = readNumber('learning-rate', 'LEARNING_RATE', 0.001)!;
+  const valSplit = readNumber('val-split', null, 1 / 6)!;
+  const seed = readNumber('seed', null);
+  const limit = readNumber('limit', null);
+  const augmentation = !process.argv.includes('--no-augmentation');
+
+  await tf.ready();
+  console.log(`📂 Loading MNIST from ${datasetPath}`);
+  const full = await loadMnist(datasetPath, 'train');
+  const count = Math.min(limit ?? Infinity, full.images.shape[0]);
+  const data = {
+    images: full.images.slice(0, count),
+    labels: full.labels.slice(0, count),
+  };
+  tf.dispose([full.images, full.labels]);
+
+  console.log(
+    `🏋️  Training on ${count} samples (${tf.getBackend()} backend, ` +
+      `augmentation ${augmentation ? 'on' : 'off'})`
+  );
+
+  const trainingConfig = { epochs, batchSize, learningRate, valSplit, augmentation, samples: count, seed };
+  const model = createModel({ learningRate, seed });
+  const metrics = await trainModel({
+    model,
+    data,
+    epochs,
+    batchSize,
+    valSplit,
+    seed,
+    augmentation,
+    onEpochEnd: (epoch) => {
+      console.log(
+        `Epoch ${epoch.epoch}/${epochs}: ` +
+          `loss ${epoch.loss.toFixed(4)} · acc ${(epoch.accuracy * 100).toFixed(2)}% · ` +
+          `val_loss ${epoch.valLoss.toFixed(4)} · val_acc ${(epoch.valAccuracy * 100).toFixed(2)}%`
+      );
+    },
+  });
+
+  console.log('✅ Training complete!');
+  console.log(`Final accuracy: ${(metrics.accuracy * 100).toFixed(2)}%`);
+  console.log(`Final loss: ${metrics.loss.toFixed(4)}`);
+  console.log(`Validation accuracy: ${(metrics.valAccuracy * 100).toFixed(2)}%`);
+  console.log(`Training time: ${(metrics.trainingTime / 1000).toFixed(1)}s`);
+
+  await saveModel(model, outputPath, {
+    datasetHash: hashDataset(data),
+    trainingConfig,
+    metrics,
+  });
+  console.log(`💾 Saved model to ${outputPath}.json`);
+
+  tf.dispose([data.images, data.labels]);
+  model.dispose();
+}
+
+main().catch((error) => {
+  console.error('❌ Training failed:', error instanceof Error ? error.message : error);
+  process.exit(1);
+});
@@ -0,0 +1,118 @@
+/**
+ * Projective Transform Matrices
+ * Inverse (output → input) mappings shared by the single-image and batched
+ * augmentation paths
+ */
+
+/**
+ * Inverse projective transform rows as consumed by `tf.image.transform`:
+ * [a0, a1, a2, b0, b1, b2, c0, c1] maps an OUTPUT pixel (x, y) back to the
+ * INPUT pixel it samples from.
+ */
+export type ProjectiveTransform = [number, number, number, number, number, number, number, number];
+
+/**
+ * Build the inverse mapping for a rotation of `angleDegrees` about the image
+ * centre. Positive angles rotate the digit counter-clockwise on screen.
+ */
+export function rotationTransform(
+  angleDegrees: number,
+  height: number,
+  width: number
+): ProjectiveTransform {
+  const theta = (angleDegrees * Math.PI) / 180;
+  const cos = Math.cos(theta);
+  const sin = Math.sin(theta);
+  const cx = (width - 1) / 2;
+  const cy = (height - 1) / 2;
+
+  // Output offset (dx, dy) from the centre samples the input at
+  // (dx·cos − dy·sin, dx·sin + dy·cos), i.e. the inverse rotation.
+  return [
+    cos, -sin, cx - cx * cos + cy * sin,
+    sin, cos, cy - cx * sin - cy * cos,
+    0, 0,
+  ];
+}
+
+/**
+ * Build the inverse mapping for a shear about the image centre.
+ * Positive x-shear leans the top of the digit to the right (italic slant);
+ * positive y-shear lifts the right-hand side of the digit.
+ */
+export function shearTransform(
+  shear: number,
+  axis: 'x' | 'y',
+  height: number,
+  width: number
+): ProjectiveTransform {
+  const cx = (width - 1) / 2;
+  const cy = (height - 1) / 2;
+
+  if (axis === 'x') {
+    // x' = x + shear·(y − cy)
+    return [1, shear, -shear * cy, 0, 1, 0, 0, 0];
+  }
+  // y' = y + shear·(x − cx)
+  return [1, 0, 0, shear, 1, -shear * cx, 0, 0];
+}
+
+/**
+ * Build the inverse mapping for a zoom about the image centre.
+ * Factors above 1 enlarge the digit.
+ */
+export function zoomTransform(
+  zoom: number,
+  height: number,
+  width: number
+): ProjectiveTransform {
+  const cx = (width - 1) / 2;
+  const cy = (height - 1) / 2;
+  const inv = 1 / zoom;
+
+  // x' = cx + (x − cx) / zoom
+  return [inv, 0, cx - cx * inv, 0, inv, cy - cy * inv, 0, 0];
+}
+
+/**
+ * Build the inverse mapping for a translation.
+ * Positive shifts move the digit right / down.
+ */
+export function shiftTransform(width: number, height: number): ProjectiveTransform {
+  return [1, 0, -width, 0, 1, -height, 0, 0];
+}
+
+/**
+ * Compose inverse mappings listed in forward order.
+ *
+ * Forward pipeline A → B → C has inverse A⁻¹ ∘ B⁻¹ ∘ C⁻¹: an output pixel is
+ * first mapped back through C, then B, then A. Each argument is already an
+ * inverse mapping, so the product is taken left to right.
+ */
+export function composeTransforms(...transforms: ProjectiveTransform[]): ProjectiveTransform {
+  const identity = [1, 0, 0, 0, 1, 0, 0, 0, 1];
+  const product = transforms.reduce<number[]>(
+    (acc, transform) => multiply3x3(acc, [...transform, 1]),
+    identity
+  );
+
+  // Normalise so the bottom-right entry is 1, as tf.image.transform expects
+  const k = product[8];
+  return [
+    product[0] / k, product[1] / k, product[2] / k,
+    product[3] / k, product[4] / k, product[5] / k,
+    product[6] / k, product[7] / k,
+  ];
+}
+
+function multiply3x3(a: number[], b: number[]): number[] {
+  const out = new Array<number>(9).fill(0);
+  for (let row = 0; row < 3; row++) {
+    for (let col = 0; col < 3; col++) {
+      for (let k = 0; k < 3; k++) {
+        out[row * 3 + col] += a[row * 3 + k] * b[k * 3 + col];
+      }
+    }
+  }
+  return out;
+}
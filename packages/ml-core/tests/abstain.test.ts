@@ -0,0 +1,138 @@
+import {
+  abstainReason,
+  abstainSample,
+  calibrateAbstainThresholds,
+  checkConfidence,
+  checkInk,
+  DEFAULT_ABSTAIN_THRESHOLDS,
+  evaluateAbstention,
+  inkCoverage,
+  inkExtent,
+  normalizedEntropy,
+} from '../src/inference/abstain';
+import type { DigitPrediction } from '../src/inference/predict';
+import type { GrayscaleImage } from '../src/preprocessing';
+
+/**
+ * Square canvas with a filled rectangle of ink
+ */
+function canvas(size: number, ink?: { x: number; y: number; width: number; height: number }): GrayscaleImage {
+  const data = new Float32Array(size * size);
+  if (ink) {
+    for (let y = ink.y; y < ink.y + ink.height; y++) {
+      data.fill(1, y * size + ink.x, y * size + ink.x + ink.width);
+    }
+  }
+  return { data, width: size, height: size };
+}
+
+function prediction(probabilities: number[]): DigitPrediction {
+  const confidence = Math.max(...probabilities);
+  return { digit: probabilities.indexOf(confidence), confidence, probabilities, inferenceTime: 1 };
+}
+
+const oneHot = (digit: number) => Array.from({ length: 10 }, (_, i) => (i === digit ? 1 : 0));
+const uniform = Array<number>(10).fill(0.1);
+const digit = canvas(28, { x: 10, y: 4, width: 6, height: 20 }); // 120 / 784 inked
+
+describe('ink measures', () => {
+  test('coverage counts pixels above the ink threshold', () => {
+    expect(inkCoverage(canvas(28))).toBe(0);
+    expect(inkCoverage(digit)).toBeCloseTo(120 / 784, 6);
+  });
+
+  test('extent is the longest side of the ink relative to the canvas', () => {
+    expect(inkExtent(canvas(28))).toBe(0);
+    expect(inkExtent(canvas(100, { x: 40, y: 40, width: 5, height: 20 }))).toBeCloseTo(0.2, 6);
+  });
+
+  test('entropy is 0 for one-hot and 1 for uniform outputs', () => {
+    expect(normalizedEntropy(oneHot(3))).toBe(0);
+    expect(normalizedEntropy(uniform)).toBeCloseTo(1, 6);
+    expect(normalizedEntropy([0.5, 0.5, 0, 0])).toBeCloseTo(0.5, 6);
+  });
+});
+
+describe('abstainReason', () => {
+  test('reports a clear digit', () => {
+    expect(abstainReason(prediction(oneHot(1)), digit, canvas(280, { x: 100, y: 40, width: 60, height: 200 }))).toBeNull();
+  });
+
+  test('rejects a blank canvas as EMPTY', () => {
+    expect(abstainReason(prediction(oneHot(1)), canvas(28), canvas(280))).toBe('EMPTY');
+  });
+
+  test('rejects a speck on a large canvas as TOO_SMALL', () => {
+    const speck = canvas(280, { x: 100, y: 100, width: 4, height: 4 });
+    expect(checkInk(digit, speck)).toBe('TOO_SMALL');
+    // Without the source only the 28×28 digit is judged
+    expect(checkInk(digit, null)).toBeNull();
+  });
+
+  test('rejects a mostly filled canvas as NOT_A_DIGIT', () => {
+    const filled = canvas(28, { x: 0, y: 0, width: 28, height: 20 });
+    expect(abstainReason(prediction(oneHot(8)), filled, null)).toBe('NOT_A_DIGIT');
+  });
+
+  test('rejects outputs spread over many classes as NOT_A_DIGIT', () => {
+    expect(checkConfidence(uniform)).toBe('NOT_A_DIGIT');
+  });
+
+  test('rejects outputs torn between two digits as AMBIGUOUS', () => {
+    const torn = [0, 0, 0, 0.45, 0, 0, 0, 0, 0.4, 0.15];
+    expect(normalizedEntropy(torn)).toBeLessThan(DEFAULT_ABSTAIN_THRESHOLDS.maxEntropy);
+    expect(checkConfidence(torn)).toBe('AMBIGUOUS');
+  });
+});
+
+describe('calibrateAbstainThresholds', () => {
+  const samples = Array.from({ length: 100 }, (_, i) => ({
+    coverage: 0.05 + i * 0.002,
+    confidence: 0.4 + i * 0.006,
+    entropy: 0.6 - i * 0.006,
+  }));
+
+  test('rejects about the requested share per check', () => {
+    const thresholds = calibrateAbstainThresholds(samples, 0.1);
+
+    expect(samples.filter((s) => s.confidence < thresholds.minConfidence)).toHaveLength(10);
+    expect(samples.filter((s) => s.entropy > thresholds.maxEntropy).length).toBeLessThanOrEqual(10);
+    expect(samples.filter((s) => s.coverage < thresholds.minInkCoverage)).toHaveLength(5);
+    expect(samples.filter((s) => s.coverage > thresholds.maxInkCoverage).length).toBeLessThanOrEqual(5);
+    expect(thresholds.minInkExtent).toBe(DEFAULT_ABSTAIN_THRESHOLDS.minInkExtent);
+  });
+
+  test('derives samples from predictions', () => {
+    expect(abstainSample(digit, prediction(oneHot(2)))).toEqual({
+      coverage: inkCoverage(digit),
+      confidence: 1,
+      entropy: 0,
+    });
+  });
+
+  test('fails without samples or with an invalid reject rate', () => {
+    expect(() => calibrateAbstainThresholds([])).toThrow(/without samples/);
+    expect(() => calibrateAbstainThresholds(samples, 0)).toThrow(/between 0 and 1/);
+    expect(() => calibrateAbstainThresholds(samples, 1)).toThrow(/between 0 and 1/);
+  });
+});
+
+describe('evaluateAbstention', () => {
+  test('reports rejections and accuracy on the accepted samples', () => {
+    const report = evaluateAbstention(
+      [
+        { digit, prediction: prediction(oneHot(1)), label: 1 },
+        { digit, prediction: prediction(oneHot(2)), label: 7 },
+        { digit, prediction: prediction(uniform), label: 0 },
+        { digit: canvas(28), prediction: prediction(oneHot(4)), label: 4 },
+      ],
+      DEFAULT_ABSTAIN_THRESHOLDS
+    );
+
+    expect(report.count).toBe(4);
+    expect(report.rejectRate).toBe(0.5);
+    expect(report.rejectedBy).toEqual({ EMPTY: 1, TOO_SMALL: 0, NOT_A_DIGIT: 1, AMBIGUOUS: 0 });
+    expect(report.accuracy).toBe(0.75);
+    expect(report.acceptedAccuracy).toBe(0.5);
+  });
+});
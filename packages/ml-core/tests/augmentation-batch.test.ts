@@ -0,0 +1,266 @@
+import * as tf from '@tensorflow/tfjs';
+import { applyAugmentation, type AugmentationParams } from '../src/augmentation';
+import {
+  applyBatchAugmentation,
+  augmentBatch,
+  createAugmentationMapFn,
+} from '../src/augmentation-batch';
+import { elasticBatch } from '../src/sampling';
+
+/**
+ * Batch of N distinct strokes, one column per sample
+ */
+function strokeBatch(size: number): tf.Tensor4D {
+  const buffer = tf.buffer([size, 28, 28, 1]);
+  for (let n = 0; n < size; n++) {
+    for (let row = 6; row < 22; row++) {
+      buffer.set(1, n, row, 10 + n, 0);
+    }
+  }
+  return buffer.toTensor() as tf.Tensor4D;
+}
+
+/**
+ * Intensity-weighted centre of a single-channel image, in pixel coordinates
+ */
+function centroid(image: tf.Tensor3D): { row: number; col: number } {
+  return tf.tidy(() => {
+    const plane = image.squeeze([2]);
+    const total = plane.sum().dataSync()[0];
+    const rows = tf.range(0, 28).reshape([28, 1]);
+    const cols = tf.range(0, 28).reshape([1, 28]);
+    return {
+      row: plane.mul(rows).sum().dataSync()[0] / total,
+      col: plane.mul(cols).sum().dataSync()[0] / total,
+    };
+  });
+}
+
+const identity: AugmentationParams = {
+  rotation: 0,
+  shear: 0,
+  shearAxis: 'x',
+  zoom: 1,
+  shift: { width: 0, height: 0 },
+};
+
+describe('Batched Augmentation', () => {
+  let batch: tf.Tensor4D;
+
+  beforeEach(() => {
+    batch = strokeBatch(4);
+  });
+
+  afterEach(() => {
+    batch.dispose();
+  });
+
+  test('keeps the [N, 28, 28, 1] shape', () => {
+    const result = augmentBatch(batch);
+    expect(result.shape).toEqual([4, 28, 28, 1]);
+    result.dispose();
+  });
+
+  test('samples independent parameters per image', () => {
+    const { images, params } = augmentBatch(batch, { seed: 1 }, { returnParams: true });
+    expect(params).toHaveLength(4);
+    expect(new Set(params.map((p) => p.rotation)).size).toBe(4);
+    images.dispose();
+  });
+
+  test('is reproducible for the same seed', () => {
+    const first = augmentBatch(batch, { seed: 9 });
+    const second = augmentBatch(batch, { seed: 9 });
+    expect(first.arraySync()).toEqual(second.arraySync());
+    first.dispose();
+    second.dispose();
+  });
+
+  test('identity parameters leave the batch unchanged', () => {
+    const result = applyBatchAugmentation(batch, [identity, identity, identity, identity]);
+    expect(result.sub(batch).abs().max().dataSync()[0]).toBeLessThan(1e-5);
+    result.dispose();
+  });
+
+  test('matches the per-image pipeline for single warps plus integer shifts', () => {
+    const params: AugmentationParams[] = [
+      { ...identity, rotation: 12 },
+      { ...identity, shear: -0.15 },
+      { ...identity, shear: 0.1, shearAxis: 'y' },
+      { ...identity, rotation: -8, shift: { width: 3, height: -2 } },
+    ];
+    const batched = applyBatchAugmentation(batch, params);
+    const slices = tf.unstack(batch) as tf.Tensor3D[];
+
+    params.forEach((sample, n) => {
+      const single = applyAugmentation(slices[n], sample);
+      const fromBatch = batched.slice([n, 0, 0, 0], [1, 28, 28, 1]).reshape([28, 28, 1]);
+      expect(fromBatch.sub(single).abs().max().dataSync()[0]).toBeLessThan(1e-4);
+      single.dispose();
+      fromBatch.dispose();
+    });
+
+    slices.forEach((slice) => slice.dispose());
+    batched.dispose();
+  });
+
+  test('composes rotation and shear to the same geometry as the sequential pipeline', () => {
+    const sample: AugmentationParams = { ...identity, rotation: -8, shear: 0.2, shift: { width: 3, height: -2 } };
+    const batched = applyBatchAugmentation(batch, [sample, sample, sample, sample]);
+    const slices = tf.unstack(batch) as tf.Tensor3D[];
+
+    // Sequential warps resample twice, so compare where the ink lands, not exact pixels
+    const single = applyAugmentation(slices[0], sample);
+    const fromBatch = batched.slice([0, 0, 0, 0], [1, 28, 28, 1]).reshape([28, 28, 1]) as tf.Tensor3D;
+    const expected = centroid(single);
+    const actual = centroid(fromBatch);
+    expect(actual.row).toBeCloseTo(expected.row, 1);
+    expect(actual.col).toBeCloseTo(expected.col, 1);
+
+    tf.dispose([slices, single, fromBatch, batched]);
+  });
+
+  test('zoom scales the stroke about the centre', () => {
+    const result = applyBatchAugmentation(batch, [
+      { ...identity, zoom: 1.2 },
+      { ...identity, zoom: 0.8 },
+      identity,
+      identity,
+    ]);
+    const ink = result.sum([1, 2, 3]).arraySync() as number[];
+    // A 1-pixel-wide vertical stroke grows in length (and width) with zoom
+    expect(ink[0]).toBeGreaterThan(16);
+    expect(ink[1]).toBeLessThan(16);
+    result.dispose();
+  });
+
+  test('matches the per-image pipeline for stroke, elastic and erasing stages', () => {
+    const params: AugmentationParams[] = [
+      { ...identity, strokeRadius: 1 },
+      { ...identity, strokeRadius: -1, erasing: { x: 8, y: 8, width: 6, height: 6 } },
+      { ...identity, elastic: { alpha: 30, sigma: 4, seed: 17 } },
+      { ...identity, strokeRadius: 2, elastic: { alpha: 0, sigma: 4, seed: 0 }, erasing: null },
+    ];
+    const batched = applyBatchAugmentation(batch, params);
+    const slices = tf.unstack(batch) as tf.Tensor3D[];
+
+    params.forEach((sample, n) => {
+      const single = applyAugmentation(slices[n], sample);
+      const fromBatch = batched.slice([n, 0, 0, 0], [1, 28, 28, 1]).reshape([28, 28, 1]);
+      expect(fromBatch.sub(single).abs().max().dataSync()[0]).toBeLessThan(1e-4);
+      tf.dispose([single, fromBatch]);
+    });
+
+    tf.dispose([slices, batched]);
+  });
+
+  test('samples handwriting augmentations per image when configured', () => {
+    const { images, params } = augmentBatch(
+      batch,
+      { strokeRange: { min: -1, max: 1 }, elasticRange: { min: 5, max: 10 }, seed: 2 },
+      { returnParams: true }
+    );
+    expect(images.shape).toEqual([4, 28, 28, 1]);
+    expect(new Set(params.map((p) => p.elastic?.seed)).size).toBe(4);
+    images.dispose();
+  });
+
+  test('rejects parameters beyond the hard limits', () => {
+    expect(() =>
+      applyBatchAugmentation(batch, [identity, identity, identity, { ...identity, rotation: 30 }])
+    ).toThrow(/exceeds maximum/);
+  });
+
+  test('rejects a parameter count that does not match the batch', () => {
+    expect(() => applyBatchAugmentation(batch, [identity])).toThrow(/Expected 4/);
+  });
+
+  test('does not leak tensors', () => {
+    const before = tf.memory().numTensors;
+    const result = augmentBatch(batch);
+    result.dispose();
+    expect(tf.memory().numTensors).toBe(before);
+  });
+});
+
+describe('tf.data Integration', () => {
+  test('augments xs of per-sample records and keeps ys', async () => {
+    const images = tf.unstack(strokeBatch(3)) as tf.Tensor3D[];
+    const labels = [0, 1, 2].map((digit) => tf.oneHot(digit, 10));
+    const dataset = tf.data
+      .array(images.map((xs, i) => ({ xs, ys: labels[i] })))
+      .map(createAugmentationMapFn({ seed: 4 }));
+
+    const elements = await dataset.toArray();
+    expect(elements).toHaveLength(3);
+    elements.forEach((element, i) => {
+      expect(element.xs.shape).toEqual([28, 28, 1]);
+      expect(element.ys.argMax().dataSync()[0]).toBe(i);
+    });
+
+    tf.dispose([images, labels, elements]);
+  });
+
+  test('rejects elements without image data', () => {
+    const mapFn = createAugmentationMapFn();
+    expect(() => mapFn({ ys: tf.scalar(1) })).toThrow(/image tensor/);
+  });
+
+  test('augments batched datasets in one pass', async () => {
+    const images = tf.unstack(strokeBatch(4)) as tf.Tensor3D[];
+    const dataset = tf.data
+      .array(images)
+      .batch(2)
+      .map(createAugmentationMapFn({ seed: 4 }));
+
+    const batches = (await dataset.toArray()) as tf.Tensor4D[];
+    expect(batches.map((b) => b.shape)).toEqual([
+      [2, 28, 28, 1],
+      [2, 28, 28, 1],
+    ]);
+
+    tf.dispose([images, batches]);
+  });
+
+  test('is reproducible across epochs for the same seed', async () => {
+    const images = tf.unstack(strokeBatch(2)) as tf.Tensor3D[];
+    const run = async () => {
+      const dataset = tf.data.array(images).map(createAugmentationMapFn({ seed: 12 }));
+      const out = (await dataset.toArray()) as tf.Tensor3D[];
+      const values = out.map((t) => t.arraySync());
+      tf.dispose(out);
+      return values;
+    };
+
+    expect(await run()).toEqual(await run());
+    tf.dispose(images);
+  });
+});
+
+describe('elasticBatch', () => {
+  // Linear ramps: inside the canvas, a remapped pixel reads back its source
+  // coordinate, so the output minus the ramp is the displacement itself
+  const ramp = (axis: 'x' | 'y') =>
+    tf.tidy(() => {
+      const line = tf.range(0, 28);
+      const plane = axis === 'x' ? line.reshape([1, 28]).tile([28, 1]) : line.reshape([28, 1]).tile([1, 28]);
+      return plane.reshape([1, 28, 28, 1]) as tf.Tensor4D;
+    });
+
+  function displacement(axis: 'x' | 'y', seed: number): number[] {
+    return tf.tidy(() => {
+      const input = ramp(axis);
+      const moved = elasticBatch(input, [{ alpha: 2, sigma: 4, seed }]).sub(input);
+      return Array.from(moved.slice([0, 4, 4, 0], [1, 20, 20, 1]).dataSync());
+    });
+  }
+
+  test('draws unrelated fields for consecutive seeds', () => {
+    const y = displacement('y', 8);
+    const nextX = displacement('x', 9);
+    const largest = (values: number[]) => Math.max(...values.map(Math.abs));
+    expect(largest(y)).toBeGreaterThan(0.1);
+    expect(largest(y.map((value, i) => value - nextX[i]))).toBeGreaterThan(0.1);
+    expect(displacement('y', 8)).toEqual(y);
+  });
+});
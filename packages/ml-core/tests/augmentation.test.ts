@@ -4,8 +4,45 @@ import {
   shiftAugmentation,
   zoomAugmentation,
   shearAugmentation,
+  strokeThicknessAugmentation,
+  elasticDistortionAugmentation,
+  randomErasingAugmentation,
   augmentImage,
+  applyAugmentation,
+  sampleAugmentationParams,
 } from '../src/augmentation';
+import { createSeededRandom } from '../src/random';
+
+/**
+ * Intensity-weighted centre of a single-channel image, in pixel coordinates
+ */
+function centroid(image: tf.Tensor3D): { row: number; col: number } {
+  const pixels = image.arraySync();
+  let total = 0;
+  let rowSum = 0;
+  let colSum = 0;
+  pixels.forEach((rowValues, row) => {
+    rowValues.forEach(([value], col) => {
+      total += value;
+      rowSum += row * value;
+      colSum += col * value;
+    });
+  });
+  return { row: rowSum / total, col: colSum / total };
+}
+
+/**
+ * Intensity-weighted column of one image row
+ */
+function rowCentroid(pixels: number[][][], row: number): number {
+  let total = 0;
+  let colSum = 0;
+  pixels[row].forEach(([value], col) => {
+    total += value;
+    colSum += col * value;
+  });
+  return colSum / total;
+}
 
 describe('Data Augmentation Pipeline', () => {
   let testImage: tf.Tensor3D;
@@ -52,6 +89,59 @@ describe('Data Augmentation Pipeline', () => {
         result.dispose();
       }
     });
+
+    test.each([15, -15, 10])(
+      'moves an off-centre pixel to its rotated position (%i°)',
+      (angle) => {
+        // Single bright pixel above the centre (13.5, 13.5)
+        const buffer = tf.buffer([28, 28, 1]);
+        buffer.set(1, 4, 18, 0);
+        const image = buffer.toTensor() as tf.Tensor3D;
+
+        const result = rotateAugmentation(image, angle);
+        const { row, col } = centroid(result);
+
+        // Counter-clockwise on screen: (dx, dy) → (dx·cos + dy·sin, −dx·sin + dy·cos)
+        const theta = (angle * Math.PI) / 180;
+        const dx = 18 - 13.5;
+        const dy = 4 - 13.5;
+        const expectedCol = 13.5 + dx * Math.cos(theta) + dy * Math.sin(theta);
+        const expectedRow = 13.5 - dx * Math.sin(theta) + dy * Math.cos(theta);
+
+        expect(col).toBeCloseTo(expectedCol, 0);
+        expect(row).toBeCloseTo(expectedRow, 0);
+        expect(Math.abs(col - 18) + Math.abs(row - 4)).toBeGreaterThan(1);
+
+        image.dispose();
+        result.dispose();
+      }
+    );
+
+    test('keeps the centre pixel fixed', () => {
+      const buffer = tf.buffer([28, 28, 1]);
+      buffer.set(1, 13, 13, 0);
+      buffer.set(1, 13, 14, 0);
+      buffer.set(1, 14, 13, 0);
+      buffer.set(1, 14, 14, 0);
+      const image = buffer.toTensor() as tf.Tensor3D;
+
+      const result = rotateAugmentation(image, 12);
+      const { row, col } = centroid(result);
+      expect(row).toBeCloseTo(13.5, 1);
+      expect(col).toBeCloseTo(13.5, 1);
+
+      image.dispose();
+      result.dispose();
+    });
+
+    test('fills uncovered corners with black background', () => {
+      const result = rotateAugmentation(testImage, 15);
+      const pixels = result.arraySync();
+      expect(pixels[0][0][0]).toBe(0);
+      expect(pixels[27][27][0]).toBe(0);
+      expect(pixels[14][14][0]).toBeCloseTo(1, 5);
+      result.dispose();
+    });
   });
 
   describe('Shift Augmentation (Translation)', () => {
@@ -85,6 +175,36 @@ describe('Data Augmentation Pipeline', () => {
       result.dispose();
     });
 
+    test.each([
+      [{ width: 3, height: 0 }, [10, 13]],
+      [{ width: -3, height: 0 }, [10, 7]],
+      [{ width: 0, height: 2 }, [12, 10]],
+      [{ width: 0, height: -4 }, [6, 10]],
+    ])('moves a pixel by the requested shift %o', (shift, [row, col]) => {
+      const buffer = tf.buffer([28, 28, 1]);
+      buffer.set(1, 10, 10, 0);
+      const image = buffer.toTensor() as tf.Tensor3D;
+
+      const result = shiftAugmentation(image, shift);
+      expect(result.arraySync()[row][col][0]).toBe(1);
+      expect(result.sum().dataSync()[0]).toBe(1);
+
+      image.dispose();
+      result.dispose();
+    });
+
+    // Regression: cropping from [0, 0] made negative shifts a no-op
+    test('moves content up and left for negative shifts', () => {
+      const result = shiftAugmentation(testImage, { width: -3, height: -4 });
+      const pixels = result.arraySync();
+
+      expect(result.sum().dataSync()[0]).toBe(24 * 25);
+      expect(pixels[23][24][0]).toBe(1);
+      expect(pixels[24][0][0]).toBe(0);
+      expect(pixels[0][25][0]).toBe(0);
+      result.dispose();
+    });
+
     test('rejects width shift > 4 pixels', () => {
       expect(() => shiftAugmentation(testImage, { width: 5, height: 0 })).toThrow(
         /exceeds maximum|shift.*out/i
@@ -184,6 +304,231 @@ describe('Data Augmentation Pipeline', () => {
         result.dispose();
       }
     });
+
+    test('slants a vertical stroke along the x axis', () => {
+      // Vertical "1" stroke through column 14
+      const buffer = tf.buffer([28, 28, 1]);
+      for (let row = 2; row < 26; row++) {
+        buffer.set(1, row, 14, 0);
+      }
+      const image = buffer.toTensor() as tf.Tensor3D;
+
+      const result = shearAugmentation(image, 0.2);
+      const pixels = result.arraySync();
+
+      // Each row moves right by 0.2·(13.5 − y): the top leans right, the bottom left
+      const topCol = rowCentroid(pixels, 3);
+      const bottomCol = rowCentroid(pixels, 24);
+      expect(topCol).toBeCloseTo(14 + 0.2 * (13.5 - 3), 1);
+      expect(bottomCol).toBeCloseTo(14 - 0.2 * (24 - 13.5), 1);
+
+      image.dispose();
+      result.dispose();
+    });
+
+    test('slants a horizontal stroke along the y axis', () => {
+      const buffer = tf.buffer([28, 28, 1]);
+      for (let col = 2; col < 26; col++) {
+        buffer.set(1, 14, col, 0);
+      }
+      const image = buffer.toTensor() as tf.Tensor3D;
+
+      const result = shearAugmentation(image, -0.2, undefined, { axis: 'y' });
+      const columns = tf.tidy(() => result.transpose([1, 0, 2]).arraySync() as number[][][]);
+
+      // Negative y-shear moves each column down by 0.2·(x − 13.5): the right-hand side drops
+      expect(rowCentroid(columns, 24)).toBeCloseTo(14 + 0.2 * (24 - 13.5), 1);
+      expect(rowCentroid(columns, 3)).toBeCloseTo(14 - 0.2 * (13.5 - 3), 1);
+
+      image.dispose();
+      result.dispose();
+    });
+
+    test('fills exposed regions with the configured fill value', () => {
+      const zeros = tf.zeros([28, 28, 1]) as tf.Tensor3D;
+      const result = shearAugmentation(zeros, 0.2, undefined, { fillValue: 1 });
+      const pixels = result.arraySync();
+
+      // Top-left corner samples from x < 0 under a positive x-shear
+      expect(pixels[0][0][0]).toBe(1);
+      expect(pixels[13][13][0]).toBe(0);
+
+      zeros.dispose();
+      result.dispose();
+    });
+
+    test('preserves total ink for interior strokes', () => {
+      const buffer = tf.buffer([28, 28, 1]);
+      for (let row = 8; row < 20; row++) {
+        buffer.set(1, row, 14, 0);
+      }
+      const image = buffer.toTensor() as tf.Tensor3D;
+
+      const result = shearAugmentation(image, -0.15);
+      expect(result.sum().dataSync()[0]).toBeCloseTo(12, 3);
+
+      image.dispose();
+      result.dispose();
+    });
+  });
+
+  describe('Stroke Thickness Augmentation', () => {
+    let dot: tf.Tensor3D;
+
+    beforeEach(() => {
+      const buffer = tf.buffer([28, 28, 1]);
+      buffer.set(1, 14, 14, 0);
+      dot = buffer.toTensor() as tf.Tensor3D;
+    });
+
+    afterEach(() => {
+      dot.dispose();
+    });
+
+    test('dilates strokes with a positive radius', () => {
+      const result = strokeThicknessAugmentation(dot, 1);
+      expect(result.sum().dataSync()[0]).toBe(9);
+      expect(result.arraySync()[13][13][0]).toBe(1);
+      result.dispose();
+    });
+
+    test('erodes strokes with a negative radius', () => {
+      // 3-pixel-wide bar thins to a 1-pixel core
+      const buffer = tf.buffer([28, 28, 1]);
+      for (let row = 5; row < 23; row++) {
+        for (let col = 13; col < 16; col++) {
+          buffer.set(1, row, col, 0);
+        }
+      }
+      const thick = buffer.toTensor() as tf.Tensor3D;
+
+      const result = strokeThicknessAugmentation(thick, -1);
+      const pixels = result.arraySync();
+      expect(pixels[14][14][0]).toBe(1);
+      expect(pixels[14][13][0]).toBe(0);
+      expect(pixels[14][15][0]).toBe(0);
+
+      tf.dispose([thick, result]);
+    });
+
+    test('no change at radius 0', () => {
+      const result = strokeThicknessAugmentation(dot, 0);
+      expect(result.arraySync()).toEqual(dot.arraySync());
+      result.dispose();
+    });
+
+    test('rejects radius beyond ±2', () => {
+      expect(() => strokeThicknessAugmentation(dot, 3)).toThrow(
+        /outside valid range|Stroke.*out/i
+      );
+    });
+
+    test('rejects fractional radius', () => {
+      expect(() => strokeThicknessAugmentation(dot, 0.5)).toThrow(
+        /outside valid range|Stroke.*out/i
+      );
+    });
+
+    test('applies random radius in valid range', () => {
+      for (let i = 0; i < 10; i++) {
+        const result = strokeThicknessAugmentation(dot);
+        expect([0, 1, 9]).toContain(result.sum().dataSync()[0]);
+        result.dispose();
+      }
+    });
+  });
+
+  describe('Elastic Distortion Augmentation', () => {
+    let stroke: tf.Tensor3D;
+
+    beforeEach(() => {
+      const buffer = tf.buffer([28, 28, 1]);
+      for (let row = 4; row < 24; row++) {
+        buffer.set(1, row, 14, 0);
+      }
+      stroke = buffer.toTensor() as tf.Tensor3D;
+    });
+
+    afterEach(() => {
+      stroke.dispose();
+    });
+
+    test('distorts the image and keeps its shape', () => {
+      const result = elasticDistortionAugmentation(stroke, 34, undefined, { seed: 1 });
+      expect(result.shape).toEqual([28, 28, 1]);
+      expect(result.sub(stroke).abs().max().dataSync()[0]).toBeGreaterThan(0.1);
+      result.dispose();
+    });
+
+    test('reproduces the same field for the same seed', () => {
+      const first = elasticDistortionAugmentation(stroke, 20, undefined, { seed: 5 });
+      const second = elasticDistortionAugmentation(stroke, 20, undefined, { seed: 5 });
+      const other = elasticDistortionAugmentation(stroke, 20, undefined, { seed: 6 });
+      expect(first.arraySync()).toEqual(second.arraySync());
+      expect(first.arraySync()).not.toEqual(other.arraySync());
+      tf.dispose([first, second, other]);
+    });
+
+    test('no change at alpha 0', () => {
+      const result = elasticDistortionAugmentation(stroke, 0);
+      expect(result.arraySync()).toEqual(stroke.arraySync());
+      result.dispose();
+    });
+
+    test('rejects alpha > 36', () => {
+      expect(() => elasticDistortionAugmentation(stroke, 40)).toThrow(
+        /outside valid range|Elastic.*out/i
+      );
+    });
+
+    test('rejects sigma outside [3, 8]', () => {
+      expect(() => elasticDistortionAugmentation(stroke, 10, undefined, { sigma: 1 })).toThrow(
+        /outside valid range|Elastic.*out/i
+      );
+    });
+
+    test('applies random distortion in valid range', () => {
+      for (let i = 0; i < 5; i++) {
+        const result = elasticDistortionAugmentation(stroke);
+        expect(result.shape).toEqual([28, 28, 1]);
+        result.dispose();
+      }
+    });
+  });
+
+  describe('Random Erasing Augmentation', () => {
+    test('blanks the requested region only', () => {
+      const result = randomErasingAugmentation(testImage, { x: 4, y: 6, width: 5, height: 3 });
+      const pixels = result.arraySync();
+      expect(pixels[6][4][0]).toBe(0);
+      expect(pixels[8][8][0]).toBe(0);
+      expect(pixels[9][8][0]).toBe(1);
+      expect(pixels[6][9][0]).toBe(1);
+      expect(result.sum().dataSync()[0]).toBe(28 * 28 - 15);
+      result.dispose();
+    });
+
+    test('rejects regions larger than 25% of the canvas', () => {
+      expect(() =>
+        randomErasingAugmentation(testImage, { x: 0, y: 0, width: 20, height: 20 })
+      ).toThrow(/outside valid range|Erasing.*out/i);
+    });
+
+    test('rejects regions outside the canvas', () => {
+      expect(() =>
+        randomErasingAugmentation(testImage, { x: 25, y: 0, width: 5, height: 5 })
+      ).toThrow(/outside the 28×28 canvas/);
+    });
+
+    test('erases a random area in valid range', () => {
+      for (let i = 0; i < 10; i++) {
+        const result = randomErasingAugmentation(testImage, undefined, { min: 0.05, max: 0.1 });
+        const erased = 28 * 28 - result.sum().dataSync()[0];
+        expect(erased).toBeGreaterThan(0);
+        expect(erased / (28 * 28)).toBeLessThanOrEqual(0.25);
+        result.dispose();
+      }
+    });
   });
 
   describe('Combined Augmentation Pipeline', () => {
@@ -199,11 +544,51 @@ describe('Data Augmentation Pipeline', () => {
         shiftRange: { width: 3, height: 3 },
         zoomRange: { min: 0.9, max: 1.1 },
         shearRange: { min: -0.1, max: 0.1 },
+        shearAxis: 'y',
       });
       expect(result.shape).toEqual([28, 28, 1]);
       result.dispose();
     });
 
+    test('leaves handwriting augmentations off unless configured', () => {
+      const { image, params } = augmentImage(testImage, {}, { returnParams: true });
+      expect(params.strokeRadius).toBeUndefined();
+      expect(params.elastic).toBeUndefined();
+      expect(params.erasing).toBeUndefined();
+      image.dispose();
+    });
+
+    test('samples and replays stroke, elastic and erasing parameters', () => {
+      const config = {
+        strokeRange: { min: -1, max: 1 },
+        elasticRange: { min: 10, max: 30 },
+        elasticSigma: 5,
+        erasingRange: { min: 0.05, max: 0.1 },
+        erasingProbability: 1,
+        seed: 21,
+      };
+      const { image, params } = augmentImage(testImage, config, { returnParams: true });
+
+      expect([-1, 0, 1]).toContain(params.strokeRadius);
+      expect(params.elastic?.alpha).toBeGreaterThanOrEqual(10);
+      expect(params.elastic?.alpha).toBeLessThanOrEqual(30);
+      expect(params.elastic?.sigma).toBe(5);
+      expect(params.erasing).not.toBeNull();
+
+      const replayed = applyAugmentation(testImage, JSON.parse(JSON.stringify(params)));
+      expect(replayed.arraySync()).toEqual(image.arraySync());
+      tf.dispose([image, replayed]);
+    });
+
+    test('rejects configured ranges beyond the hard limits', () => {
+      expect(() => augmentImage(testImage, { strokeRange: { min: 3, max: 3 } })).toThrow(
+        /Stroke radius/
+      );
+      expect(() => augmentImage(testImage, { elasticRange: { min: 50, max: 60 } })).toThrow(
+        /Elastic alpha/
+      );
+    });
+
     test('handles 100 random augmentations without errors', () => {
       for (let i = 0; i < 100; i++) {
         const result = augmentImage(testImage);
@@ -213,6 +598,88 @@ describe('Data Augmentation Pipeline', () => {
     });
   });
 
+  describe('Reproducibility', () => {
+    let digit: tf.Tensor3D;
+
+    beforeEach(() => {
+      // Asymmetric stroke so every transform changes the pixels
+      const buffer = tf.buffer([28, 28, 1]);
+      for (let row = 5; row < 22; row++) {
+        buffer.set(1, row, 10 + Math.floor(row / 4), 0);
+      }
+      digit = buffer.toTensor() as tf.Tensor3D;
+    });
+
+    afterEach(() => {
+      digit.dispose();
+    });
+
+    test.each([
+      ['rotation', (random: () => number) => rotateAugmentation(digit, undefined, undefined, random)],
+      ['shift', (random: () => number) => shiftAugmentation(digit, undefined, undefined, random)],
+      ['zoom', (random: () => number) => zoomAugmentation(digit, undefined, undefined, random)],
+      ['shear', (random: () => number) => shearAugmentation(digit, undefined, undefined, { random })],
+    ])('%s is identical for the same seed', (_name, augment) => {
+      const first = augment(createSeededRandom(42));
+      const second = augment(createSeededRandom(42));
+      expect(first.arraySync()).toEqual(second.arraySync());
+      first.dispose();
+      second.dispose();
+    });
+
+    test('same config seed reproduces augmentImage output', () => {
+      const first = augmentImage(digit, { seed: 7 });
+      const second = augmentImage(digit, { seed: 7 });
+      const other = augmentImage(digit, { seed: 8 });
+      expect(first.arraySync()).toEqual(second.arraySync());
+      expect(first.arraySync()).not.toEqual(other.arraySync());
+      first.dispose();
+      second.dispose();
+      other.dispose();
+    });
+
+    test('shared random source advances across calls', () => {
+      const random = createSeededRandom(3);
+      const first = sampleAugmentationParams({ random });
+      const second = sampleAugmentationParams({ random });
+      expect(first).not.toEqual(second);
+
+      const replayRandom = createSeededRandom(3);
+      expect(sampleAugmentationParams({ random: replayRandom })).toEqual(first);
+      expect(sampleAugmentationParams({ random: replayRandom })).toEqual(second);
+    });
+
+    test('returns sampled parameters within the configured ranges', () => {
+      const config = {
+        rotationRange: { min: -10, max: 10 },
+        shiftRange: { width: 2, height: 3 },
+        zoomRange: { min: 0.9, max: 1.1 },
+        shearRange: { min: -0.1, max: 0.1 },
+        shearAxis: 'y' as const,
+        seed: 11,
+      };
+      const { image, params } = augmentImage(digit, config, { returnParams: true });
+
+      expect(image.shape).toEqual([28, 28, 1]);
+      expect(Math.abs(params.rotation)).toBeLessThanOrEqual(10);
+      expect(Math.abs(params.shift.width)).toBeLessThanOrEqual(2);
+      expect(Math.abs(params.shift.height)).toBeLessThanOrEqual(3);
+      expect(params.zoom).toBeGreaterThanOrEqual(0.9);
+      expect(params.zoom).toBeLessThanOrEqual(1.1);
+      expect(Math.abs(params.shear)).toBeLessThanOrEqual(0.1);
+      expect(params.shearAxis).toBe('y');
+      image.dispose();
+    });
+
+    test('replays logged parameters exactly', () => {
+      const { image, params } = augmentImage(digit, {}, { returnParams: true });
+      const replayed = applyAugmentation(digit, JSON.parse(JSON.stringify(params)));
+      expect(replayed.arraySync()).toEqual(image.arraySync());
+      image.dispose();
+      replayed.dispose();
+    });
+  });
+
   describe('Memory Management', () => {
     test('does not leak tensors on rotation', () => {
       const before = tf.memory().numTensors;
@@ -0,0 +1,148 @@
+import { mkdtemp, rm } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import * as tf from '@tensorflow/tfjs';
+import { predictBatch } from '../src/inference/batch';
+import { createEnsemble, loadEnsemble } from '../src/inference/ensemble';
+import { predictDigit } from '../src/inference/predict';
+import { saveModel, updateModelMetadata } from '../src/model/persistence';
+import { applyTemperature } from '../src/model/temperature';
+
+/**
+ * 2×2 "model" scoring class `classes[i]` by pixel i (scaled by 10), so the
+ * brightest pixel's class wins
+ */
+function createPixelModel(classes = [0, 1, 2, 3]): tf.Sequential {
+  const model = tf.sequential({
+    layers: [
+      tf.layers.flatten({ inputShape: [2, 2, 1] }),
+      tf.layers.dense({ units: 4, activation: 'softmax' }),
+    ],
+  });
+  tf.tidy(() => model.layers[1].setWeights([tf.oneHot(classes, 4).toFloat().mul(10), tf.zeros([4])]));
+  return model;
+}
+
+const pixels = (...values: number[]) => Float32Array.from(values);
+
+describe('createEnsemble', () => {
+  let identity: tf.Sequential;
+  let swapped: tf.Sequential; // Classes 0 and 1 exchanged
+
+  beforeAll(() => {
+    identity = createPixelModel();
+    swapped = createPixelModel([1, 0, 2, 3]);
+  });
+
+  afterAll(() => {
+    identity.dispose();
+    swapped.dispose();
+  });
+
+  test('predicts like its only member, without disagreement', async () => {
+    const image = pixels(0.2, 0.9, 0, 0);
+    const single = await predictDigit(identity, image);
+    const result = await predictDigit(createEnsemble([identity, identity]), image);
+
+    expect(result.digit).toBe(single.digit);
+    result.probabilities.forEach((p, c) => expect(p).toBeCloseTo(single.probabilities[c], 6));
+    expect(result.disagreement).toBe(0);
+    expect(single.disagreement).toBeUndefined();
+  });
+
+  test('averages the members by weight', async () => {
+    const images = [pixels(1, 0, 0, 0), pixels(0, 0, 0.5, 0.6)];
+    const [a, b] = await Promise.all([predictBatch(identity, images), predictBatch(swapped, images)]);
+    const results = await predictBatch(createEnsemble([identity, swapped], { weights: [3, 1] }), images);
+
+    results.forEach((result, n) =>
+      result.probabilities.forEach((p, c) =>
+        expect(p).toBeCloseTo(0.75 * a[n].probabilities[c] + 0.25 * b[n].probabilities[c], 6)
+      )
+    );
+    expect(results[0]).toMatchObject({ digit: 0, disagreement: 0.25 });
+    expect(results[1]).toMatchObject({ digit: 3, disagreement: 0 });
+  });
+
+  test('reports vote shares for majority voting', async () => {
+    const ensemble = createEnsemble([identity, identity, swapped], { aggregation: 'vote' });
+    const result = await predictDigit(ensemble, pixels(1, 0, 0, 0));
+
+    expect(result.digit).toBe(0);
+    expect(result.probabilities[0]).toBeCloseTo(2 / 3, 6);
+    expect(result.probabilities[1]).toBeCloseTo(1 / 3, 6);
+    expect(result.disagreement).toBeCloseTo(1 / 3, 6);
+  });
+
+  test('applies member temperatures before combining', async () => {
+    const image = pixels(0.3, 0.1, 0, 0);
+    const raw = await predictDigit(identity, image);
+    const result = await predictDigit(createEnsemble([identity], { temperatures: [2] }), image);
+
+    applyTemperature(raw.probabilities, 2).forEach((p, c) => expect(result.probabilities[c]).toBeCloseTo(p, 5));
+  });
+
+  test('exposes probabilities through predict and leaks no tensors', () => {
+    const ensemble = createEnsemble([identity, swapped]);
+    const before = tf.memory().numTensors;
+    const input = tf.tensor4d(pixels(0, 0, 1, 0), [1, 2, 2, 1]);
+    const output = ensemble.predict(input);
+
+    expect(output.shape).toEqual([1, 4]);
+    expect(ensemble.weights).toEqual([0.5, 0.5]);
+    tf.dispose([input, output]);
+    expect(tf.memory().numTensors).toBe(before);
+  });
+
+  test('rejects invalid members and options', () => {
+    const other = tf.sequential({
+      layers: [tf.layers.flatten({ inputShape: [3, 3, 1] }), tf.layers.dense({ units: 4 })],
+    });
+
+    expect(() => createEnsemble([])).toThrow(/at least one member/);
+    expect(() => createEnsemble([identity], { weights: [1, 1] })).toThrow(/one weight and temperature per member/);
+    expect(() => createEnsemble([identity, swapped], { weights: [1, -1] })).toThrow(/non-negative/);
+    expect(() => createEnsemble([identity, swapped], { weights: [0, 0] })).toThrow(/positive sum/);
+    expect(() => createEnsemble([identity], { temperatures: [0] })).toThrow(/must be positive/);
+    expect(() => createEnsemble([identity, other])).toThrow(/member 1 has shapes/);
+    other.dispose();
+  });
+});
+
+describe('loadEnsemble', () => {
+  let dir: string;
+
+  beforeAll(async () => {
+    dir = await mkdtemp(join(tmpdir(), 'ensemble-test-'));
+    const [identity, swapped] = [createPixelModel(), createPixelModel([1, 0, 2, 3])];
+    await saveModel(identity, join(dir, 'identity'));
+    await saveModel(swapped, join(dir, 'swapped'));
+    await updateModelMetadata(join(dir, 'swapped'), { temperature: 2 });
+    identity.dispose();
+    swapped.dispose();
+  });
+
+  afterAll(async () => {
+    await rm(dir, { recursive: true, force: true });
+  });
+
+  test('loads the members with their calibrated temperatures', async () => {
+    const loaded = await loadEnsemble([join(dir, 'identity'), join(dir, 'swapped')], { weights: [1, 3] });
+    const identity = createPixelModel();
+    const swapped = createPixelModel([1, 0, 2, 3]);
+    const expected = createEnsemble([identity, swapped], { weights: [1, 3], temperatures: [1, 2] });
+    const image = pixels(0.4, 0.2, 0, 0);
+
+    const [result, reference] = [await predictDigit(loaded, image), await predictDigit(expected, image)];
+    expect(loaded.members).toHaveLength(2);
+    result.probabilities.forEach((p, c) => expect(p).toBeCloseTo(reference.probabilities[c], 5));
+    loaded.dispose();
+    expected.dispose();
+  });
+
+  test('disposes the members already loaded when one fails', async () => {
+    const before = tf.memory().numTensors;
+    await expect(loadEnsemble([join(dir, 'identity'), join(dir, 'missing')])).rejects.toThrow(/missing/);
+    expect(tf.memory().numTensors).toBe(before);
+  });
+});
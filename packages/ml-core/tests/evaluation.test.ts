@@ -0,0 +1,171 @@
+import * as tf from '@tensorflow/tfjs';
+import { createModel } from '../src/model/architecture';
+import { evaluateModel, evaluatePredictions } from '../src/model/evaluation';
+import {
+  EVALUATION_SECTION_END,
+  EVALUATION_SECTION_START,
+  formatEvaluationJson,
+  formatEvaluationMarkdown,
+  replaceEvaluationSection,
+} from '../src/model/evaluation-report';
+
+/**
+ * Three-class fixture with hand-checkable numbers:
+ *   sample 0: true 0, predicted 0 (0.9)
+ *   sample 1: true 0, predicted 1 (0.6), true class ranked 2nd
+ *   sample 2: true 1, predicted 1 (0.7)
+ *   sample 3: true 2, predicted 2 (0.5)
+ */
+const probabilities = [
+  [0.9, 0.05, 0.05],
+  [0.3, 0.6, 0.1],
+  [0.2, 0.7, 0.1],
+  [0.25, 0.25, 0.5],
+];
+const labels = [0, 0, 1, 2];
+
+describe('Evaluation', () => {
+  describe('evaluatePredictions', () => {
+    const report = evaluatePredictions(probabilities, labels, { topK: [1, 2], calibrationBins: 5 });
+
+    test('builds the confusion matrix with true digits as rows', () => {
+      expect(report.confusionMatrix).toEqual([
+        [1, 1, 0],
+        [0, 1, 0],
+        [0, 0, 1],
+      ]);
+      expect(report.sampleCount).toBe(4);
+      expect(report.accuracy).toBeCloseTo(0.75);
+    });
+
+    test('computes per-class precision, recall and F1', () => {
+      expect(report.perClass[0]).toMatchObject({ digit: 0, precision: 1, recall: 0.5, support: 2 });
+      expect(report.perClass[0].f1).toBeCloseTo(2 / 3);
+      expect(report.perClass[1]).toMatchObject({ precision: 0.5, recall: 1, support: 1 });
+      expect(report.perClass[2]).toMatchObject({ precision: 1, recall: 1, f1: 1 });
+      expect(report.macro.recall).toBeCloseTo(2.5 / 3);
+    });
+
+    test('computes top-k accuracy', () => {
+      expect(report.topK).toEqual([
+        { k: 1, accuracy: 0.75 },
+        { k: 2, accuracy: 1 },
+      ]);
+    });
+
+    test('bins confidences and computes ECE', () => {
+      const { bins, ece } = report.calibration;
+      expect(bins).toHaveLength(5);
+      expect(bins.map((bin) => bin.count)).toEqual([0, 0, 1, 2, 1]);
+      expect(bins[3].confidence).toBeCloseTo(0.65);
+      expect(bins[3].accuracy).toBeCloseTo(0.5);
+      // |1 − 0.5|·1/4 + |0.5 − 0.65|·2/4 + |1 − 0.9|·1/4
+      expect(ece).toBeCloseTo(0.125 + 0.075 + 0.025);
+    });
+
+    test('accepts flat probabilities', () => {
+      const flat = evaluatePredictions(probabilities.flat(), labels, { topK: [1, 2], calibrationBins: 5 });
+      expect(flat).toEqual(report);
+    });
+
+    test('scores zero precision for a class never predicted', () => {
+      const never = evaluatePredictions([[0.9, 0.1], [0.8, 0.2]], [0, 1], { topK: [1] });
+      expect(never.perClass[1]).toMatchObject({ precision: 0, recall: 0, f1: 0 });
+    });
+
+    test('rejects mismatched or invalid input', () => {
+      expect(() => evaluatePredictions([0.5, 0.5, 1], [0, 1])).toThrow(/rows of class probabilities/);
+      expect(() => evaluatePredictions(probabilities, [0, 0, 1, 3], { topK: [1] })).toThrow(/Label 3/);
+      expect(() => evaluatePredictions(probabilities, labels, { topK: [4] })).toThrow(/Top-k/);
+      expect(() => evaluatePredictions(probabilities, labels, { topK: [1], calibrationBins: 0 })).toThrow(
+        /Calibration bins/
+      );
+    });
+  });
+
+  describe('evaluateModel', () => {
+    test('matches evaluatePredictions on the model output, for one-hot and index labels', async () => {
+      const model = createModel({ conv1Filters: 4, conv2Filters: 8, denseUnits: 16, seed: 3 });
+      const images = tf.randomUniform([12, 28, 28, 1], 0, 1, 'float32', 9) as tf.Tensor4D;
+      const digits = tf.tensor1d([0, 1, 2, 3, 4, 5, 6, 7, 8, 9, 0, 1], 'int32');
+      const oneHot = tf.oneHot(digits, 10) as tf.Tensor2D;
+      const before = tf.memory().numTensors;
+
+      const fromOneHot = await evaluateModel(model, images, oneHot, { batchSize: 5 });
+      const fromIndices = await evaluateModel(model, images, digits);
+      expect(tf.memory().numTensors).toBe(before);
+
+      const output = model.predict(images) as tf.Tensor;
+      const expected = evaluatePredictions(output.dataSync(), Array.from(digits.dataSync()));
+      expect(fromOneHot).toEqual(expected);
+      expect(fromIndices).toEqual(expected);
+      expect(fromOneHot.confusionMatrix.flat().reduce((a, b) => a + b)).toBe(12);
+
+      tf.dispose([images, digits, oneHot, output]);
+      model.dispose();
+    });
+
+    test('rejects mismatched image and label counts', async () => {
+      const model = createModel({ conv1Filters: 4, conv2Filters: 8, denseUnits: 16 });
+      const images = tf.zeros([2, 28, 28, 1]) as tf.Tensor4D;
+      const digits = tf.tensor1d([1], 'int32');
+      await expect(evaluateModel(model, images, digits)).rejects.toThrow(/does not match/);
+      tf.dispose([images, digits]);
+      model.dispose();
+    });
+  });
+
+  describe('Reporters', () => {
+    const report = evaluatePredictions(probabilities, labels, { topK: [1, 2], calibrationBins: 5 });
+
+    test('JSON round-trips the report', () => {
+      expect(JSON.parse(formatEvaluationJson(report))).toEqual(report);
+    });
+
+    test('Markdown contains the model card tables', () => {
+      const markdown = formatEvaluationMarkdown(report);
+      expect(markdown).toContain('| Test Accuracy | 75.0% |');
+      expect(markdown).toContain('| Top-2 Accuracy | 100.0% |');
+      expect(markdown).toContain('| Digit | Precision | Recall | F1-Score | Support |');
+      expect(markdown).toContain('| 0 | 100.0% | 50.0% | 0.667 | 2 |');
+      expect(markdown).toContain('Digit    0    1    2\n0        1    1    0');
+      expect(markdown).toContain('| 0.6–0.8 | 2 | 65.0% | 50.0% | -15.0% |');
+      expect(markdown).toContain('| 0.0–0.2 | 0 | — | — | — |');
+    });
+
+    test('Markdown adds training scores when given', () => {
+      expect(formatEvaluationMarkdown(report)).not.toContain('### Training');
+
+      const markdown = formatEvaluationMarkdown(report, {
+        accuracy: 0.992,
+        loss: 0.0241,
+        valAccuracy: 0.989,
+        valLoss: 0.0372,
+        epochs: 15,
+        trainingTime: 60_000,
+        metricsHistory: [],
+      });
+      expect(markdown).toContain('| Training Accuracy | 99.2% |');
+      expect(markdown).toContain('| Validation Accuracy | 98.9% |');
+      expect(markdown).toContain('| Final Validation Loss | 0.0372 |');
+      expect(markdown.indexOf('### Training')).toBeLessThan(markdown.indexOf('### Performance'));
+    });
+
+    test('replaces only the marked section of a document', () => {
+      const document = [
+        '# Card',
+        EVALUATION_SECTION_START,
+        'old numbers',
+        EVALUATION_SECTION_END,
+        '## Next',
+      ].join('\n');
+
+      const updated = replaceEvaluationSection(document, 'new numbers\n');
+      expect(updated).toBe(
+        ['# Card', EVALUATION_SECTION_START, '', 'new numbers', '', EVALUATION_SECTION_END, '## Next'].join('\n')
+      );
+      expect(replaceEvaluationSection(updated, 'new numbers')).toBe(updated);
+      expect(() => replaceEvaluationSection('# Card', 'x')).toThrow(/evaluation:start/);
+    });
+  });
+});
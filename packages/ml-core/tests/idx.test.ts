@@ -0,0 +1,223 @@
+import { mkdtemp, readFile, rm, writeFile } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { gzipSync } from 'node:zlib';
+import * as tf from '@tensorflow/tfjs';
+import {
+  encodeIdx,
+  loadIdxDataset,
+  loadIdxImages,
+  loadIdxLabels,
+  parseIdx,
+  readIdxFile,
+  writeIdxFile,
+  writeIdxImages,
+  writeIdxLabels,
+} from '../src/data/idx';
+
+/**
+ * Hand-built MNIST-style buffers, independent of the encoder under test
+ */
+function imageFixture(count: number, size = 28): Uint8Array {
+  const header = [0, 0, 0x08, 3, 0, 0, 0, count, 0, 0, 0, size, 0, 0, 0, size];
+  const pixels = Array.from({ length: count * size * size }, (_, i) => i % 256);
+  return Uint8Array.from([...header, ...pixels]);
+}
+
+function labelFixture(labels: number[]): Uint8Array {
+  return Uint8Array.from([0, 0, 0x08, 1, 0, 0, 0, labels.length, ...labels]);
+}
+
+describe('IDX Format', () => {
+  let dir: string;
+
+  beforeAll(async () => {
+    dir = await mkdtemp(join(tmpdir(), 'idx-test-'));
+  });
+
+  afterAll(async () => {
+    await rm(dir, { recursive: true, force: true });
+  });
+
+  describe('parseIdx', () => {
+    test('reads the header and values of an image file', () => {
+      const idx = parseIdx(imageFixture(2));
+      expect(idx.dtype).toBe('uint8');
+      expect(idx.shape).toEqual([2, 28, 28]);
+      expect(idx.data[0]).toBe(0);
+      expect(idx.data[300]).toBe(300 % 256);
+    });
+
+    test('reads big-endian multi-byte types', () => {
+      const buffer = Uint8Array.from([0, 0, 0x0b, 1, 0, 0, 0, 2, 0x01, 0x02, 0xff, 0xfe]);
+      const idx = parseIdx(buffer);
+      expect(idx.dtype).toBe('int16');
+      expect(Array.from(idx.data)).toEqual([0x0102, -2]);
+    });
+
+    test('rejects a bad magic number', () => {
+      expect(() => parseIdx(Uint8Array.from([1, 0, 0x08, 1, 0, 0, 0, 0]))).toThrow(/magic/);
+    });
+
+    test('rejects an unknown data type', () => {
+      expect(() => parseIdx(Uint8Array.from([0, 0, 0x07, 1, 0, 0, 0, 0]))).toThrow(/data type 0x07/);
+    });
+
+    test('rejects truncated data', () => {
+      const truncated = imageFixture(1).slice(0, 100);
+      expect(() => parseIdx(truncated)).toThrow(/expected 800 bytes/);
+    });
+  });
+
+  describe('encodeIdx', () => {
+    test('round-trips every data type', () => {
+      const cases = [
+        { dtype: 'uint8' as const, data: Uint8Array.from([0, 128, 255]) },
+        { dtype: 'int8' as const, data: Int8Array.from([-128, 0, 127]) },
+        { dtype: 'int16' as const, data: Int16Array.from([-300, 0, 300]) },
+        { dtype: 'int32' as const, data: Int32Array.from([-70000, 0, 70000]) },
+        { dtype: 'float32' as const, data: Float32Array.from([-1.5, 0, 2.25]) },
+        { dtype: 'float64' as const, data: Float64Array.from([-1e-9, 0, Math.PI]) },
+      ];
+
+      for (const { dtype, data } of cases) {
+        const decoded = parseIdx(encodeIdx({ dtype, shape: [3], data }));
+        expect(decoded.dtype).toBe(dtype);
+        expect(Array.from(decoded.data)).toEqual(Array.from(data));
+      }
+    });
+
+    test('matches the hand-built fixture byte for byte', () => {
+      const fixture = imageFixture(1);
+      expect(encodeIdx(parseIdx(fixture))).toEqual(fixture);
+    });
+
+    test('rejects data that does not fill the shape', () => {
+      expect(() =>
+        encodeIdx({ dtype: 'uint8', shape: [2, 2], data: new Uint8Array(3) })
+      ).toThrow(/needs 4/);
+    });
+  });
+
+  describe('Files', () => {
+    test('reads plain and gzip-compressed files identically', async () => {
+      const fixture = labelFixture([3, 1, 4]);
+      await writeFile(join(dir, 'plain-idx1-ubyte'), fixture);
+      await writeFile(join(dir, 'packed-idx1-ubyte.gz'), gzipSync(fixture));
+
+      const plain = await readIdxFile(join(dir, 'plain-idx1-ubyte'));
+      const packed = await readIdxFile(join(dir, 'packed-idx1-ubyte.gz'));
+      expect(Array.from(packed.data)).toEqual(Array.from(plain.data));
+    });
+
+    test('gzip-compresses when the path ends in .gz', async () => {
+      const path = join(dir, 'written.gz');
+      await writeIdxFile(path, { dtype: 'uint8', shape: [2], data: Uint8Array.from([7, 8]) });
+
+      const raw = await readFile(path);
+      expect([raw[0], raw[1]]).toEqual([0x1f, 0x8b]);
+      expect(Array.from((await readIdxFile(path)).data)).toEqual([7, 8]);
+    });
+  });
+
+  describe('Tensors', () => {
+    test('loads images as normalised [N, 28, 28, 1] tensors', async () => {
+      const path = join(dir, 'images-idx3-ubyte');
+      await writeFile(path, imageFixture(3));
+
+      const images = await loadIdxImages(path);
+      expect(images.shape).toEqual([3, 28, 28, 1]);
+      expect(images.max().dataSync()[0]).toBeCloseTo(1, 5);
+      expect(images.min().dataSync()[0]).toBe(0);
+      expect(images.dataSync()[1]).toBeCloseTo(1 / 255, 6);
+      images.dispose();
+    });
+
+    test('loads labels as one-hot rows', async () => {
+      const path = join(dir, 'labels-idx1-ubyte');
+      await writeFile(path, labelFixture([0, 9, 5]));
+
+      const labels = await loadIdxLabels(path);
+      expect(labels.shape).toEqual([3, 10]);
+      expect(Array.from(labels.argMax(1).dataSync())).toEqual([0, 9, 5]);
+      expect(labels.sum().dataSync()[0]).toBe(3);
+      labels.dispose();
+    });
+
+    test('rejects labels outside 0-9', async () => {
+      const path = join(dir, 'bad-labels-idx1-ubyte');
+      await writeFile(path, labelFixture([1, 12]));
+      await expect(loadIdxLabels(path)).rejects.toThrow(/Label 12 at index 1/);
+    });
+
+    test('rejects image files with the wrong rank', async () => {
+      const path = join(dir, 'flat-idx1-ubyte');
+      await writeFile(path, labelFixture([1, 2]));
+      await expect(loadIdxImages(path)).rejects.toThrow(/3 dimensions/);
+    });
+
+    test('loads a matching dataset pair', async () => {
+      const imagesPath = join(dir, 'pair-images-idx3-ubyte.gz');
+      const labelsPath = join(dir, 'pair-labels-idx1-ubyte.gz');
+      await writeFile(imagesPath, gzipSync(imageFixture(2)));
+      await writeFile(labelsPath, gzipSync(labelFixture([6, 2])));
+
+      const { images, labels } = await loadIdxDataset({ imagesPath, labelsPath });
+      expect(images.shape).toEqual([2, 28, 28, 1]);
+      expect(labels.shape).toEqual([2, 10]);
+      tf.dispose([images, labels]);
+    });
+
+    test('rejects a dataset whose counts differ without leaking tensors', async () => {
+      const imagesPath = join(dir, 'mismatch-images-idx3-ubyte');
+      const labelsPath = join(dir, 'mismatch-labels-idx1-ubyte');
+      await writeFile(imagesPath, imageFixture(2));
+      await writeFile(labelsPath, labelFixture([1, 2, 3]));
+
+      const before = tf.memory().numTensors;
+      await expect(loadIdxDataset({ imagesPath, labelsPath })).rejects.toThrow(
+        /Image count 2 does not match label count 3/
+      );
+      expect(tf.memory().numTensors).toBe(before);
+    });
+
+    test('disposes the images when the labels fail to load', async () => {
+      const imagesPath = join(dir, 'orphan-images-idx3-ubyte');
+      const labelsPath = join(dir, 'bad-pair-labels-idx1-ubyte');
+      await writeFile(imagesPath, imageFixture(2));
+      await writeFile(labelsPath, labelFixture([1, 12]));
+
+      const before = tf.memory().numTensors;
+      await expect(loadIdxDataset({ imagesPath, labelsPath })).rejects.toThrow(/Label 12 at index 1/);
+      expect(tf.memory().numTensors).toBe(before);
+    });
+  });
+
+  describe('Export', () => {
+    test('writes canvas samples that load back unchanged', async () => {
+      const path = join(dir, 'export-images-idx3-ubyte.gz');
+      const pixels = Array.from({ length: 2 * 28 * 28 }, (_, i) => (i % 256) / 255);
+      const samples = tf.tensor4d(pixels, [2, 28, 28, 1]);
+
+      await writeIdxImages(path, samples);
+      const loaded = await loadIdxImages(path);
+      expect(loaded.sub(samples).abs().max().dataSync()[0]).toBeLessThan(1e-6);
+      tf.dispose([samples, loaded]);
+    });
+
+    test('writes digit arrays and one-hot tensors as the same labels', async () => {
+      const fromDigits = join(dir, 'digits-idx1-ubyte');
+      const fromOneHot = join(dir, 'one-hot-idx1-ubyte');
+      const oneHot = tf.oneHot(tf.tensor1d([4, 0, 7], 'int32'), 10) as tf.Tensor2D;
+
+      await writeIdxLabels(fromDigits, [4, 0, 7]);
+      await writeIdxLabels(fromOneHot, oneHot);
+      expect(await readFile(fromOneHot)).toEqual(await readFile(fromDigits));
+      oneHot.dispose();
+    });
+
+    test('rejects labels that are not digits', async () => {
+      await expect(writeIdxLabels(join(dir, 'invalid'), [3, 10])).rejects.toThrow(/Label 10/);
+    });
+  });
+});
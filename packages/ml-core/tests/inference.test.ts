@@ -0,0 +1,110 @@
+import * as tf from '@tensorflow/tfjs';
+import { predictBatch } from '../src/inference/batch';
+import { predictDigit } from '../src/inference/predict';
+
+/**
+ * 2×2 "model" whose logits are the pixels scaled by 10, so the brightest
+ * pixel wins
+ */
+function createPixelModel(): tf.Sequential {
+  const model = tf.sequential({
+    layers: [
+      tf.layers.flatten({ inputShape: [2, 2, 1] }),
+      tf.layers.dense({ units: 4, activation: 'softmax' }),
+    ],
+  });
+  tf.tidy(() => model.layers[1].setWeights([tf.eye(4).mul(10), tf.zeros([4])]));
+  return model;
+}
+
+describe('predictDigit', () => {
+  let model: tf.Sequential;
+
+  beforeAll(() => {
+    model = createPixelModel();
+  });
+
+  afterAll(() => {
+    model.dispose();
+  });
+
+  test('picks the most probable class', async () => {
+    const result = await predictDigit(model, Float32Array.from([0, 0, 1, 0]));
+
+    expect(result.digit).toBe(2);
+    expect(result.probabilities).toHaveLength(4);
+    expect(result.probabilities.reduce((sum, p) => sum + p, 0)).toBeCloseTo(1, 5);
+    expect(result.confidence).toBe(result.probabilities[2]);
+    expect(result.confidence).toBeGreaterThan(0.99);
+    expect(result.inferenceTime).toBeGreaterThanOrEqual(0);
+  });
+
+  test('accepts a GrayscaleImage', async () => {
+    const result = await predictDigit(model, {
+      data: Float32Array.from([0, 1, 0, 0]),
+      width: 2,
+      height: 2,
+    });
+    expect(result.digit).toBe(1);
+  });
+
+  test('rejects images that do not match the input shape', async () => {
+    await expect(predictDigit(model, new Float32Array(9))).rejects.toThrow(
+      'Model expects 2×2×1 = 4 values, received 9'
+    );
+  });
+
+  test('does not leak tensors', async () => {
+    const before = tf.memory().numTensors;
+    await predictDigit(model, Float32Array.from([1, 0, 0, 0]));
+    expect(tf.memory().numTensors).toBe(before);
+  });
+});
+
+describe('predictBatch', () => {
+  let model: tf.Sequential;
+
+  beforeAll(() => {
+    model = createPixelModel();
+  });
+
+  afterAll(() => {
+    model.dispose();
+  });
+
+  test('returns one prediction per image, in order', async () => {
+    const results = await predictBatch(model, [
+      Float32Array.from([0, 0, 0, 1]),
+      { data: Float32Array.from([1, 0, 0, 0]), width: 2, height: 2 },
+      Float32Array.from([0, 1, 0, 0]),
+    ]);
+
+    expect(results.map((result) => result.digit)).toEqual([3, 0, 1]);
+    expect(new Set(results.map((result) => result.inferenceTime)).size).toBe(1);
+  });
+
+  test('matches single-image predictions', async () => {
+    const image = Float32Array.from([0.2, 0.5, 0.1, 0.4]);
+    const [batched] = await predictBatch(model, [image]);
+    const single = await predictDigit(model, image);
+
+    expect(batched.digit).toBe(single.digit);
+    batched.probabilities.forEach((p, i) => expect(p).toBeCloseTo(single.probabilities[i], 6));
+  });
+
+  test('returns an empty list for no images', async () => {
+    await expect(predictBatch(model, [])).resolves.toEqual([]);
+  });
+
+  test('names the image that does not match the input shape', async () => {
+    await expect(
+      predictBatch(model, [new Float32Array(4), new Float32Array(3)])
+    ).rejects.toThrow('Model expects 2×2×1 = 4 values, image 1 has 3');
+  });
+
+  test('does not leak tensors', async () => {
+    const before = tf.memory().numTensors;
+    await predictBatch(model, [new Float32Array(4), new Float32Array(4)]);
+    expect(tf.memory().numTensors).toBe(before);
+  });
+});
@@ -0,0 +1,73 @@
+import * as tf from '@tensorflow/tfjs';
+import { createModel, DEFAULT_MODEL_CONFIG } from '../src/model/architecture';
+
+describe('Model Architecture', () => {
+  test('matches the layer stack in the model card', () => {
+    const model = createModel();
+    const layers = model.layers.map((layer) => [layer.getClassName(), layer.outputShape]);
+
+    expect(layers).toEqual([
+      ['Conv2D', [null, 26, 26, 32]],
+      ['MaxPooling2D', [null, 13, 13, 32]],
+      ['Conv2D', [null, 11, 11, 64]],
+      ['MaxPooling2D', [null, 5, 5, 64]],
+      ['Dropout', [null, 5, 5, 64]],
+      ['Flatten', [null, 1600]],
+      ['Dense', [null, 128]],
+      ['Dropout', [null, 128]],
+      ['Dense', [null, 10]],
+    ]);
+    expect(model.countParams()).toBe(225034);
+    model.dispose();
+  });
+
+  test('compiles with Adam and categorical cross-entropy', () => {
+    const model = createModel({ learningRate: 0.01 });
+    expect(model.optimizer.getClassName()).toBe('Adam');
+    expect(model.loss).toBe('categoricalCrossentropy');
+    model.dispose();
+  });
+
+  test('outputs a probability distribution per sample', () => {
+    const model = createModel();
+    tf.tidy(() => {
+      const probabilities = model.predict(tf.zeros([3, 28, 28, 1])) as tf.Tensor2D;
+      expect(probabilities.shape).toEqual([3, 10]);
+      const sums = probabilities.sum(1).dataSync();
+      sums.forEach((sum) => expect(sum).toBeCloseTo(1, 5));
+    });
+    model.dispose();
+  });
+
+  test('builds smaller variants from config', () => {
+    const model = createModel({ conv1Filters: 4, conv2Filters: 8, denseUnits: 16 });
+    expect(model.layers[0].outputShape).toEqual([null, 26, 26, 4]);
+    expect(model.layers[6].outputShape).toEqual([null, 16]);
+    model.dispose();
+  });
+
+  test('initialises identical weights for the same seed', () => {
+    const a = createModel({ seed: 7 });
+    const b = createModel({ seed: 7 });
+    const weightsA = a.getWeights()[0].dataSync();
+    const weightsB = b.getWeights()[0].dataSync();
+    expect(Array.from(weightsA)).toEqual(Array.from(weightsB));
+    a.dispose();
+    b.dispose();
+  });
+
+  test('rejects invalid configuration', () => {
+    expect(() => createModel({ denseUnits: 0 })).toThrow(/denseUnits/);
+    expect(() => createModel({ convDropout: 1 })).toThrow(/convDropout/);
+    expect(() => createModel({ learningRate: -1 })).toThrow(/Learning rate/);
+    expect(() => createModel({ inputShape: [8, 8, 1] })).toThrow(/too small/);
+  });
+
+  test('exposes the model card defaults', () => {
+    expect(DEFAULT_MODEL_CONFIG).toMatchObject({
+      inputShape: [28, 28, 1],
+      numClasses: 10,
+      learningRate: 0.001,
+    });
+  });
+});
@@ -0,0 +1,221 @@
+import { mkdtemp, readFile, rm, unlink, writeFile } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import * as tf from '@tensorflow/tfjs';
+import { createModel } from '../src/model/architecture';
+import {
+  fileSystemHandler,
+  hashDataset,
+  loadModel,
+  MODEL_SCHEMA_VERSION,
+  modelPaths,
+  readModelMetadata,
+  saveModel,
+  updateModelMetadata,
+} from '../src/model/persistence';
+import type { TrainingMetrics } from '../src/model/training';
+
+const tinyArchitecture = { conv1Filters: 4, conv2Filters: 8, denseUnits: 16, seed: 11 };
+
+const metrics: TrainingMetrics = {
+  accuracy: 0.9,
+  loss: 0.3,
+  valAccuracy: 0.85,
+  valLoss: 0.4,
+  epochs: 1,
+  trainingTime: 1200,
+  metricsHistory: [{ epoch: 1, accuracy: 0.9, loss: 0.3, valAccuracy: 0.85, valLoss: 0.4 }],
+};
+
+function dataset(fill: number) {
+  return {
+    images: tf.fill([2, 28, 28, 1], fill) as tf.Tensor4D,
+    labels: tf.oneHot(tf.tensor1d([1, 2], 'int32'), 10).toFloat() as tf.Tensor2D,
+  };
+}
+
+describe('Model Persistence', () => {
+  let dir: string;
+  let basePath: string;
+  let model: tf.Sequential;
+  let datasetHash: string;
+
+  beforeAll(async () => {
+    dir = await mkdtemp(join(tmpdir(), 'model-test-'));
+    model = createModel(tinyArchitecture);
+    const data = dataset(0.5);
+    datasetHash = hashDataset(data);
+    tf.dispose(data);
+  });
+
+  beforeEach(async () => {
+    basePath = join(dir, `mnist-cnn-${Math.random().toString(36).slice(2)}`);
+    await saveModel(model, basePath, {
+      datasetHash,
+      metrics,
+      trainingConfig: { epochs: 1, batchSize: 8, augmentation: true },
+    });
+  });
+
+  afterAll(async () => {
+    model.dispose();
+    await rm(dir, { recursive: true, force: true });
+  });
+
+  async function editMetadata(edit: (metadata: Record<string, unknown>) => void) {
+    const path = modelPaths(basePath).metadata;
+    const metadata = JSON.parse(await readFile(path, 'utf8'));
+    edit(metadata);
+    await writeFile(path, JSON.stringify(metadata));
+  }
+
+  test('writes the architecture, weights and metadata files', async () => {
+    const paths = modelPaths(basePath);
+    const modelJSON = JSON.parse(await readFile(paths.model, 'utf8'));
+    const weights = await readFile(paths.weights);
+
+    expect(modelJSON.modelTopology.class_name).toBe('Sequential');
+    expect(modelJSON.weightsManifest[0].paths).toEqual([`${basePath.split('/').pop()}-weights.bin`]);
+    expect(weights.byteLength).toBe(model.countParams() * 4);
+  });
+
+  test('records metadata in the sidecar', async () => {
+    const metadata = await readModelMetadata(basePath);
+
+    expect(metadata).toMatchObject({
+      schemaVersion: MODEL_SCHEMA_VERSION,
+      inputShape: [28, 28, 1],
+      numClasses: 10,
+      weightsBytes: model.countParams() * 4,
+      datasetHash,
+      metrics,
+      trainingConfig: { epochs: 1, batchSize: 8, augmentation: true },
+    });
+    expect(metadata.weightsSha256).toMatch(/^[0-9a-f]{64}$/);
+    expect(Date.parse(metadata.createdAt)).not.toBeNaN();
+  });
+
+  test('loads a model that predicts identically', async () => {
+    const loaded = await loadModel(basePath, { datasetHash, inputShape: [28, 28, 1], numClasses: 10 });
+    tf.tidy(() => {
+      const input = tf.randomUniform([3, 28, 28, 1], 0, 1, 'float32', 4);
+      const original = model.predict(input) as tf.Tensor;
+      const restored = loaded.predict(input) as tf.Tensor;
+      expect(Array.from(restored.dataSync())).toEqual(Array.from(original.dataSync()));
+    });
+    loaded.dispose();
+  });
+
+  test('accepts a path with a .json suffix', async () => {
+    const loaded = await loadModel(`${basePath}.json`);
+    expect(loaded.countParams()).toBe(model.countParams());
+    loaded.dispose();
+  });
+
+  test('fails when a file is missing', async () => {
+    await unlink(modelPaths(basePath).weights);
+    await expect(loadModel(basePath)).rejects.toThrow(/weights\.bin not found/);
+  });
+
+  test('fails when the metadata sidecar is missing', async () => {
+    await unlink(modelPaths(basePath).metadata);
+    await expect(loadModel(basePath)).rejects.toThrow(/metadata\.json not found/);
+  });
+
+  test('checks the weights against the sidecar it was given', async () => {
+    const metadata = await readModelMetadata(basePath);
+    await unlink(modelPaths(basePath).metadata);
+
+    const loaded = await tf.loadLayersModel(fileSystemHandler(basePath, {}, metadata));
+    expect(loaded.countParams()).toBe(model.countParams());
+    loaded.dispose();
+
+    await expect(
+      tf.loadLayersModel(fileSystemHandler(basePath, {}, { ...metadata, weightsSha256: '0'.repeat(64) }))
+    ).rejects.toThrow(/do not match the SHA-256/);
+  });
+
+  test('fails when the weights were modified', async () => {
+    const path = modelPaths(basePath).weights;
+    const weights = await readFile(path);
+    weights[0] ^= 0xff;
+    await writeFile(path, weights);
+    await expect(loadModel(basePath)).rejects.toThrow(/SHA-256/);
+  });
+
+  test('fails when the weights were truncated', async () => {
+    const path = modelPaths(basePath).weights;
+    await writeFile(path, (await readFile(path)).subarray(0, 100));
+    await expect(loadModel(basePath)).rejects.toThrow(/100 bytes/);
+  });
+
+  test('fails on a different schema version', async () => {
+    await editMetadata((metadata) => {
+      metadata.schemaVersion = MODEL_SCHEMA_VERSION + 1;
+    });
+    await expect(loadModel(basePath)).rejects.toThrow(/schema version 2, expected 1/);
+  });
+
+  test('fails on malformed metadata', async () => {
+    await editMetadata((metadata) => {
+      delete metadata.weightsSha256;
+      metadata.extra = true;
+    });
+    await expect(loadModel(basePath)).rejects.toThrow(/weightsSha256.*Unrecognized key/s);
+  });
+
+  test('fails when the architecture disagrees with the metadata', async () => {
+    await editMetadata((metadata) => {
+      metadata.numClasses = 9;
+    });
+    const before = tf.memory().numTensors;
+    await expect(loadModel(basePath)).rejects.toThrow(/class count 10 does not match 9/);
+    expect(tf.memory().numTensors).toBe(before);
+  });
+
+  test('fails on unexpected expectations', async () => {
+    await expect(loadModel(basePath, { datasetHash: 'f'.repeat(64) })).rejects.toThrow(
+      /trained on dataset/
+    );
+    await expect(loadModel(basePath, { inputShape: [32, 32, 1] })).rejects.toThrow(/input shape/);
+  });
+
+  test('updates the metadata without touching the weights', async () => {
+    const before = await readModelMetadata(basePath);
+    const abstain = { minInkCoverage: 0.03, maxInkCoverage: 0.4, minInkExtent: 0.05, minConfidence: 0.6, maxEntropy: 0.5 };
+    await updateModelMetadata(basePath, { abstain });
+
+    const after = await readModelMetadata(basePath);
+    expect(after.abstain).toEqual(abstain);
+    expect(after.weightsSha256).toBe(before.weightsSha256);
+    const loaded = await loadModel(basePath);
+    loaded.dispose();
+  });
+
+  test('keeps earlier calibrations when updating another', async () => {
+    await updateModelMetadata(basePath, { temperature: 1.5 });
+    await updateModelMetadata(basePath, {
+      abstain: { minInkCoverage: 0, maxInkCoverage: 1, minInkExtent: 0, minConfidence: 0, maxEntropy: 1 },
+    });
+
+    const metadata = await readModelMetadata(basePath);
+    expect(metadata.temperature).toBe(1.5);
+    expect(metadata.abstain?.maxEntropy).toBe(1);
+    await expect(updateModelMetadata(basePath, { temperature: 0 })).rejects.toThrow();
+  });
+
+  test('rejects invalid metadata updates', async () => {
+    await expect(
+      updateModelMetadata(basePath, { abstain: { minConfidence: 2 } as never })
+    ).rejects.toThrow();
+    expect((await readModelMetadata(basePath)).abstain).toBeUndefined();
+  });
+
+  test('hashes datasets by content', () => {
+    const same = dataset(0.5);
+    const other = dataset(0.25);
+    expect(hashDataset(same)).toBe(datasetHash);
+    expect(hashDataset(other)).not.toBe(datasetHash);
+    tf.dispose([same, other]);
+  });
+});
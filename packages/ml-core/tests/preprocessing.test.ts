@@ -0,0 +1,247 @@
+import {
+  boundingBox,
+  centreOfMass,
+  findComponents,
+  fromImageData,
+  normalizeImage,
+  preprocessDigit,
+  resizeImage,
+  segmentDigits,
+  type GrayscaleImage,
+} from '../src/preprocessing';
+
+type Rect = { left: number; top: number; width: number; height: number };
+
+/**
+ * Blank canvas with filled rectangles of ink
+ */
+function canvasWithRect(size: number, ...rects: Rect[]): GrayscaleImage {
+  const data = new Float32Array(size * size);
+  for (const rect of rects) {
+    for (let y = rect.top; y < rect.top + rect.height; y++) {
+      data.fill(1, y * size + rect.left, y * size + rect.left + rect.width);
+    }
+  }
+  return { data, width: size, height: size };
+}
+
+describe('Preprocessing', () => {
+  describe('normalizeImage', () => {
+    test('maps 0-255 grayscale to [0, 1]', () => {
+      expect(Array.from(normalizeImage([0, 51, 255]))).toEqual([0, Math.fround(0.2), 1]);
+    });
+
+    test('averages RGB and ignores alpha', () => {
+      const rgba = [255, 0, 0, 255, 30, 60, 90, 0];
+      const values = normalizeImage(rgba, { channels: 4 });
+      expect(values[0]).toBeCloseTo(1 / 3);
+      expect(values[1]).toBeCloseTo(60 / 255);
+    });
+
+    test('inverts dark ink and clamps to the range', () => {
+      expect(Array.from(normalizeImage([0, 300], { invert: true }))).toEqual([1, 0]);
+      expect(Array.from(normalizeImage([5, 10, 15], { min: 5, max: 15 }))).toEqual([0, 0.5, 1]);
+    });
+
+    test('rejects bad input', () => {
+      expect(() => normalizeImage([1, 2, 3], { channels: 4 })).toThrow(/4-channel/);
+      expect(() => normalizeImage([1], { min: 1, max: 1 })).toThrow(/empty/);
+    });
+
+    test('fromImageData checks the RGBA size', () => {
+      const image = fromImageData({ data: new Uint8ClampedArray(16).fill(255), width: 2, height: 2 });
+      expect(image).toMatchObject({ width: 2, height: 2 });
+      expect(Array.from(image.data)).toEqual([1, 1, 1, 1]);
+      expect(() => fromImageData({ data: new Uint8ClampedArray(12), width: 2, height: 2 })).toThrow(
+        /16 RGBA values/
+      );
+    });
+  });
+
+  describe('resizeImage', () => {
+    test('averages blocks when shrinking', () => {
+      const image = { data: Float32Array.from([1, 1, 0, 0, 1, 1, 0, 0, 0, 0, 0, 1, 0, 0, 1, 0]), width: 4, height: 4 };
+      expect(Array.from(resizeImage(image, 2, 2).data)).toEqual([1, 0, 0, 0.5]);
+    });
+
+    test('weights partially covered pixels', () => {
+      const image = { data: Float32Array.from([0, 0, 1]), width: 3, height: 1 };
+      const resized = resizeImage(image, 2, 1).data;
+      expect(resized[0]).toBeCloseTo(0);
+      expect(resized[1]).toBeCloseTo(2 / 3);
+    });
+
+    test('keeps a constant image constant in both directions', () => {
+      const image = { data: new Float32Array(35).fill(0.4), width: 7, height: 5 };
+      for (const [width, height] of [[3, 2], [20, 11], [7, 1]]) {
+        resizeImage(image, width, height).data.forEach((value) => expect(value).toBeCloseTo(0.4, 6));
+      }
+    });
+
+    test('rejects invalid sizes', () => {
+      const image = { data: new Float32Array(4), width: 2, height: 2 };
+      expect(() => resizeImage(image, 0, 2)).toThrow(/positive integers/);
+    });
+  });
+
+  describe('boundingBox and centreOfMass', () => {
+    test('find the ink extent and centroid', () => {
+      const image = canvasWithRect(10, { left: 2, top: 3, width: 4, height: 2 });
+      expect(boundingBox(image)).toEqual({ left: 2, top: 3, width: 4, height: 2 });
+      expect(centreOfMass(image)).toEqual({ x: 3.5, y: 3.5 });
+    });
+
+    test('return null for a blank image', () => {
+      const blank = { data: new Float32Array(9), width: 3, height: 3 };
+      expect(boundingBox(blank)).toBeNull();
+      expect(centreOfMass(blank)).toBeNull();
+    });
+
+    test('ignore faint pixels below the threshold', () => {
+      const image = canvasWithRect(10, { left: 4, top: 4, width: 2, height: 2 });
+      image.data[0] = 0.05;
+      expect(boundingBox(image, 0.1)).toEqual({ left: 4, top: 4, width: 2, height: 2 });
+    });
+  });
+
+  describe('preprocessDigit', () => {
+    test('produces a 28×28 digit fitted to 20 px and centred by mass', () => {
+      const drawing = canvasWithRect(280, { left: 10, top: 30, width: 60, height: 150 });
+      const digit = preprocessDigit(drawing);
+
+      expect(digit.width).toBe(28);
+      expect(digit.height).toBe(28);
+      expect(digit.data.length).toBe(784);
+
+      const box = boundingBox(digit)!;
+      expect(box.height).toBe(20);
+      expect(box.width).toBe(8); // 60:150 aspect ratio kept
+
+      const centre = centreOfMass(digit)!;
+      expect(Math.abs(centre.x - 13.5)).toBeLessThanOrEqual(0.5);
+      expect(Math.abs(centre.y - 13.5)).toBeLessThanOrEqual(0.5);
+    });
+
+    test('gives the same result wherever the digit is drawn', () => {
+      const topLeft = preprocessDigit(canvasWithRect(280, { left: 0, top: 0, width: 100, height: 140 }));
+      const bottomRight = preprocessDigit(
+        canvasWithRect(280, { left: 170, top: 130, width: 100, height: 140 })
+      );
+      expect(Array.from(bottomRight.data)).toEqual(Array.from(topLeft.data));
+    });
+
+    test('centres by mass rather than by bounding box', () => {
+      // An "L": heavy vertical bar on the left, thin foot
+      const drawing = canvasWithRect(100, { left: 10, top: 10, width: 20, height: 80 });
+      for (let y = 85; y < 90; y++) {
+        drawing.data.fill(1, y * 100 + 30, y * 100 + 90);
+      }
+
+      const digit = preprocessDigit(drawing);
+      const box = boundingBox(digit)!;
+      const boxCentre = box.left + (box.width - 1) / 2;
+      expect(boxCentre).toBeGreaterThan(14);
+      expect(Math.abs(centreOfMass(digit)!.x - 13.5)).toBeLessThanOrEqual(0.5);
+    });
+
+    test('enlarges tiny drawings', () => {
+      const digit = preprocessDigit(canvasWithRect(28, { left: 3, top: 3, width: 4, height: 5 }));
+      expect(boundingBox(digit)).toMatchObject({ width: 16, height: 20 });
+    });
+
+    test('returns a blank frame for a blank canvas', () => {
+      const digit = preprocessDigit({ data: new Float32Array(400), width: 20, height: 20 });
+      expect(digit.data.every((value) => value === 0)).toBe(true);
+    });
+
+    test('supports other frame sizes and rejects bad options', () => {
+      const drawing = canvasWithRect(50, { left: 5, top: 5, width: 30, height: 30 });
+      expect(preprocessDigit(drawing, { fitSize: 10, frameSize: 16 }).data.length).toBe(256);
+      expect(() => preprocessDigit(drawing, { fitSize: 30 })).toThrow(/Fit size/);
+      expect(() => preprocessDigit({ data: new Float32Array(3), width: 2, height: 2 })).toThrow(
+        /expected 2×2/
+      );
+    });
+  });
+
+  describe('segmentDigits', () => {
+    test('finds 8-connected components', () => {
+      const image = canvasWithRect(
+        10,
+        { left: 1, top: 1, width: 2, height: 2 },
+        { left: 3, top: 3, width: 2, height: 2 }
+      );
+      image.data[9 * 10 + 9] = 1;
+
+      const components = findComponents(image);
+      expect(components.map((component) => component.box)).toEqual([
+        { left: 1, top: 1, width: 4, height: 4 },
+        { left: 9, top: 9, width: 1, height: 1 },
+      ]);
+      expect(components[0].pixels).toHaveLength(8);
+    });
+
+    test('splits a number into digits ordered left to right', () => {
+      const image = canvasWithRect(
+        100,
+        { left: 70, top: 20, width: 10, height: 40 },
+        { left: 10, top: 25, width: 12, height: 40 },
+        { left: 40, top: 10, width: 15, height: 45 }
+      );
+
+      const segments = segmentDigits(image);
+      expect(segments.map((segment) => segment.box)).toEqual([
+        { left: 10, top: 25, width: 12, height: 40 },
+        { left: 40, top: 10, width: 15, height: 45 },
+        { left: 70, top: 20, width: 10, height: 40 },
+      ]);
+      expect(segments[1].image).toMatchObject({ width: 15, height: 45 });
+      expect(segments[1].image.data.every((value) => value === 1)).toBe(true);
+    });
+
+    test('merges fragments stacked above one another', () => {
+      // A 5 whose top bar was drawn as a separate stroke, next to a 1
+      const image = canvasWithRect(
+        100,
+        { left: 14, top: 10, width: 20, height: 4 },
+        { left: 10, top: 18, width: 18, height: 30 },
+        { left: 50, top: 10, width: 6, height: 38 }
+      );
+
+      expect(segmentDigits(image).map((segment) => segment.box)).toEqual([
+        { left: 10, top: 10, width: 24, height: 38 },
+        { left: 50, top: 10, width: 6, height: 38 },
+      ]);
+    });
+
+    test("keeps a neighbour's ink out of a digit's crop", () => {
+      // The second digit starts inside the first one's box, but overlaps it too little to merge
+      const image = canvasWithRect(
+        60,
+        { left: 5, top: 5, width: 20, height: 4 },
+        { left: 5, top: 5, width: 4, height: 30 },
+        { left: 22, top: 20, width: 20, height: 20 }
+      );
+
+      const [first, second] = segmentDigits(image);
+      expect(first.box).toEqual({ left: 5, top: 5, width: 20, height: 30 });
+      expect(second.box).toEqual({ left: 22, top: 20, width: 20, height: 20 });
+      // (22, 20) is the neighbour's ink inside the first box
+      expect(first.image.data[15 * 20 + 17]).toBe(0);
+    });
+
+    test('drops specks and returns nothing for a blank canvas', () => {
+      const image = canvasWithRect(
+        100,
+        { left: 10, top: 10, width: 20, height: 40 },
+        { left: 80, top: 80, width: 2, height: 2 }
+      );
+
+      expect(segmentDigits(image)).toHaveLength(1);
+      expect(segmentDigits({ data: new Float32Array(100), width: 10, height: 10 })).toEqual([]);
+      expect(() => segmentDigits({ data: new Float32Array(3), width: 2, height: 2 })).toThrow(
+        /expected 2×2/
+      );
+    });
+  });
+});
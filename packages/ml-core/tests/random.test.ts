@@ -0,0 +1,43 @@
+import { createSeededRandom, symmetricInt, uniform } from '../src/random';
+
+describe('Seeded Random Source', () => {
+  test('produces the same sequence for the same seed', () => {
+    const a = createSeededRandom(1234);
+    const b = createSeededRandom(1234);
+    const first = Array.from({ length: 20 }, () => a());
+    const second = Array.from({ length: 20 }, () => b());
+    expect(first).toEqual(second);
+  });
+
+  test('produces different sequences for different seeds', () => {
+    const a = createSeededRandom(1);
+    const b = createSeededRandom(2);
+    expect(a()).not.toEqual(b());
+  });
+
+  test('stays within [0, 1)', () => {
+    const random = createSeededRandom(99);
+    for (let i = 0; i < 1000; i++) {
+      const value = random();
+      expect(value).toBeGreaterThanOrEqual(0);
+      expect(value).toBeLessThan(1);
+    }
+  });
+
+  test('rejects non-finite seeds', () => {
+    expect(() => createSeededRandom(NaN)).toThrow(/finite/);
+  });
+
+  test('uniform and symmetricInt respect their bounds', () => {
+    const random = createSeededRandom(5);
+    for (let i = 0; i < 200; i++) {
+      const value = uniform(random, -0.2, 0.2);
+      expect(value).toBeGreaterThanOrEqual(-0.2);
+      expect(value).toBeLessThan(0.2);
+
+      const shift = symmetricInt(random, 4);
+      expect(Number.isInteger(shift)).toBe(true);
+      expect(Math.abs(shift)).toBeLessThanOrEqual(4);
+    }
+  });
+});
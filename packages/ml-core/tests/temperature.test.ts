@@ -0,0 +1,87 @@
+import { applyTemperature, fitTemperature, scalePrediction } from '../src/model/temperature';
+import { createSeededRandom } from '../src/random';
+
+const softmax = (logits: number[]) => {
+  const exps = logits.map((logit) => Math.exp(logit - Math.max(...logits)));
+  const sum = exps.reduce((total, value) => total + value, 0);
+  return exps.map((value) => value / sum);
+};
+
+/**
+ * Labels drawn from softmax(logits), reported as softmax(logits × sharpness):
+ * an overconfident model whose ideal temperature is `sharpness`
+ */
+function overconfidentSamples(count: number, sharpness: number) {
+  const random = createSeededRandom(7);
+  const probabilities: number[][] = [];
+  const labels: number[] = [];
+  for (let n = 0; n < count; n++) {
+    const logits = Array.from({ length: 10 }, () => random() * 4);
+    const truth = softmax(logits);
+    let u = random();
+    const label = truth.findIndex((p) => (u -= p) < 0);
+    labels.push(label < 0 ? 9 : label);
+    probabilities.push(softmax(logits.map((logit) => logit * sharpness)));
+  }
+  return { probabilities, labels };
+}
+
+describe('applyTemperature', () => {
+  const probabilities = [0.05, 0.9, 0.05];
+
+  test('leaves probabilities unchanged at T = 1', () => {
+    expect(applyTemperature(probabilities, 1)).toEqual(probabilities);
+  });
+
+  test('softens above 1 and sharpens below, keeping the top class', () => {
+    const softer = applyTemperature(probabilities, 2);
+    const sharper = applyTemperature(probabilities, 0.5);
+
+    expect(softer.reduce((sum, p) => sum + p, 0)).toBeCloseTo(1, 6);
+    expect(softer[1]).toBeLessThan(0.9);
+    expect(softer[1]).toBeCloseTo(Math.sqrt(0.9) / (Math.sqrt(0.9) + 2 * Math.sqrt(0.05)), 6);
+    expect(sharper[1]).toBeGreaterThan(0.9);
+    expect(softer.indexOf(Math.max(...softer))).toBe(1);
+  });
+
+  test('stays finite when a probability underflowed to 0', () => {
+    const scaled = applyTemperature([0, 1, 0], 3);
+    expect(scaled.every(Number.isFinite)).toBe(true);
+    expect(scaled[1]).toBeGreaterThan(0.99);
+  });
+
+  test('rejects non-positive temperatures', () => {
+    expect(() => applyTemperature(probabilities, 0)).toThrow(/must be positive/);
+    expect(() => applyTemperature(probabilities, -1)).toThrow(/must be positive/);
+  });
+
+  test('scales a prediction', () => {
+    const scaled = scalePrediction({ digit: 1, probabilities, confidence: 0.9, inferenceTime: 3 }, 2);
+    expect(scaled).toMatchObject({ digit: 1, inferenceTime: 3 });
+    expect(scaled.confidence).toBe(scaled.probabilities[1]);
+    expect(scaled.confidence).toBeLessThan(0.9);
+  });
+});
+
+describe('fitTemperature', () => {
+  test('recovers the temperature of an overconfident model and lowers its ECE', () => {
+    const { probabilities, labels } = overconfidentSamples(2000, 3);
+    const fit = fitTemperature(probabilities, labels);
+
+    expect(fit.temperature).toBeGreaterThan(2.5);
+    expect(fit.temperature).toBeLessThan(3.5);
+    expect(fit.after.nll).toBeLessThan(fit.before.nll);
+    expect(fit.after.ece).toBeLessThan(fit.before.ece / 2);
+  });
+
+  test('keeps a calibrated model close to T = 1', () => {
+    const { probabilities, labels } = overconfidentSamples(2000, 1);
+    expect(fitTemperature(probabilities, labels).temperature).toBeCloseTo(1, 0);
+  });
+
+  test('rejects mismatched input and invalid ranges', () => {
+    expect(() => fitTemperature([], [])).toThrow(/one probability row per label/);
+    expect(() => fitTemperature([[0.5, 0.5]], [0, 1])).toThrow(/one probability row per label/);
+    expect(() => fitTemperature([[0.5, 0.5]], [0], { min: 2, max: 1 })).toThrow(/range/);
+  });
+});
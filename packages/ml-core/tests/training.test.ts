@@ -0,0 +1,157 @@
+import { mkdtemp, rm } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import * as tf from '@tensorflow/tfjs';
+import { writeIdxImages, writeIdxLabels } from '../src/data/idx';
+import { createModel } from '../src/model/architecture';
+import { trainModel, type EpochMetrics } from '../src/model/training';
+
+// Small network so each test trains in a few seconds
+const tinyArchitecture = { conv1Filters: 4, conv2Filters: 8, denseUnits: 16 };
+
+jest.setTimeout(60000);
+
+/**
+ * Two easily separable classes: a bright left half (label 0) or right half (label 1)
+ */
+function syntheticDataset(count: number) {
+  return tf.tidy(() => {
+    const labels = Array.from({ length: count }, (_, i) => i % 2);
+    const images = tf.stack(
+      labels.map((label) => {
+        const column = tf.range(0, 28).reshape([1, 28, 1]);
+        const bright = label === 0 ? column.less(14) : column.greaterEqual(14);
+        return bright.toFloat().tile([28, 1, 1]);
+      })
+    ) as tf.Tensor4D;
+    const oneHot = tf.oneHot(tf.tensor1d(labels, 'int32'), 10).toFloat() as tf.Tensor2D;
+    return { images, labels: oneHot };
+  });
+}
+
+describe('Training', () => {
+  test('records metrics for every epoch', async () => {
+    const data = syntheticDataset(40);
+    const seen: EpochMetrics[] = [];
+
+    const metrics = await trainModel({
+      data,
+      epochs: 3,
+      batchSize: 8,
+      seed: 1,
+      architecture: tinyArchitecture,
+      onEpochEnd: (entry) => seen.push(entry),
+    });
+
+    expect(metrics.epochs).toBe(3);
+    expect(metrics.metricsHistory.map((entry) => entry.epoch)).toEqual([1, 2, 3]);
+    expect(seen).toEqual(metrics.metricsHistory);
+    const { epoch, ...last } = metrics.metricsHistory[2];
+    expect(epoch).toBe(3);
+    expect(metrics).toMatchObject(last);
+    for (const entry of metrics.metricsHistory) {
+      expect(entry.accuracy).toBeGreaterThanOrEqual(0);
+      expect(entry.accuracy).toBeLessThanOrEqual(1);
+      expect(Number.isFinite(entry.loss)).toBe(true);
+      expect(Number.isFinite(entry.valLoss)).toBe(true);
+    }
+    expect(metrics.trainingTime).toBeGreaterThan(0);
+    tf.dispose(data);
+  });
+
+  test('learns a separable problem', async () => {
+    const data = syntheticDataset(40);
+    const metrics = await trainModel({
+      data,
+      epochs: 5,
+      batchSize: 10,
+      learningRate: 0.01,
+      seed: 3,
+      architecture: tinyArchitecture,
+    });
+
+    expect(metrics.loss).toBeLessThan(metrics.metricsHistory[0].loss);
+    expect(metrics.valAccuracy).toBeGreaterThan(0.9);
+    tf.dispose(data);
+  });
+
+  test('trains a supplied model in place', async () => {
+    const data = syntheticDataset(20);
+    const model = createModel({ ...tinyArchitecture, seed: 5 });
+    const before = model.getWeights()[0].dataSync().slice();
+
+    await trainModel({ model, data, epochs: 1, batchSize: 4 });
+
+    expect(model.getWeights()[0].dataSync()).not.toEqual(before);
+    model.dispose();
+    tf.dispose(data);
+  });
+
+  test('augments training batches when enabled', async () => {
+    const data = syntheticDataset(20);
+    const metrics = await trainModel({
+      data,
+      epochs: 2,
+      batchSize: 5,
+      seed: 2,
+      augmentation: { rotationRange: { min: -10, max: 10 } },
+      architecture: tinyArchitecture,
+    });
+
+    expect(metrics.metricsHistory).toHaveLength(2);
+    tf.dispose(data);
+  });
+
+  test('releases every tensor it allocates', async () => {
+    const data = syntheticDataset(20);
+    const before = tf.memory().numTensors;
+
+    await trainModel({
+      data,
+      epochs: 2,
+      batchSize: 5,
+      augmentation: true,
+      architecture: tinyArchitecture,
+    });
+
+    expect(tf.memory().numTensors).toBe(before);
+    tf.dispose(data);
+  });
+
+  test('loads MNIST files from datasetPath', async () => {
+    const dir = await mkdtemp(join(tmpdir(), 'mnist-train-'));
+    const data = syntheticDataset(10);
+    await writeIdxImages(join(dir, 'train-images-idx3-ubyte.gz'), data.images);
+    await writeIdxLabels(join(dir, 'train-labels-idx1-ubyte'), data.labels);
+
+    const metrics = await trainModel({
+      datasetPath: dir,
+      epochs: 1,
+      batchSize: 4,
+      architecture: tinyArchitecture,
+    });
+
+    expect(metrics.epochs).toBe(1);
+    tf.dispose(data);
+    await rm(dir, { recursive: true, force: true });
+  });
+
+  test('rejects invalid configuration', async () => {
+    const data = syntheticDataset(4);
+
+    await expect(trainModel({ data, epochs: 0 })).rejects.toThrow(/Epochs/);
+    await expect(trainModel({ data, batchSize: 1.5 })).rejects.toThrow(/Batch size/);
+    await expect(trainModel({ data, valSplit: 1 })).rejects.toThrow(/Validation split/);
+    await expect(trainModel({ data, valSplit: 0.01 })).rejects.toThrow(/empty/);
+    await expect(
+      trainModel({ data: { images: data.images, labels: data.labels.slice(0, 3) } })
+    ).rejects.toThrow(/does not match/);
+    tf.dispose(data);
+  });
+
+  test('reports missing dataset files', async () => {
+    await expect(trainModel({ datasetPath: '/nonexistent/mnist' })).rejects.toThrow(
+      /train-images-idx3-ubyte\[\.gz\] not found/
+    );
+  });
+});
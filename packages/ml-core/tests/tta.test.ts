@@ -0,0 +1,143 @@
+import * as tf from '@tensorflow/tfjs';
+import { predictBatch } from '../src/inference/batch';
+import { predictDigit, type DigitPrediction } from '../src/inference/predict';
+import { aggregateTTA, DEFAULT_TTA_VARIANTS, predictWithTTA, ttaImages } from '../src/inference/tta';
+import type { GrayscaleImage } from '../src/preprocessing';
+
+/**
+ * 28×28 "model" scoring class 0 by ink in the left half and class 1 by ink
+ * in the right half
+ */
+function createHalvesModel(): tf.Sequential {
+  const model = tf.sequential({
+    layers: [
+      tf.layers.flatten({ inputShape: [28, 28, 1] }),
+      tf.layers.dense({ units: 10, activation: 'softmax' }),
+    ],
+  });
+  const kernel = new Float32Array(784 * 10);
+  for (let i = 0; i < 784; i++) {
+    kernel[i * 10 + (i % 28 < 14 ? 0 : 1)] = 0.05;
+  }
+  tf.tidy(() => model.layers[1].setWeights([tf.tensor2d(kernel, [784, 10]), tf.zeros([10])]));
+  return model;
+}
+
+/**
+ * Digit with a vertical bar of ink over columns [left, left + width)
+ */
+function bar(left: number, width = 4): GrayscaleImage {
+  const data = new Float32Array(784);
+  for (let y = 4; y < 24; y++) data.fill(1, y * 28 + left, y * 28 + left + width);
+  return { data, width: 28, height: 28 };
+}
+
+function prediction(probabilities: number[]): DigitPrediction {
+  const confidence = Math.max(...probabilities);
+  return { digit: probabilities.indexOf(confidence), probabilities, confidence, inferenceTime: 5 };
+}
+
+describe('ttaImages', () => {
+  test('builds one image per variant, starting with the original', () => {
+    const digit = bar(12);
+    const images = ttaImages(digit);
+
+    expect(images).toHaveLength(DEFAULT_TTA_VARIANTS.length);
+    expect(Array.from(images[0].data)).toEqual(Array.from(digit.data));
+    // The second default variant shifts one pixel left
+    expect(Array.from(images[1].data)).toEqual(Array.from(bar(11).data));
+    expect(images.every((image) => image.width === 28 && image.height === 28)).toBe(true);
+  });
+
+  test('is deterministic and leaks no tensors', () => {
+    const before = tf.memory().numTensors;
+    const first = ttaImages(bar(10));
+    const second = ttaImages(bar(10));
+
+    expect(first.map((image) => Array.from(image.data))).toEqual(second.map((image) => Array.from(image.data)));
+    expect(tf.memory().numTensors).toBe(before);
+  });
+
+  test('rejects digits that are not 28×28', () => {
+    expect(() => ttaImages({ data: new Float32Array(4), width: 2, height: 2 })).toThrow(/28×28/);
+  });
+});
+
+describe('aggregateTTA', () => {
+  const predictions = [
+    prediction([0.6, 0.4, 0, 0, 0, 0, 0, 0, 0, 0]),
+    prediction([0.55, 0.45, 0, 0, 0, 0, 0, 0, 0, 0]),
+    prediction([0.05, 0.95, 0, 0, 0, 0, 0, 0, 0, 0]),
+  ];
+
+  test('averages the probabilities', () => {
+    const result = aggregateTTA(predictions, 'mean');
+
+    expect(result.digit).toBe(1);
+    expect(result.probabilities[0]).toBeCloseTo(0.4, 6);
+    expect(result.probabilities[1]).toBeCloseTo(0.6, 6);
+    expect(result.confidence).toBe(result.probabilities[1]);
+    expect(result.inferenceTime).toBe(5);
+  });
+
+  test('votes over the variants', () => {
+    const result = aggregateTTA(predictions, 'vote');
+
+    expect(result.digit).toBe(0);
+    expect(result.confidence).toBeCloseTo(0.4, 6);
+  });
+
+  test('breaks tied votes by mean probability', () => {
+    expect(aggregateTTA(predictions.slice(1), 'vote').digit).toBe(1);
+  });
+
+  test("averages an ensemble's disagreement", () => {
+    const withDisagreement = predictions.map((p, i) => ({ ...p, disagreement: i / 2 }));
+    expect(aggregateTTA(withDisagreement).disagreement).toBeCloseTo(0.5, 6);
+    expect(aggregateTTA(predictions).disagreement).toBeUndefined();
+  });
+
+  test('rejects an empty set', () => {
+    expect(() => aggregateTTA([])).toThrow(/empty/);
+  });
+});
+
+describe('predictWithTTA', () => {
+  let model: tf.Sequential;
+
+  beforeAll(() => {
+    model = createHalvesModel();
+  });
+
+  afterAll(() => {
+    model.dispose();
+  });
+
+  test('averages the model over the variants', async () => {
+    const digit = bar(12);
+    const variants = await predictBatch(model, ttaImages(digit));
+    const result = await predictWithTTA(model, digit);
+
+    expect(result.probabilities).toEqual(aggregateTTA(variants).probabilities);
+  });
+
+  test('matches a plain prediction with only the original variant', async () => {
+    const digit = bar(15);
+    const plain = await predictDigit(model, digit);
+    const result = await predictWithTTA(model, digit, { variants: [{}] });
+
+    expect(result.digit).toBe(plain.digit);
+    result.probabilities.forEach((p, c) => expect(p).toBeCloseTo(plain.probabilities[c], 6));
+  });
+
+  test('outvotes a single unlucky rendering', async () => {
+    // Ink straddling the centre: shifted right it reads as a 1, otherwise as a 0
+    const digit = bar(11, 6);
+    const result = await predictWithTTA(model, digit, {
+      variants: [{ shift: { width: 2, height: 0 } }, {}, { shift: { width: -1, height: 0 } }],
+      aggregation: 'vote',
+    });
+
+    expect(result.digit).toBe(0);
+  });
+});
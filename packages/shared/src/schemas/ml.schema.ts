@@ -4,23 +4,71 @@ const DATA_URL_PREFIX = 'data:image/png;base64,' as const
 
 const STRICT_BASE64_DATA_URL_REGEX = /^data:image\/png;base64,[A-Za-z0-9+/]+={0,2}$/
 
+export const MAX_BATCH_SIZE = 64
+
+export const ImageDataSchema = z
+  .string()
+  .max(65536, 'Image data exceeds 64KB limit')
+  .regex(
+    STRICT_BASE64_DATA_URL_REGEX,
+    'Invalid Data URL format. Must be data:image/png;base64,[valid-base64]'
+  )
+  .refine((data) => data.trim().length > 0, 'Image data is required')
+  .refine((data) => data.startsWith(DATA_URL_PREFIX), 'Data URL must use PNG format with base64 encoding')
+  .refine((data) => {
+    const payload = data.slice(DATA_URL_PREFIX.length)
+    return payload.length > 0 && payload.length < 60000
+  }, 'Base64 payload length out of acceptable range')
+
+export const SessionIdSchema = z.string().uuid('Invalid session identifier')
+
+// 'tta' averages the prediction over shifted, rotated and zoomed copies of
+// the digit: slower, but steadier on sloppy handwriting
+export const PredictionModeSchema = z.enum(['single', 'tta'])
+
+export type PredictionMode = z.infer<typeof PredictionModeSchema>
+
 export const PredictInputSchema = z
   .object({
-    imageData: z
-      .string()
-      .max(65536, 'Image data exceeds 64KB limit')
-      .regex(
-        STRICT_BASE64_DATA_URL_REGEX,
-        'Invalid Data URL format. Must be data:image/png;base64,[valid-base64]'
-      )
-      .refine((data) => data.trim().length > 0, 'Image data is required')
-      .refine((data) => data.startsWith(DATA_URL_PREFIX), 'Data URL must use PNG format with base64 encoding')
-      .refine((data) => {
-        const payload = data.slice(DATA_URL_PREFIX.length)
-        return payload.length > 0 && payload.length < 60000
-      }, 'Base64 payload length out of acceptable range'),
-    sessionId: z.string().uuid('Invalid session identifier'),
+    imageData: ImageDataSchema,
+    sessionId: SessionIdSchema,
+    mode: PredictionModeSchema.optional(),
   })
   .strict()
 
 export type PredictInput = z.infer<typeof PredictInputSchema>
+
+// Images are only checked for being strings here: each one is validated
+// against ImageDataSchema on its own, so one bad image can't fail the batch
+export const PredictBatchInputSchema = z
+  .object({
+    images: z
+      .array(z.string())
+      .min(1, 'At least one image is required')
+      .max(MAX_BATCH_SIZE, `Batch exceeds ${MAX_BATCH_SIZE} images`),
+    sessionId: SessionIdSchema,
+  })
+  .strict()
+
+export type PredictBatchInput = z.infer<typeof PredictBatchInputSchema>
+
+export const PredictionStreamInputSchema = z
+  .object({
+    sessionId: SessionIdSchema,
+  })
+  .strict()
+
+export type PredictionStreamInput = z.infer<typeof PredictionStreamInputSchema>
+
+const DigitSchema = z.number().int().min(0).max(9)
+
+export const SubmitFeedbackInputSchema = z
+  .object({
+    sessionId: SessionIdSchema,
+    imageData: ImageDataSchema,
+    predictedDigit: DigitSchema,
+    trueLabel: DigitSchema,
+  })
+  .strict()
+
+export type SubmitFeedbackInput = z.infer<typeof SubmitFeedbackInputSchema>
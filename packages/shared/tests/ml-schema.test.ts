@@ -1,6 +1,12 @@
 import { describe, expect, test } from 'vitest'
 
-import { PredictInputSchema } from '../src/schemas/ml.schema'
+import {
+  ImageDataSchema,
+  MAX_BATCH_SIZE,
+  PredictBatchInputSchema,
+  PredictInputSchema,
+  SubmitFeedbackInputSchema,
+} from '../src/schemas/ml.schema'
 
 describe('PredictInputSchema - Security Perimeter', () => {
   const VALID_TINY_PNG =
@@ -90,4 +96,95 @@ describe('PredictInputSchema - Security Perimeter', () => {
     })
     expect(result.success).toBe(false)
   })
+
+  test.each(['single', 'tta'])('accepts mode %s', (mode) => {
+    const result = PredictInputSchema.safeParse({
+      imageData: VALID_TINY_PNG,
+      sessionId: '123e4567-e89b-12d3-a456-426614174000',
+      mode,
+    })
+    expect(result.success).toBe(true)
+  })
+
+  test('rejects an unknown mode', () => {
+    const result = PredictInputSchema.safeParse({
+      imageData: VALID_TINY_PNG,
+      sessionId: '123e4567-e89b-12d3-a456-426614174000',
+      mode: 'ensemble',
+    })
+    expect(result.success).toBe(false)
+  })
+})
+
+describe('PredictBatchInputSchema', () => {
+  const VALID_TINY_PNG =
+    'data:image/png;base64,iVBORw0KGgoAAAANSUhEUgAAAAEAAAABCAYAAAAfFcSJAAAADUlEQVR42mNk+M9QDwADhgGAWjR9awAAAABJRU5ErkJggg=='
+  const sessionId = '123e4567-e89b-12d3-a456-426614174000'
+
+  test('accepts a batch with invalid images (checked per item)', () => {
+    const result = PredictBatchInputSchema.safeParse({
+      images: [VALID_TINY_PNG, 'data:image/jpeg;base64,ABC=='],
+      sessionId,
+    })
+    expect(result.success).toBe(true)
+  })
+
+  test('rejects an empty batch', () => {
+    const result = PredictBatchInputSchema.safeParse({ images: [], sessionId })
+    expect(result.success).toBe(false)
+  })
+
+  test(`rejects more than ${MAX_BATCH_SIZE} images`, () => {
+    const result = PredictBatchInputSchema.safeParse({
+      images: Array(MAX_BATCH_SIZE + 1).fill(VALID_TINY_PNG),
+      sessionId,
+    })
+    expect(result.success).toBe(false)
+    if (!result.success) {
+      expect(result.error.issues[0]?.message).toContain(`exceeds ${MAX_BATCH_SIZE} images`)
+    }
+  })
+
+  test('rejects an invalid session ID', () => {
+    const result = PredictBatchInputSchema.safeParse({ images: [VALID_TINY_PNG], sessionId: 'nope' })
+    expect(result.success).toBe(false)
+  })
+
+  test('rejects extra keys (strict object)', () => {
+    const result = PredictBatchInputSchema.safeParse({ images: [VALID_TINY_PNG], sessionId, extra: 1 })
+    expect(result.success).toBe(false)
+  })
+
+  test('items follow the same rules as single predictions', () => {
+    expect(ImageDataSchema.safeParse(VALID_TINY_PNG).success).toBe(true)
+    expect(ImageDataSchema.safeParse('data:image/png;base64,ABC DEF==').success).toBe(false)
+  })
+})
+
+describe('SubmitFeedbackInputSchema', () => {
+  const VALID_TINY_PNG =
+    'data:image/png;base64,iVBORw0KGgoAAAANSUhEUgAAAAEAAAABCAYAAAAfFcSJAAAADUlEQVR42mNk+M9QDwADhgGAWjR9awAAAABJRU5ErkJggg=='
+  const feedback = {
+    sessionId: '123e4567-e89b-12d3-a456-426614174000',
+    imageData: VALID_TINY_PNG,
+    predictedDigit: 7,
+    trueLabel: 1,
+  }
+
+  test('accepts a correction', () => {
+    expect(SubmitFeedbackInputSchema.safeParse(feedback).success).toBe(true)
+  })
+
+  test.each([-1, 10, 1.5])('rejects label %s', (trueLabel) => {
+    expect(SubmitFeedbackInputSchema.safeParse({ ...feedback, trueLabel }).success).toBe(false)
+  })
+
+  test('rejects an invalid predicted digit', () => {
+    expect(SubmitFeedbackInputSchema.safeParse({ ...feedback, predictedDigit: '7' }).success).toBe(false)
+  })
+
+  test('applies the image rules', () => {
+    const result = SubmitFeedbackInputSchema.safeParse({ ...feedback, imageData: 'data:image/jpeg;base64,ABC==' })
+    expect(result.success).toBe(false)
+  })
 })
@@ -8,7 +8,7 @@ echo "========================================"
 echo -e "\n✅ Test 1: Valid input (should return 200)"
 curl -s -X POST $API_URL \
   -H "Content-Type: application/json" \
-  -d '{"imageData":"data:image/png;base64,ABC==","sessionId":"123e4567-e89b-12d3-a456-426614174000"}' \
+  -d '{"imageData":"data:image/png;base64,iVBORw0KGgoAAAANSUhEUgAAAAEAAAABCAYAAAAfFcSJAAAADUlEQVR42mNk+M9QDwADhgGAWjR9awAAAABJRU5ErkJggg==","sessionId":"123e4567-e89b-12d3-a456-426614174000"}' \
   | jq -r 'if .result then "PASS: Got 200 with prediction" else "FAIL: " + (.error.message // "Unknown error") end'
 
 # Test 2: Whitespace injection (should fail)
@@ -46,5 +46,44 @@ curl -s -X POST $API_URL \
   -d '{"imageData":"data:image/png;base64,ABC@#$==","sessionId":"123e4567-e89b-12d3-a456-426614174000"}' \
   | jq -r 'if .error then "PASS: Blocked with - " + .error.message else "FAIL: Should have rejected" end'
 
+# Test 7: Well-formed base64 that isn't a PNG (should fail)
+echo -e "\n🚫 Test 7: Not a PNG (should return 400)"
+curl -s -X POST $API_URL \
+  -H "Content-Type: application/json" \
+  -d '{"imageData":"data:image/png;base64,ABC==","sessionId":"123e4567-e89b-12d3-a456-426614174000"}' \
+  | jq -r 'if .error then "PASS: Blocked with - " + .error.data.reason + ": " + .error.message else "FAIL: Should have rejected" end'
+
+# Test 8: Decompression bomb - 1×1 header, image data inflating to 1MB (should fail)
+echo -e "\n🚫 Test 8: Decompression bomb (should return 400)"
+BOMB=$(node -e '
+const zlib = require("zlib")
+const crc32 = (bytes) => {
+  let crc = ~0
+  for (const byte of bytes) {
+    crc ^= byte
+    for (let k = 0; k < 8; k++) crc = crc & 1 ? 0xedb88320 ^ (crc >>> 1) : crc >>> 1
+  }
+  return ~crc >>> 0
+}
+const chunk = (type, data) => {
+  const body = Buffer.concat([Buffer.from(type), data])
+  const out = Buffer.alloc(data.length + 12)
+  out.writeUInt32BE(data.length, 0)
+  body.copy(out, 4)
+  out.writeUInt32BE(crc32(body), data.length + 8)
+  return out
+}
+const header = Buffer.from([0, 0, 0, 1, 0, 0, 0, 1, 8, 6, 0, 0, 0])
+const idat = zlib.deflateSync(Buffer.alloc(1024 * 1024))
+process.stdout.write(Buffer.concat([
+  Buffer.from([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a]),
+  chunk("IHDR", header), chunk("IDAT", idat), chunk("IEND", Buffer.alloc(0)),
+]).toString("base64"))
+')
+curl -s -X POST $API_URL \
+  -H "Content-Type: application/json" \
+  -d "{\"imageData\":\"data:image/png;base64,$BOMB\",\"sessionId\":\"123e4567-e89b-12d3-a456-426614174000\"}" \
+  | jq -r 'if .error then "PASS: Blocked with - " + .error.data.reason + ": " + .error.message else "FAIL: Should have rejected" end'
+
 echo -e "\n========================================"
 echo "🏁 Security Perimeter Tests Complete"